@@ -0,0 +1,553 @@
+export type AzureResult = 'Succeeded' | 'SucceededWithIssues' | 'Failed' | 'Canceled' | 'Skipped';
+
+export interface AzureExpressionContext {
+    /** Named values available to the expression (parameters, variables, ...) */
+    values: Record<string, any>;
+    /**
+     * Results the status functions (succeeded(), failed(), ...) look at: the dependencies
+     * of a stage or job, or the job itself for step conditions. Without them, like in
+     * template expressions, the status functions can't be used.
+     */
+    results?: Record<string, AzureResult>;
+}
+
+const STATUS_FUNCTIONS = ['always', 'canceled', 'failed', 'succeeded', 'succeededorfailed'];
+
+export class ExpressionError extends Error {
+    constructor(message: string, public readonly expression?: string) {
+        super(expression ? `${message} (in expression: ${expression})` : message);
+        this.name = 'ExpressionError';
+    }
+}
+
+type Token =
+    | { type: 'number'; value: number }
+    | { type: 'string'; value: string }
+    | { type: 'keyword'; value: boolean | null }
+    | { type: 'identifier'; value: string }
+    | { type: 'operator'; value: string };
+
+type ExpressionNode =
+    | { kind: 'literal'; value: any }
+    | { kind: 'named'; name: string }
+    | { kind: 'property'; object: ExpressionNode; name: string }
+    | { kind: 'index'; object: ExpressionNode; index: ExpressionNode }
+    | { kind: 'call'; name: string; args: ExpressionNode[] };
+
+/**
+ * Evaluate a single expression, e.g. the text between `${{` and `}}`. Azure expressions
+ * have no operators: everything is a function call, a literal or a named value.
+ */
+export function evaluateExpression(expression: string, context: AzureExpressionContext): any {
+    const parser = new ExpressionParser(tokenize(expression), expression);
+    return evaluate(parser.parse(), context, expression);
+}
+
+/**
+ * Evaluate the `condition:` of a stage, job or step. Without one Azure uses `succeeded()`;
+ * unlike GitHub, a condition that is given replaces the default instead of adding to it.
+ */
+export function evaluateCondition(condition: string | boolean | undefined, context: AzureExpressionContext): boolean {
+    if (typeof condition === 'boolean') return condition;
+    const expression = condition === undefined || condition === null || String(condition).trim() === ''
+        ? 'succeeded()'
+        : String(condition).trim();
+    return isTruthy(evaluateExpression(expression, context));
+}
+
+/**
+ * Check whether a value contains `${{ }}` template expressions
+ */
+export function hasTemplateExpressions(text: any): boolean {
+    return typeof text === 'string' && text.includes('${{');
+}
+
+/**
+ * Replace every `${{ expr }}` in a string with its value. A string consisting of
+ * exactly one expression keeps the value's type, so objects and lists can be inserted.
+ */
+export function expandTemplateString(text: string, context: AzureExpressionContext): any {
+    if (!hasTemplateExpressions(text)) return text;
+
+    const parts = splitTemplate(text, '${{', '}}');
+    if (parts.length === 1 && typeof parts[0] !== 'string') {
+        return evaluateExpression(parts[0].expression, context);
+    }
+
+    return parts.map(part => {
+        if (typeof part === 'string') return part;
+        const value = evaluateExpression(part.expression, context);
+        if (value !== null && typeof value === 'object') {
+            throw new ExpressionError(`Unable to convert from ${Array.isArray(value) ? 'Array' : 'Object'} to String`, part.expression);
+        }
+        return toDisplayString(value);
+    }).join('');
+}
+
+/**
+ * Azure's truthiness rules: false, 0, '', null and empty collections are falsy
+ */
+export function isTruthy(value: any): boolean {
+    if (value === null || value === undefined) return false;
+    if (typeof value === 'boolean') return value;
+    if (typeof value === 'number') return value !== 0 && !Number.isNaN(value);
+    if (typeof value === 'string') return value.length > 0;
+    return true;
+}
+
+/**
+ * Convert a value to the text Azure substitutes into YAML. Booleans render as True/False.
+ */
+export function toDisplayString(value: any): string {
+    if (value === null || value === undefined) return '';
+    if (typeof value === 'string') return value;
+    if (typeof value === 'boolean') return value ? 'True' : 'False';
+    if (typeof value === 'number') return Number.isInteger(value) ? value.toFixed(0) : String(value);
+    return JSON.stringify(value, null, 2);
+}
+
+/**
+ * Split text into literal parts and the expressions between `open` and `close`
+ */
+export function splitTemplate(text: string, open: string, close: string): Array<string | { expression: string }> {
+    const parts: Array<string | { expression: string }> = [];
+    let position = 0;
+
+    while (position < text.length) {
+        const start = text.indexOf(open, position);
+        if (start === -1) {
+            parts.push(text.slice(position));
+            break;
+        }
+        if (start > position) {
+            parts.push(text.slice(position, start));
+        }
+
+        // Find the closing braces, ignoring any inside string literals
+        let end = -1;
+        let inString = false;
+        for (let i = start + open.length; i < text.length; i++) {
+            if (text[i] === "'") {
+                inString = !inString;
+            } else if (!inString && text.startsWith(close, i)) {
+                end = i;
+                break;
+            }
+        }
+        if (end === -1) {
+            throw new ExpressionError(`Unclosed expression '${text.slice(start)}'`);
+        }
+
+        parts.push({ expression: text.slice(start + open.length, end).trim() });
+        position = end + close.length;
+    }
+
+    return parts;
+}
+
+function tokenize(expression: string): Token[] {
+    const tokens: Token[] = [];
+    let i = 0;
+
+    while (i < expression.length) {
+        const char = expression[i];
+
+        if (/\s/.test(char)) {
+            i++;
+            continue;
+        }
+
+        if (char === "'") {
+            let value = '';
+            i++;
+            while (true) {
+                if (i >= expression.length) {
+                    throw new ExpressionError('Unterminated string literal', expression);
+                }
+                if (expression[i] === "'") {
+                    if (expression[i + 1] === "'") {
+                        value += "'";
+                        i += 2;
+                        continue;
+                    }
+                    i++;
+                    break;
+                }
+                value += expression[i++];
+            }
+            tokens.push({ type: 'string', value });
+            continue;
+        }
+
+        const numberMatch = /^-?(?:\d+\.?\d*|\.\d+)/.exec(expression.slice(i));
+        if (numberMatch && (char !== '-' || tokens[tokens.length - 1]?.type === 'operator')) {
+            tokens.push({ type: 'number', value: Number(numberMatch[0]) });
+            i += numberMatch[0].length;
+            continue;
+        }
+
+        const identifierMatch = /^[a-z_][a-z0-9_-]*/i.exec(expression.slice(i));
+        if (identifierMatch) {
+            const word = identifierMatch[0];
+            const lower = word.toLowerCase();
+            if (lower === 'true' || lower === 'false') {
+                tokens.push({ type: 'keyword', value: lower === 'true' });
+            } else if (lower === 'null') {
+                tokens.push({ type: 'keyword', value: null });
+            } else {
+                tokens.push({ type: 'identifier', value: word });
+            }
+            i += word.length;
+            continue;
+        }
+
+        if (/[()[\].,]/.test(char)) {
+            tokens.push({ type: 'operator', value: char });
+            i++;
+            continue;
+        }
+
+        throw new ExpressionError(`Unexpected symbol '${char}'`, expression);
+    }
+
+    return tokens;
+}
+
+class ExpressionParser {
+    private position = 0;
+
+    constructor(private tokens: Token[], private expression: string) {}
+
+    parse(): ExpressionNode {
+        if (this.tokens.length === 0) {
+            throw new ExpressionError('Expected an expression', this.expression);
+        }
+        const node = this.parseValue();
+        if (this.position < this.tokens.length) {
+            throw new ExpressionError(`Unexpected token '${this.describe(this.tokens[this.position])}'`, this.expression);
+        }
+        return node;
+    }
+
+    private parseValue(): ExpressionNode {
+        return this.parsePostfix(this.parsePrimary());
+    }
+
+    private parsePrimary(): ExpressionNode {
+        const token = this.next();
+
+        if (token.type === 'number' || token.type === 'string' || token.type === 'keyword') {
+            return { kind: 'literal', value: token.value };
+        }
+
+        if (token.type === 'identifier') {
+            if (this.matchOperator('(')) {
+                const args: ExpressionNode[] = [];
+                if (!this.matchOperator(')')) {
+                    do {
+                        args.push(this.parseValue());
+                    } while (this.matchOperator(','));
+                    this.expectOperator(')');
+                }
+                return { kind: 'call', name: token.value.toLowerCase(), args };
+            }
+            return { kind: 'named', name: token.value };
+        }
+
+        throw new ExpressionError(`Unexpected token '${this.describe(token)}'`, this.expression);
+    }
+
+    private parsePostfix(node: ExpressionNode): ExpressionNode {
+        while (true) {
+            if (this.matchOperator('.')) {
+                const token = this.next();
+                if (token.type !== 'identifier' && token.type !== 'keyword') {
+                    throw new ExpressionError(`Expected a property name after '.'`, this.expression);
+                }
+                node = { kind: 'property', object: node, name: String(token.value) };
+            } else if (this.matchOperator('[')) {
+                const index = this.parseValue();
+                this.expectOperator(']');
+                node = { kind: 'index', object: node, index };
+            } else {
+                return node;
+            }
+        }
+    }
+
+    private next(): Token {
+        const token = this.tokens[this.position++];
+        if (!token) {
+            throw new ExpressionError('Unexpected end of expression', this.expression);
+        }
+        return token;
+    }
+
+    private matchOperator(operator: string): boolean {
+        const token = this.tokens[this.position];
+        if (token?.type === 'operator' && token.value === operator) {
+            this.position++;
+            return true;
+        }
+        return false;
+    }
+
+    private expectOperator(operator: string): void {
+        if (!this.matchOperator(operator)) {
+            const token = this.tokens[this.position];
+            throw new ExpressionError(`Expected '${operator}' but found ${token ? `'${this.describe(token)}'` : 'end of expression'}`, this.expression);
+        }
+    }
+
+    private describe(token: Token): string {
+        return token.type === 'string' ? `'${token.value}'` : String(token.value);
+    }
+}
+
+function evaluate(node: ExpressionNode, context: AzureExpressionContext, expression: string): any {
+    switch (node.kind) {
+        case 'literal':
+            return node.value;
+
+        case 'named': {
+            const key = findKey(context.values, node.name);
+            if (key === undefined) {
+                const available = Object.keys(context.values).join(', ');
+                throw new ExpressionError(`Unrecognized value: '${node.name}'. Available here: ${available || 'none'}`, expression);
+            }
+            return context.values[key];
+        }
+
+        case 'property':
+            return access(evaluate(node.object, context, expression), node.name);
+
+        case 'index': {
+            const object = evaluate(node.object, context, expression);
+            const index = evaluate(node.index, context, expression);
+            if (Array.isArray(object)) {
+                const position = toNumber(index);
+                return Number.isInteger(position) && object[position] !== undefined ? object[position] : null;
+            }
+            return access(object, toDisplayString(index));
+        }
+
+        case 'call':
+            return callFunction(node.name, node.args.map(arg => evaluate(arg, context, expression)), context, expression);
+    }
+}
+
+function access(object: any, name: string): any {
+    if (object === null || object === undefined || typeof object !== 'object' || Array.isArray(object)) {
+        return null;
+    }
+    const key = findKey(object, name);
+    return key === undefined || object[key] === undefined ? null : object[key];
+}
+
+/** Names are matched case-insensitively, like on Azure */
+function findKey(object: Record<string, any>, name: string): string | undefined {
+    if (Object.prototype.hasOwnProperty.call(object, name)) return name;
+    const lower = name.toLowerCase();
+    return Object.keys(object).find(key => key.toLowerCase() === lower);
+}
+
+/**
+ * Azure converts the right operand to the type of the left one before comparing.
+ * Returns null when the values can't be compared.
+ */
+function compareValues(left: any, right: any): number | null {
+    if (typeof left === 'number') {
+        const number = toNumber(right);
+        return Number.isNaN(number) ? null : Math.sign(left - number);
+    }
+    if (typeof left === 'boolean') {
+        return Number(left) - Number(isTruthy(right));
+    }
+    if (left === null || left === undefined) {
+        return right === null || right === undefined || right === '' ? 0 : null;
+    }
+    if (typeof left === 'string') {
+        const a = left.toLowerCase();
+        const b = toDisplayString(right).toLowerCase();
+        return a === b ? 0 : a < b ? -1 : 1;
+    }
+    return left === right ? 0 : null;
+}
+
+function equals(left: any, right: any): boolean {
+    return compareValues(left, right) === 0;
+}
+
+function toNumber(value: any): number {
+    if (value === null || value === undefined) return 0;
+    if (typeof value === 'boolean') return value ? 1 : 0;
+    if (typeof value === 'number') return value;
+    if (typeof value === 'string') {
+        const trimmed = value.trim();
+        return trimmed === '' ? 0 : Number(trimmed);
+    }
+    return NaN;
+}
+
+/**
+ * The status functions look at all results of the context, or only at the named ones
+ */
+function checkStatus(name: string, names: string[], context: AzureExpressionContext, expression: string): boolean {
+    if (!context.results) {
+        throw new ExpressionError(`Function '${name}' is only available in conditions`, expression);
+    }
+
+    let results = Object.values(context.results);
+    if (names.length > 0) {
+        results = names.map(dependency => {
+            const key = findKey(context.results!, dependency);
+            if (key === undefined) {
+                throw new ExpressionError(`'${dependency}' is not a dependency`, expression);
+            }
+            return context.results![key];
+        });
+    }
+
+    switch (name) {
+        case 'always':
+            return true;
+        case 'canceled':
+            return results.some(result => result === 'Canceled');
+        case 'failed':
+            return results.some(result => result === 'Failed');
+        case 'succeeded':
+            return results.every(result => result === 'Succeeded' || result === 'SucceededWithIssues');
+        default:
+            // succeededOrFailed: anything but a cancellation, including skipped dependencies
+            return !results.some(result => result === 'Canceled');
+    }
+}
+
+function callFunction(name: string, args: any[], context: AzureExpressionContext, expression: string): any {
+    const expectArgs = (min: number, max: number = min) => {
+        if (args.length < min || args.length > max) {
+            throw new ExpressionError(`Function '${name}' expects ${min === max ? min : `${min} to ${max === Infinity ? 'any number of' : max}`} argument(s) but got ${args.length}`, expression);
+        }
+    };
+    const ordered = (test: (order: number) => boolean) => {
+        expectArgs(2);
+        const order = compareValues(args[0], args[1]);
+        return order !== null && test(order);
+    };
+
+    if (STATUS_FUNCTIONS.includes(name)) {
+        return checkStatus(name, args.map(arg => toDisplayString(arg)), context, expression);
+    }
+
+    switch (name) {
+        case 'and':
+            expectArgs(2, Infinity);
+            return args.every(isTruthy);
+        case 'or':
+            expectArgs(2, Infinity);
+            return args.some(isTruthy);
+        case 'xor':
+            expectArgs(2);
+            return isTruthy(args[0]) !== isTruthy(args[1]);
+        case 'not':
+            expectArgs(1);
+            return !isTruthy(args[0]);
+        case 'iif':
+            expectArgs(3);
+            return isTruthy(args[0]) ? args[1] : args[2];
+
+        case 'eq':
+            return ordered(order => order === 0);
+        case 'ne':
+            expectArgs(2);
+            return !equals(args[0], args[1]);
+        case 'gt':
+            return ordered(order => order > 0);
+        case 'ge':
+            return ordered(order => order >= 0);
+        case 'lt':
+            return ordered(order => order < 0);
+        case 'le':
+            return ordered(order => order <= 0);
+        case 'in':
+            expectArgs(1, Infinity);
+            return args.slice(1).some(item => equals(args[0], item));
+        case 'notin':
+            expectArgs(1, Infinity);
+            return !args.slice(1).some(item => equals(args[0], item));
+
+        case 'contains':
+            expectArgs(2);
+            return toDisplayString(args[0]).toLowerCase().includes(toDisplayString(args[1]).toLowerCase());
+        case 'containsvalue': {
+            expectArgs(2);
+            const items = Array.isArray(args[0]) ? args[0] : args[0] && typeof args[0] === 'object' ? Object.values(args[0]) : [];
+            return items.some(item => equals(item, args[1]));
+        }
+        case 'startswith':
+            expectArgs(2);
+            return toDisplayString(args[0]).toLowerCase().startsWith(toDisplayString(args[1]).toLowerCase());
+        case 'endswith':
+            expectArgs(2);
+            return toDisplayString(args[0]).toLowerCase().endsWith(toDisplayString(args[1]).toLowerCase());
+
+        case 'coalesce':
+            expectArgs(1, Infinity);
+            return args.find(arg => arg !== null && arg !== undefined && arg !== '') ?? null;
+        case 'format': {
+            expectArgs(1, Infinity);
+            const [template, ...values] = args;
+            return toDisplayString(template).replace(/\{\{|\}\}|\{(\d+)(?::[^}]*)?\}/g, (match, index) => {
+                if (match === '{{') return '{';
+                if (match === '}}') return '}';
+                const position = Number(index);
+                if (position >= values.length) {
+                    throw new ExpressionError(`Format index ${position} is out of range`, expression);
+                }
+                return toDisplayString(values[position]);
+            });
+        }
+        case 'join': {
+            expectArgs(2);
+            const [separator, collection] = args;
+            if (Array.isArray(collection)) {
+                return collection.map(item => toDisplayString(item)).join(toDisplayString(separator));
+            }
+            if (collection && typeof collection === 'object') {
+                return Object.keys(collection).join(toDisplayString(separator));
+            }
+            return toDisplayString(collection);
+        }
+        case 'length': {
+            expectArgs(1);
+            const value = args[0];
+            if (typeof value === 'string' || Array.isArray(value)) return value.length;
+            if (value && typeof value === 'object') return Object.keys(value).length;
+            return 0;
+        }
+        case 'lower':
+            expectArgs(1);
+            return toDisplayString(args[0]).toLowerCase();
+        case 'upper':
+            expectArgs(1);
+            return toDisplayString(args[0]).toUpperCase();
+        case 'trim':
+            expectArgs(1);
+            return toDisplayString(args[0]).trim();
+        case 'replace':
+            expectArgs(3);
+            return toDisplayString(args[0]).split(toDisplayString(args[1])).join(toDisplayString(args[2]));
+        case 'split': {
+            expectArgs(2);
+            const separators = toDisplayString(args[1]).split('');
+            const pattern = new RegExp(`[${separators.map(char => char.replace(/[\\\]^-]/g, '\\$&')).join('')}]`);
+            return separators.length > 0 ? toDisplayString(args[0]).split(pattern) : [toDisplayString(args[0])];
+        }
+        case 'converttojson':
+            expectArgs(1);
+            return JSON.stringify(args[0] === undefined ? null : args[0], null, 2);
+
+        default:
+            throw new ExpressionError(`Unrecognized function: '${name}'`, expression);
+    }
+}
@@ -0,0 +1,43 @@
+export interface LoggingCommand {
+    /** Area and action, lower-cased, e.g. 'task.setvariable' */
+    name: string;
+    properties: Record<string, string>;
+    value: string;
+}
+
+/**
+ * Parse a `##vso[area.action key=value;key=value]message` line. Returns null for ordinary output.
+ */
+export function parseLoggingCommand(line: string): LoggingCommand | null {
+    const start = line.indexOf('##vso[');
+    if (start === -1) return null;
+
+    const match = /^##vso\[([A-Za-z]+\.[A-Za-z]+)([^\]]*)\](.*)$/.exec(line.slice(start).trimEnd());
+    if (!match) return null;
+
+    const properties: Record<string, string> = {};
+    for (const pair of match[2].trim().split(';')) {
+        const separator = pair.indexOf('=');
+        if (separator > 0) {
+            properties[pair.slice(0, separator).trim().toLowerCase()] = unescapeValue(pair.slice(separator + 1).trim());
+        }
+    }
+
+    return { name: match[1].toLowerCase(), properties, value: unescapeValue(match[3]) };
+}
+
+/**
+ * Boolean properties like `isOutput=true`, which Azure compares case-insensitively
+ */
+export function isTrueProperty(value: string | undefined): boolean {
+    return String(value || '').trim().toLowerCase() === 'true';
+}
+
+function unescapeValue(value: string): string {
+    return value
+        .replace(/%0D/gi, '\r')
+        .replace(/%0A/gi, '\n')
+        .replace(/%5D/gi, ']')
+        .replace(/%3B/gi, ';')
+        .replace(/%AZP25/gi, '%');
+}
@@ -0,0 +1,97 @@
+import * as yaml from 'js-yaml';
+
+/** A job's `strategy:` */
+export interface AzureStrategy {
+    /** Leg name to the variables of the leg, or a `$[ ]` runtime expression producing them as JSON */
+    matrix?: Record<string, Record<string, any>> | string;
+    parallel?: number | string;
+    maxParallel?: number | string;
+}
+
+/** One instance of a job: a matrix leg, a parallel slice, or the job itself */
+export interface JobInstance {
+    /** Leg name (`linux_node18`) or slice number, empty for jobs without a strategy */
+    name: string;
+    /** Matrix variables of the instance */
+    variables: Record<string, string>;
+    /** 1-based position, System.JobPositionInPhase */
+    position: number;
+    /** System.TotalJobsInPhase */
+    total: number;
+}
+
+/**
+ * Expand a job into its instances. `matrix` is the job's matrix after evaluating a
+ * runtime expression, which produces the legs as a JSON string.
+ */
+export function expandStrategy(strategy: AzureStrategy | undefined, matrix: any = strategy?.matrix): JobInstance[] {
+    maxParallelOf(strategy);
+
+    if (typeof matrix === 'string') {
+        try {
+            // Azure's own examples write the legs with single quotes, which YAML flow syntax accepts like JSON
+            matrix = matrix.trim() ? yaml.load(matrix) : {};
+        } catch (error) {
+            throw new Error(`The matrix must be a mapping of leg names to variables, got '${matrix}'`);
+        }
+    }
+
+    if (matrix && typeof matrix === 'object' && !Array.isArray(matrix)) {
+        const legs = Object.entries(matrix);
+        return legs.map(([name, variables], index) => {
+            if (!/^[A-Za-z0-9_]+$/.test(name)) {
+                throw new Error(`Matrix leg name '${name}' may only contain letters, numbers and underscores`);
+            }
+            if (!variables || typeof variables !== 'object' || Array.isArray(variables)) {
+                throw new Error(`Matrix leg '${name}' must be a mapping of variables`);
+            }
+            return {
+                name,
+                variables: Object.fromEntries(Object.entries(variables).map(([key, value]) => [key, String(value)])),
+                position: index + 1,
+                total: legs.length
+            };
+        });
+    }
+    if (matrix !== undefined && matrix !== null) {
+        throw new Error('The matrix must be a mapping of leg names to variables');
+    }
+
+    if (strategy?.parallel !== undefined) {
+        const count = Number(strategy.parallel);
+        if (!Number.isInteger(count) || count < 1) {
+            throw new Error(`strategy.parallel must be a positive number, got '${strategy.parallel}'`);
+        }
+        return Array.from({ length: count }, (_, index) => ({ name: String(index + 1), variables: {}, position: index + 1, total: count }));
+    }
+
+    return [{ name: '', variables: {}, position: 1, total: 1 }];
+}
+
+/**
+ * The `maxParallel` of a strategy, 0 when it doesn't limit the instances. Throws for
+ * values that aren't a whole number of at least 0.
+ */
+export function maxParallelOf(strategy: AzureStrategy | undefined): number {
+    if (strategy?.maxParallel === undefined || strategy.maxParallel === '') return 0;
+    const count = Number(strategy.maxParallel);
+    if (!Number.isInteger(count) || count < 0) {
+        throw new Error(`strategy.maxParallel must be a whole number of at least 0, got '${strategy.maxParallel}'`);
+    }
+    return count;
+}
+
+/**
+ * Keep the instances the `--matrix` filters select: `<job>=<leg>` picks a leg by name,
+ * other filters compare matrix variables. Filters on variables an instance doesn't have
+ * are ignored.
+ */
+export function filterInstances(jobId: string, instances: JobInstance[], filters: Record<string, string>): JobInstance[] {
+    return instances.filter(instance => Object.entries(filters).every(([key, value]) => {
+        if (key.toLowerCase() === jobId.toLowerCase()) {
+            return instance.name.toLowerCase() === value.toLowerCase();
+        }
+        const variable = Object.keys(instance.variables).find(name => name.toLowerCase() === key.toLowerCase());
+        return variable === undefined || instance.variables[variable] === value;
+    }));
+}
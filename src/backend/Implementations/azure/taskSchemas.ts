@@ -0,0 +1,408 @@
+/** The kinds of task inputs that are checked beyond being present */
+export type TaskInputType = 'string' | 'multiLine' | 'boolean' | 'pickList';
+
+export interface TaskInputSchema {
+    name: string;
+    /** Other names the input can be given by, e.g. `path` for `targetPath` */
+    aliases?: string[];
+    type?: TaskInputType;
+    required?: boolean;
+    /** Allowed values of a pickList, compared case-insensitively */
+    options?: string[];
+    /** Used when the input isn't given; may contain $(variable) macros */
+    default?: string;
+}
+
+export interface TaskSchema {
+    inputs: TaskInputSchema[];
+}
+
+export interface TaskReference {
+    /** Name without publisher prefix, e.g. CopyFiles */
+    name: string;
+    /** Major version, null when the task was referenced without one */
+    version: number | null;
+}
+
+export interface TaskInputValidation {
+    /** The inputs by their schema name, with defaults applied */
+    inputs: Record<string, string>;
+    errors: string[];
+}
+
+const bool = (name: string, value: boolean, aliases?: string[]): TaskInputSchema =>
+    ({ name, type: 'boolean', default: String(value), aliases });
+
+const SCRIPT_INPUTS: TaskInputSchema[] = [
+    { name: 'targetType', type: 'pickList', options: ['filePath', 'inline'], default: 'filePath' },
+    { name: 'filePath' },
+    { name: 'arguments' },
+    { name: 'script', type: 'multiLine' },
+    { name: 'workingDirectory' },
+    bool('failOnStderr', false)
+];
+
+const REPLACE_TOKENS_V5: TaskSchema = {
+    inputs: [
+        { name: 'rootDirectory' },
+        { name: 'targetFiles', type: 'multiLine', required: true },
+        { name: 'encoding', type: 'pickList', options: ['auto', 'ascii', 'utf-7', 'utf-8', 'utf-16le', 'utf-16be', 'win1252', 'iso88591'], default: 'auto' },
+        { name: 'tokenPattern', type: 'pickList', options: ['default', 'rm', 'octopus', 'azpipelines', 'doublebraces', 'doubleunderscores', 'githubactions', 'custom'], default: 'default' },
+        { name: 'tokenPrefix', default: '#{' },
+        { name: 'tokenSuffix', default: '}#' },
+        bool('writeBOM', true),
+        { name: 'actionOnMissing', type: 'pickList', options: ['continue', 'warn', 'fail'], default: 'warn' },
+        bool('keepToken', false),
+        { name: 'actionOnNoFiles', type: 'pickList', options: ['continue', 'warn', 'fail'], default: 'continue' },
+        bool('enableTransforms', false),
+        { name: 'transformPrefix', default: '(' },
+        { name: 'transformSuffix', default: ')' },
+        { name: 'variableSeparator', default: '.' },
+        bool('enableRecursion', false),
+        bool('useLegacyPattern', false),
+        { name: 'defaultValue', default: '' },
+        bool('useDefaultValue', false),
+        { name: 'inlineVariables', type: 'multiLine' },
+        { name: 'escapeType', type: 'pickList', options: ['auto', 'none', 'json', 'xml', 'custom'], default: 'auto' },
+        { name: 'escapeChar' },
+        { name: 'charsToEscape' },
+        { name: 'verbosity', type: 'pickList', options: ['normal', 'detailed', 'off'], default: 'normal' },
+        bool('enableTelemetry', true)
+    ]
+};
+
+const DOWNLOAD_BUILD_ARTIFACTS: TaskSchema = {
+    inputs: [
+        { name: 'buildType', type: 'pickList', options: ['current', 'specific'], default: 'current' },
+        { name: 'project' },
+        { name: 'pipeline', aliases: ['definition'] },
+        bool('specificBuildWithTriggering', false),
+        { name: 'buildVersionToDownload', type: 'pickList', options: ['latest', 'latestFromBranch', 'specific'], default: 'latest' },
+        bool('allowPartiallySucceededBuilds', false),
+        { name: 'branchName', default: 'refs/heads/master' },
+        { name: 'buildId' },
+        { name: 'tags' },
+        { name: 'downloadType', type: 'pickList', options: ['single', 'specific'], default: 'single' },
+        { name: 'artifactName' },
+        { name: 'itemPattern', default: '**' },
+        { name: 'downloadPath', default: '$(System.ArtifactsDirectory)' },
+        bool('cleanDestinationFolder', false),
+        { name: 'parallelizationLimit', default: '8' },
+        bool('checkDownloadedFiles', false),
+        { name: 'retryDownloadCount', default: '4' },
+        bool('extractTars', false)
+    ]
+};
+
+const PUBLISH_PIPELINE_ARTIFACT: TaskSchema = {
+    inputs: [
+        { name: 'targetPath', aliases: ['path'], default: '$(Pipeline.Workspace)' },
+        { name: 'artifact', aliases: ['artifactName'] },
+        { name: 'publishLocation', aliases: ['artifactType'], type: 'pickList', options: ['pipeline', 'filepath'], default: 'pipeline' },
+        { name: 'fileSharePath' },
+        bool('parallel', false),
+        { name: 'parallelCount', default: '8' },
+        { name: 'properties' }
+    ]
+};
+
+const DOWNLOAD_PIPELINE_ARTIFACT: TaskSchema = {
+    inputs: [
+        { name: 'buildType', aliases: ['source'], type: 'pickList', options: ['current', 'specific'], default: 'current' },
+        { name: 'project' },
+        { name: 'definition', aliases: ['pipeline'] },
+        bool('specificBuildWithTriggering', false, ['preferTriggeringPipeline']),
+        { name: 'buildVersionToDownload', aliases: ['runVersion'], type: 'pickList', options: ['latest', 'latestFromBranch', 'specific'], default: 'latest' },
+        { name: 'branchName', aliases: ['runBranch'], default: 'refs/heads/master' },
+        { name: 'pipelineId', aliases: ['runId', 'buildId'] },
+        { name: 'tags' },
+        bool('allowPartiallySucceededBuilds', false),
+        bool('allowFailedBuilds', false),
+        { name: 'artifactName', aliases: ['artifact'] },
+        { name: 'itemPattern', aliases: ['patterns'], type: 'multiLine', default: '**' },
+        { name: 'targetPath', aliases: ['path', 'downloadPath'], default: '$(Pipeline.Workspace)' }
+    ]
+};
+
+/**
+ * Inputs of the tasks that run locally, by lower-cased name and major version. They
+ * follow the task.json of each task; inputs that only matter on a hosted agent are
+ * accepted but ignored.
+ */
+const TASK_SCHEMAS: Record<string, Record<number, TaskSchema>> = {
+    cmdline: {
+        2: {
+            inputs: [
+                { name: 'script', type: 'multiLine', default: 'echo Write your commands here' },
+                { name: 'workingDirectory' },
+                bool('failOnStderr', false)
+            ]
+        }
+    },
+    bash: {
+        3: {
+            inputs: [
+                ...SCRIPT_INPUTS,
+                bool('bashEnvValue', false),
+                bool('noProfile', true),
+                bool('noRc', true)
+            ]
+        }
+    },
+    powershell: {
+        2: {
+            inputs: [
+                ...SCRIPT_INPUTS,
+                { name: 'errorActionPreference', type: 'pickList', options: ['default', 'stop', 'continue', 'silentlyContinue'], default: 'stop' },
+                { name: 'warningPreference', type: 'pickList', options: ['default', 'stop', 'continue', 'silentlyContinue'], default: 'default' },
+                { name: 'informationPreference', type: 'pickList', options: ['default', 'stop', 'continue', 'silentlyContinue'], default: 'default' },
+                { name: 'verbosePreference', type: 'pickList', options: ['default', 'stop', 'continue', 'silentlyContinue'], default: 'default' },
+                { name: 'debugPreference', type: 'pickList', options: ['default', 'stop', 'continue', 'silentlyContinue'], default: 'default' },
+                { name: 'progressPreference', type: 'pickList', options: ['default', 'stop', 'continue', 'silentlyContinue'], default: 'silentlyContinue' },
+                bool('showWarnings', false),
+                bool('ignoreLASTEXITCODE', false),
+                bool('pwsh', false),
+                bool('runScriptInSeparateScope', false)
+            ]
+        }
+    },
+    copyfiles: {
+        2: {
+            inputs: [
+                { name: 'SourceFolder', default: '$(Build.SourcesDirectory)' },
+                { name: 'Contents', type: 'multiLine', default: '**' },
+                { name: 'TargetFolder', required: true },
+                bool('CleanTargetFolder', false),
+                bool('OverWrite', false),
+                bool('flattenFolders', false),
+                bool('preserveTimestamp', false),
+                { name: 'retryCount', default: '0' },
+                { name: 'delayBetweenRetries', default: '1000' },
+                bool('ignoreMakeDirErrors', false)
+            ]
+        }
+    },
+    deletefiles: {
+        1: {
+            inputs: [
+                { name: 'SourceFolder', default: '$(Build.SourcesDirectory)' },
+                { name: 'Contents', type: 'multiLine', required: true },
+                bool('RemoveSourceFolder', false),
+                bool('RemoveDotFiles', false)
+            ]
+        }
+    },
+    archivefiles: {
+        2: {
+            inputs: [
+                { name: 'rootFolderOrFile', default: '$(Build.BinariesDirectory)' },
+                bool('includeRootFolder', true),
+                { name: 'archiveType', type: 'pickList', options: ['zip', '7z', 'tar', 'wim'], default: 'zip' },
+                { name: 'sevenZipCompression', type: 'pickList', options: ['ultra', 'maximum', 'normal', 'fast', 'fastest', 'none'], default: 'normal' },
+                { name: 'tarCompression', type: 'pickList', options: ['gz', 'bz2', 'xz', 'none'], default: 'gz' },
+                { name: 'archiveFile', default: '$(Build.ArtifactStagingDirectory)/$(Build.BuildId).zip' },
+                bool('replaceExistingArchive', true),
+                bool('verbose', false),
+                bool('quiet', false)
+            ]
+        }
+    },
+    extractfiles: {
+        1: {
+            inputs: [
+                { name: 'archiveFilePatterns', type: 'multiLine', default: '**/*.zip' },
+                { name: 'destinationFolder', required: true },
+                bool('cleanDestinationFolder', true),
+                bool('overwriteExistingFiles', false),
+                { name: 'pathToSevenZipTool' }
+            ]
+        }
+    },
+    publishbuildartifacts: {
+        1: {
+            inputs: [
+                { name: 'PathtoPublish', default: '$(Build.ArtifactStagingDirectory)' },
+                { name: 'ArtifactName', default: 'drop' },
+                { name: 'publishLocation', aliases: ['ArtifactType'], type: 'pickList', options: ['Container', 'FilePath'], default: 'Container' },
+                { name: 'MaxArtifactSize', default: '0' },
+                { name: 'TargetPath' },
+                bool('Parallel', false),
+                { name: 'ParallelCount', default: '8' },
+                bool('StoreAsTar', false)
+            ]
+        }
+    },
+    publishpipelineartifact: {
+        0: PUBLISH_PIPELINE_ARTIFACT,
+        1: PUBLISH_PIPELINE_ARTIFACT
+    },
+    downloadbuildartifacts: {
+        0: DOWNLOAD_BUILD_ARTIFACTS,
+        1: DOWNLOAD_BUILD_ARTIFACTS
+    },
+    downloadpipelineartifact: {
+        0: DOWNLOAD_PIPELINE_ARTIFACT,
+        1: DOWNLOAD_PIPELINE_ARTIFACT,
+        2: DOWNLOAD_PIPELINE_ARTIFACT
+    },
+    publishtestresults: {
+        2: {
+            inputs: [
+                { name: 'testResultsFormat', aliases: ['testRunner'], type: 'pickList', options: ['JUnit', 'NUnit', 'VSTest', 'XUnit', 'CTest'], default: 'JUnit' },
+                { name: 'testResultsFiles', type: 'multiLine', default: '**/TEST-*.xml' },
+                { name: 'searchFolder', default: '$(System.DefaultWorkingDirectory)' },
+                bool('mergeTestResults', false),
+                bool('failTaskOnFailedTests', false),
+                bool('failTaskOnFailureToPublishResults', false),
+                bool('failTaskOnMissingResultsFile', false),
+                { name: 'testRunTitle' },
+                { name: 'buildPlatform', aliases: ['platform'] },
+                { name: 'buildConfiguration', aliases: ['configuration'] },
+                bool('publishRunAttachments', true)
+            ]
+        }
+    },
+    nodetool: {
+        0: {
+            inputs: [
+                { name: 'versionSource', type: 'pickList', options: ['spec', 'fromFile'], default: 'spec' },
+                { name: 'versionSpec', default: '6.x' },
+                { name: 'versionFilePath' },
+                bool('checkLatest', false),
+                bool('force32bit', false),
+                { name: 'nodejsMirror', default: 'https://nodejs.org/dist' },
+                { name: 'retryCountOnDownloadFails', default: '5' },
+                { name: 'delayBetweenRetries', default: '1000' }
+            ]
+        }
+    },
+    usepythonversion: {
+        0: {
+            inputs: [
+                { name: 'versionSpec', default: '3.x' },
+                bool('disableDownloadFromRegistry', false),
+                bool('allowUnstable', false),
+                bool('addToPath', true),
+                { name: 'architecture', type: 'pickList', options: ['x86', 'x64'], default: 'x64' },
+                { name: 'githubToken' }
+            ]
+        }
+    },
+    replacetokens: {
+        3: REPLACE_TOKENS_V5,
+        4: REPLACE_TOKENS_V5,
+        5: REPLACE_TOKENS_V5
+    }
+};
+
+/**
+ * Split a `task:` reference like `CopyFiles@2` or `qetza.replacetokens.replacetokens-task.replacetokens@5`
+ */
+export function parseTaskReference(task: string): TaskReference {
+    const [fullName, version] = task.trim().split('@');
+    const name = fullName.split('.').pop() || fullName;
+    const major = version !== undefined ? parseInt(version, 10) : NaN;
+    return { name, version: Number.isNaN(major) ? null : major };
+}
+
+/**
+ * The schema of a task. Without a version Azure uses the newest one. Returns null for
+ * tasks that don't run locally.
+ */
+export function findTaskSchema(reference: TaskReference): { version: number; schema: TaskSchema } | null {
+    const versions = TASK_SCHEMAS[reference.name.toLowerCase()];
+    if (!versions) return null;
+
+    const version = reference.version ?? Math.max(...Object.keys(versions).map(Number));
+    return versions[version] ? { version, schema: versions[version] } : null;
+}
+
+/**
+ * Check the `inputs:` of a step against the task's schema: unknown inputs (usually typos),
+ * missing required inputs and values a pickList or boolean doesn't accept.
+ */
+export function validateTaskInputs(schema: TaskSchema, inputs: Record<string, any>): TaskInputValidation {
+    const result: Record<string, string> = {};
+    const errors: string[] = [];
+
+    for (const [given, value] of Object.entries(inputs)) {
+        const input = schema.inputs.find(candidate =>
+            [candidate.name, ...(candidate.aliases || [])].some(name => name.toLowerCase() === given.toLowerCase()));
+        if (!input) {
+            const suggestion = suggestInput(schema, given);
+            errors.push(`Unknown input '${given}'${suggestion ? `, did you mean '${suggestion}'?` : ''}`);
+            continue;
+        }
+        if (value === null || value === undefined) continue;
+        result[input.name] = String(value);
+    }
+
+    for (const input of schema.inputs) {
+        const value = result[input.name];
+        if (value === undefined || value === '') {
+            if (input.required) {
+                errors.push(`Input required: ${input.name}`);
+            } else if (input.default !== undefined) {
+                result[input.name] = input.default;
+            }
+            continue;
+        }
+
+        if (input.type === 'boolean' && !/^(true|false)$/i.test(value.trim())) {
+            errors.push(`Input '${input.name}' must be true or false but got '${value}'`);
+        } else if (input.type === 'pickList' && input.options) {
+            const option = input.options.find(candidate => candidate.toLowerCase() === value.trim().toLowerCase());
+            if (option) {
+                result[input.name] = option;
+            } else {
+                errors.push(`Input '${input.name}' must be one of ${input.options.join(', ')} but got '${value}'`);
+            }
+        }
+    }
+
+    return { inputs: result, errors };
+}
+
+/**
+ * Boolean task inputs, which Azure compares case-insensitively
+ */
+export function booleanInput(value: string | undefined): boolean {
+    return String(value || '').trim().toLowerCase() === 'true';
+}
+
+/**
+ * Multi-line inputs like `Contents` list one pattern per line
+ */
+export function multiLineInput(value: string | undefined): string[] {
+    return String(value || '').split(/\r?\n/).map(line => line.trim()).filter(line => line.length > 0);
+}
+
+/**
+ * The closest input name for a typo, if any is close enough
+ */
+function suggestInput(schema: TaskSchema, given: string): string | null {
+    let best: string | null = null;
+    let bestDistance = Math.max(2, Math.floor(given.length / 3)) + 1;
+    for (const input of schema.inputs) {
+        for (const name of [input.name, ...(input.aliases || [])]) {
+            const distance = editDistance(given.toLowerCase(), name.toLowerCase());
+            if (distance < bestDistance) {
+                best = input.name;
+                bestDistance = distance;
+            }
+        }
+    }
+    return best;
+}
+
+function editDistance(a: string, b: string): number {
+    let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+        for (let j = 1; j <= b.length; j++) {
+            current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+        }
+        previous = current;
+    }
+    return previous[b.length];
+}
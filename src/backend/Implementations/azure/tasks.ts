@@ -0,0 +1,305 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { spawnSync } from 'child_process';
+import { findFiles, walkFiles } from '../../fileGlob';
+
+/**
+ * A task that can't do its work, e.g. a missing source folder or archive tool
+ */
+export class TaskError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'TaskError';
+    }
+}
+
+export interface CopyFilesOptions {
+    sourceFolder: string;
+    contents: string[];
+    targetFolder: string;
+    cleanTargetFolder: boolean;
+    overwrite: boolean;
+    flattenFolders: boolean;
+    preserveTimestamp: boolean;
+}
+
+export interface ArchiveOptions {
+    rootFolderOrFile: string;
+    includeRootFolder: boolean;
+    archiveType: string;
+    tarCompression: string;
+    archiveFile: string;
+    replaceExistingArchive: boolean;
+}
+
+export type TestOutcome = 'Passed' | 'Failed' | 'Skipped';
+
+export interface TestCaseResult {
+    suite: string;
+    name: string;
+    className?: string;
+    /** Duration in seconds */
+    time: number;
+    outcome: TestOutcome;
+    message?: string;
+}
+
+/** Token delimiters of the replacetokens `tokenPattern` presets */
+export const TOKEN_PATTERNS: Record<string, { prefix: string; suffix: string }> = {
+    default: { prefix: '#{', suffix: '}#' },
+    rm: { prefix: '__', suffix: '__' },
+    octopus: { prefix: '#{', suffix: '}' },
+    azpipelines: { prefix: '$(', suffix: ')' },
+    doublebraces: { prefix: '{{', suffix: '}}' },
+    doubleunderscores: { prefix: '__', suffix: '__' },
+    githubactions: { prefix: '#{{', suffix: '}}' }
+};
+
+/**
+ * Copy the files matching `contents` (relative to the source folder) to the target
+ * folder, keeping their relative paths unless the folders are flattened. Returns the
+ * copied files and the ones skipped because they exist and `overwrite` is off.
+ */
+export function copyFiles(options: CopyFilesOptions): { copied: string[]; skipped: string[] } {
+    if (!fs.existsSync(options.sourceFolder)) {
+        throw new TaskError(`Source folder not found: ${options.sourceFolder}`);
+    }
+    if (options.cleanTargetFolder && fs.existsSync(options.targetFolder)) {
+        for (const entry of fs.readdirSync(options.targetFolder)) {
+            fs.rmSync(path.join(options.targetFolder, entry), { recursive: true, force: true });
+        }
+    }
+
+    const copied: string[] = [];
+    const skipped: string[] = [];
+    for (const file of findFiles(options.sourceFolder, options.contents)) {
+        const relative = options.flattenFolders ? path.basename(file) : path.relative(options.sourceFolder, file);
+        const target = path.join(options.targetFolder, relative);
+        // The target folder may be inside the source folder
+        if (path.resolve(file) === path.resolve(target)) continue;
+
+        if (fs.existsSync(target) && !options.overwrite) {
+            skipped.push(relative);
+            continue;
+        }
+
+        fs.mkdirSync(path.dirname(target), { recursive: true });
+        fs.copyFileSync(file, target);
+        if (options.preserveTimestamp) {
+            const stat = fs.statSync(file);
+            fs.utimesSync(target, stat.atime, stat.mtime);
+        }
+        copied.push(relative);
+    }
+    return { copied, skipped };
+}
+
+/**
+ * Delete the files and folders matching `contents` below the source folder. Dot files
+ * are only deleted with `removeDotFiles`. Returns the deleted paths, relative to the source.
+ */
+export function deleteFiles(sourceFolder: string, contents: string[], removeSourceFolder: boolean, removeDotFiles: boolean): string[] {
+    if (!fs.existsSync(sourceFolder)) return [];
+
+    const deleted: string[] = [];
+    const isDotPath = (relative: string) => relative.split(/[\\/]/).some(segment => segment.startsWith('.'));
+
+    // Folders named without wildcards are removed whole, empty ones included
+    for (const pattern of contents) {
+        if (pattern.startsWith('!') || /[*?[{]/.test(pattern)) continue;
+        const folder = path.resolve(sourceFolder, pattern);
+        const relative = path.relative(sourceFolder, folder);
+        if (relative && !relative.startsWith('..') && fs.existsSync(folder) && fs.statSync(folder).isDirectory()
+            && (removeDotFiles || !isDotPath(relative))) {
+            fs.rmSync(folder, { recursive: true, force: true });
+            deleted.push(relative);
+        }
+    }
+
+    for (const file of findFiles(sourceFolder, contents)) {
+        const relative = path.relative(sourceFolder, file);
+        if (!removeDotFiles && isDotPath(relative)) continue;
+        fs.rmSync(file, { force: true });
+        deleted.push(relative);
+    }
+
+    if (removeSourceFolder) {
+        fs.rmSync(sourceFolder, { recursive: true, force: true });
+        deleted.push('.');
+    }
+    return deleted;
+}
+
+/**
+ * Create a zip or tar archive with the zip and tar commands. Returns the number of files added.
+ */
+export function createArchive(options: ArchiveOptions): number {
+    const source = path.resolve(options.rootFolderOrFile);
+    if (!fs.existsSync(source)) {
+        throw new TaskError(`Not found rootFolderOrFile: ${source}`);
+    }
+
+    const archive = path.resolve(options.archiveFile);
+    if (fs.existsSync(archive)) {
+        if (!options.replaceExistingArchive) {
+            throw new TaskError(`Archive file already exists and replaceExistingArchive is false: ${archive}`);
+        }
+        fs.rmSync(archive, { force: true });
+    }
+    fs.mkdirSync(path.dirname(archive), { recursive: true });
+
+    // Archive the folder itself from its parent, or its contents from inside it
+    const isFile = fs.statSync(source).isFile();
+    const cwd = isFile || options.includeRootFolder ? path.dirname(source) : source;
+    const entries = isFile || options.includeRootFolder ? [path.basename(source)] : fs.readdirSync(source);
+    if (entries.length === 0) {
+        throw new TaskError(`Nothing to archive in ${source}`);
+    }
+
+    if (options.archiveType === 'zip') {
+        runTool('zip', ['-r', '-q', '-y', archive, ...entries], cwd);
+    } else if (options.archiveType === 'tar') {
+        const flags: Record<string, string> = { gz: '-czf', bz2: '-cjf', xz: '-cJf', none: '-cf' };
+        runTool('tar', [flags[options.tarCompression] || '-czf', archive, ...entries], cwd);
+    } else {
+        throw new TaskError(`Archive type '${options.archiveType}' isn't supported locally, use zip or tar`);
+    }
+    return walkFiles(source).length;
+}
+
+/**
+ * Extract a zip or tar archive (compressed or not) into a folder
+ */
+export function extractArchive(archive: string, destination: string, overwrite: boolean): void {
+    fs.mkdirSync(destination, { recursive: true });
+    const name = archive.toLowerCase();
+
+    if (name.endsWith('.zip') || name.endsWith('.jar') || name.endsWith('.nupkg')) {
+        runTool('unzip', ['-q', overwrite ? '-o' : '-n', archive, '-d', destination], destination);
+    } else if (/\.(tar|tgz|taz|tar\.gz|tar\.bz2|tbz2|tar\.xz|txz)$/.test(name)) {
+        // GNU tar treats existing files as errors with -k, bsdtar skips them
+        const keep = process.platform === 'linux' ? '--skip-old-files' : '-k';
+        runTool('tar', overwrite ? ['-xf', archive, '-C', destination] : ['-xf', archive, keep, '-C', destination], destination);
+    } else {
+        throw new TaskError(`Unsupported archive type: ${path.basename(archive)}, zip and tar archives can be extracted locally`);
+    }
+}
+
+/**
+ * Read the test cases of a JUnit XML report, with `<testsuites>` or a single `<testsuite>` as root
+ */
+export function parseJUnit(xml: string): TestCaseResult[] {
+    const results: TestCaseResult[] = [];
+    const suitePattern = /<testsuite\b([^>]*?)(?:\/>|>([\s\S]*?)<\/testsuite>)/g;
+    let suite: RegExpExecArray | null;
+
+    while ((suite = suitePattern.exec(xml)) !== null) {
+        const suiteName = xmlAttribute(suite[1], 'name') || 'Tests';
+        const casePattern = /<testcase\b([^>]*?)(?:\/>|>([\s\S]*?)<\/testcase>)/g;
+        let testCase: RegExpExecArray | null;
+
+        while ((testCase = casePattern.exec(suite[2] || '')) !== null) {
+            const body = testCase[2] || '';
+            const failure = /<(failure|error)\b([^>]*?)(?:\/>|>([\s\S]*?)<\/\1>)/.exec(body);
+            const skipped = /<skipped\b/.test(body);
+
+            results.push({
+                suite: suiteName,
+                name: xmlAttribute(testCase[1], 'name') || 'unnamed',
+                className: xmlAttribute(testCase[1], 'classname'),
+                time: parseFloat(xmlAttribute(testCase[1], 'time') || '0') || 0,
+                outcome: failure ? 'Failed' : skipped ? 'Skipped' : 'Passed',
+                message: failure ? (xmlAttribute(failure[2], 'message') || decodeXml(failure[3] || '').trim().split(/\r?\n/)[0]) : undefined
+            });
+        }
+    }
+    return results;
+}
+
+/**
+ * Replace `prefix name suffix` tokens with the values `lookup` returns. Tokens without a
+ * value are kept or replaced by `missingValue`, and reported in `missing`.
+ */
+export function replaceTokens(
+    content: string,
+    prefix: string,
+    suffix: string,
+    lookup: (name: string) => string | undefined,
+    missingValue: string | null
+): { content: string; replaced: number; missing: string[] } {
+    const pattern = new RegExp(`${escapeRegExp(prefix)}\\s*((?:(?!${escapeRegExp(prefix)})(?!${escapeRegExp(suffix)})[\\s\\S])+?)\\s*${escapeRegExp(suffix)}`, 'g');
+    let replaced = 0;
+    const missing: string[] = [];
+
+    const result = content.replace(pattern, (token, name: string) => {
+        const value = lookup(name);
+        if (value !== undefined) {
+            replaced++;
+            return value;
+        }
+        if (!missing.includes(name)) missing.push(name);
+        return missingValue === null ? token : missingValue;
+    });
+    return { content: result, replaced, missing };
+}
+
+/**
+ * The output file of a replacetokens `input => output` target: the `*` of the output
+ * pattern takes the part of the file name the `*` of the input pattern matched
+ */
+export function transformOutputPath(file: string, pattern: string, outputPattern: string): string {
+    const inputName = path.basename(pattern);
+    const source = inputName.split('*').map(part => escapeRegExp(part)).join('(.*)');
+    const match = new RegExp(`^${source}$`).exec(path.basename(file));
+    const output = outputPattern.replace('*', match?.[1] ?? path.basename(file));
+    return path.resolve(path.dirname(file), output);
+}
+
+/**
+ * Check a version against a setup task's versionSpec: `18`, `18.x`, `3.11.*` or `>=16`.
+ * Specs that can't be checked locally, like `lts/*`, are accepted.
+ */
+export function satisfiesVersionSpec(version: string, spec: string): boolean {
+    const numbers = version.split('.').map(part => parseInt(part, 10));
+    const trimmed = spec.trim().replace(/^v/, '');
+
+    const minimum = /^>=\s*v?(\d+)(?:\.(\d+))?/.exec(trimmed);
+    if (minimum) {
+        const major = parseInt(minimum[1], 10);
+        const minor = minimum[2] !== undefined ? parseInt(minimum[2], 10) : 0;
+        return numbers[0] > major || (numbers[0] === major && (numbers[1] || 0) >= minor);
+    }
+    if (!/^\d+(\.(\d+|x|\*))*$/i.test(trimmed)) return true;
+
+    return trimmed.split('.').every((part, index) => /^(x|\*)$/i.test(part) || parseInt(part, 10) === numbers[index]);
+}
+
+function runTool(command: string, args: string[], cwd: string): void {
+    const result = spawnSync(command, args, { cwd, encoding: 'utf8' });
+    if (result.error) {
+        const notFound = (result.error as NodeJS.ErrnoException).code === 'ENOENT';
+        throw new TaskError(notFound ? `'${command}' was not found on PATH` : String(result.error));
+    }
+    if (result.status !== 0) {
+        throw new TaskError(`${command} failed with exit code ${result.status}: ${(result.stderr || result.stdout || '').trim()}`);
+    }
+}
+
+function xmlAttribute(attributes: string, name: string): string | undefined {
+    const match = new RegExp(`\\b${name}\\s*=\\s*("([^"]*)"|'([^']*)')`).exec(attributes);
+    return match ? decodeXml(match[2] ?? match[3]) : undefined;
+}
+
+function decodeXml(text: string): string {
+    return text
+        .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1')
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&quot;/g, '"')
+        .replace(/&apos;/g, "'")
+        .replace(/&amp;/g, '&');
+}
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
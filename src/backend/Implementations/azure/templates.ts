@@ -0,0 +1,527 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as yaml from 'js-yaml';
+import { AzureExpressionContext, ExpressionError, evaluateExpression, expandTemplateString, isTruthy, toDisplayString } from './expressions';
+
+/** Azure stops expanding after 100 levels of nested templates */
+const MAX_TEMPLATE_DEPTH = 100;
+
+/** The lists a template can contribute to, in the order they are looked up */
+const TEMPLATE_KINDS = ['stages', 'jobs', 'steps', 'variables'];
+
+const PARAMETER_TYPES = [
+    'string', 'number', 'boolean', 'object',
+    'step', 'stepList', 'job', 'jobList', 'deployment', 'deploymentList', 'stage', 'stageList'
+];
+
+export interface ParameterDeclaration {
+    name: string;
+    displayName?: string;
+    type?: string;
+    default?: any;
+    values?: any[];
+}
+
+export interface TemplateOptions {
+    /** Directory that template paths starting with `/` are resolved against */
+    root: string;
+    /** Values for the runtime `parameters:` of the pipeline itself */
+    parameters?: Record<string, any>;
+    /** Local directories of the `resources.repositories` templates are taken from, by alias */
+    repositories?: Record<string, string>;
+}
+
+/**
+ * A template that can't be expanded. The message names the file, the files it was
+ * included from, and the parameter or expression at fault.
+ */
+export class TemplateError extends Error {
+    constructor(message: string, readonly location: string) {
+        super(`${location}: ${message}`);
+        this.name = 'TemplateError';
+    }
+}
+
+interface TemplateScope {
+    file: string;
+    /** The file as shown in errors: relative to its repository, with `@alias` outside the pipeline's own */
+    name: string;
+    /** Root of the repository the file belongs to */
+    root: string;
+    /** Alias of the repository resource the file comes from, unset for the pipeline's own */
+    repository?: string;
+    /** Names of the files that included this one, outermost first */
+    trail: string[];
+    context: AzureExpressionContext;
+    options: TemplateOptions;
+    /** Repository resources of the pipeline, alias to repository name */
+    repositories: Record<string, string>;
+}
+
+interface TemplateReference {
+    template: string;
+    parameters?: Record<string, any>;
+}
+
+type Directive =
+    | { kind: 'if' | 'elseif'; condition: string }
+    | { kind: 'else' }
+    | { kind: 'insert' }
+    | { kind: 'each'; variable: string; collection: string };
+
+/**
+ * Load a pipeline and expand everything that Azure resolves at compile time:
+ * `template:` references, `${{ }}` expressions and `${{ if }}`/`${{ each }}` directives.
+ */
+export function loadPipeline(file: string, options: TemplateOptions): Record<string, any> {
+    const filePath = path.resolve(file);
+    const scope: TemplateScope = {
+        file: filePath,
+        name: path.relative(options.root, filePath) || filePath,
+        root: options.root,
+        trail: [],
+        context: { values: {} },
+        options: options,
+        repositories: {}
+    };
+    const document = readTemplate(scope, scope);
+
+    scope.repositories = repositoryResources(document.resources);
+    scope.context.values = {
+        parameters: bindParameters(document.parameters, options.parameters || {}, scope),
+        variables: staticVariables(document.variables)
+    };
+
+    const { parameters, ...definition } = document;
+    const body = expandMapping(definition, scope);
+    return 'extends' in body ? applyExtends(body, scope) : body;
+}
+
+/**
+ * Aliases of the `resources.repositories` of a pipeline, mapped to the repository names
+ */
+function repositoryResources(resources: any): Record<string, string> {
+    const result: Record<string, string> = {};
+    for (const repository of Array.isArray(resources?.repositories) ? resources.repositories : []) {
+        if (repository && repository.repository) {
+            result[String(repository.repository)] = String(repository.name || repository.repository);
+        }
+    }
+    return result;
+}
+
+/**
+ * Walk up from a directory to the root of its git repository, where `/`-rooted
+ * template paths start. Falls back to the directory itself.
+ */
+export function findRepositoryRoot(directory: string): string {
+    let current = path.resolve(directory);
+    while (true) {
+        if (fs.existsSync(path.join(current, '.git'))) return current;
+        const parent = path.dirname(current);
+        if (parent === current) return path.resolve(directory);
+        current = parent;
+    }
+}
+
+/**
+ * Bind the values passed to a template (or the pipeline) to its `parameters:` declarations,
+ * applying defaults and checking types and allowed values.
+ */
+function bindParameters(declared: any, provided: Record<string, any>, scope: TemplateScope): Record<string, any> {
+    const declarations = normalizeParameters(declared, scope);
+    const result: Record<string, any> = {};
+
+    for (const name of Object.keys(provided)) {
+        if (!declarations.some(declaration => declaration.name === name)) {
+            throw templateError(scope, `Unexpected parameter '${name}'`);
+        }
+    }
+
+    for (const declaration of declarations) {
+        const name = declaration.name;
+        const hasValue = Object.prototype.hasOwnProperty.call(provided, name);
+        if (!hasValue && declaration.default === undefined) {
+            throw templateError(scope, `A value for the parameter '${name}' must be provided`);
+        }
+
+        const value = coerceParameter(declaration, hasValue ? provided[name] : declaration.default, scope);
+        if (Array.isArray(declaration.values) && declaration.values.length > 0
+            && !declaration.values.some(allowed => toDisplayString(allowed).toLowerCase() === toDisplayString(value).toLowerCase())) {
+            throw templateError(scope, `parameter '${name}' must be one of ${declaration.values.map(toDisplayString).join(', ')} but got '${toDisplayString(value)}'`);
+        }
+        result[name] = value;
+    }
+    return result;
+}
+
+/**
+ * Templates declare parameters as a list of `name`/`type`/`default`, or in the older
+ * form as a map of names to defaults
+ */
+function normalizeParameters(declared: any, scope: TemplateScope): ParameterDeclaration[] {
+    if (!declared) return [];
+    if (Array.isArray(declared)) {
+        return declared.map(declaration => {
+            if (!declaration || typeof declaration !== 'object' || !declaration.name) {
+                throw templateError(scope, `Parameter declarations need a 'name'`);
+            }
+            if (declaration.type && !PARAMETER_TYPES.includes(declaration.type)) {
+                throw templateError(scope, `parameter '${declaration.name}' has unknown type '${declaration.type}'`);
+            }
+            return declaration as ParameterDeclaration;
+        });
+    }
+    if (typeof declared === 'object') {
+        return Object.entries(declared).map(([name, value]) => ({ name, type: 'object', default: value ?? '' }));
+    }
+    throw templateError(scope, `'parameters' must be a list or a mapping`);
+}
+
+function coerceParameter(declaration: ParameterDeclaration, value: any, scope: TemplateScope): any {
+    const type = declaration.type || 'string';
+    const fail = (expected: string) => templateError(scope, `parameter '${declaration.name}' expects ${expected} but got '${toDisplayString(value)}'`);
+    const isMapping = (item: any) => item !== null && typeof item === 'object' && !Array.isArray(item);
+
+    switch (type) {
+        case 'string':
+            if (value !== null && typeof value === 'object') throw fail('a string');
+            return toDisplayString(value);
+        case 'number': {
+            const number = typeof value === 'number' ? value : Number(String(value).trim());
+            if (String(value).trim() === '' || Number.isNaN(number)) throw fail('a number');
+            return number;
+        }
+        case 'boolean':
+            if (typeof value === 'boolean') return value;
+            if (/^(true|false)$/i.test(String(value).trim())) return String(value).trim().toLowerCase() === 'true';
+            throw fail('a boolean');
+        case 'step':
+        case 'job':
+        case 'deployment':
+        case 'stage':
+            if (!isMapping(value)) throw fail(`a ${type}`);
+            return value;
+        case 'stepList':
+        case 'jobList':
+        case 'deploymentList':
+        case 'stageList':
+            if (value === null || value === '') return [];
+            if (!Array.isArray(value)) throw fail(`a list of ${type.replace('List', '')}s`);
+            return value;
+        default:
+            return value;
+    }
+}
+
+/**
+ * Variables known at compile time, for `${{ variables.x }}`
+ */
+function staticVariables(variables: any): Record<string, any> {
+    const result: Record<string, any> = {};
+    if (Array.isArray(variables)) {
+        for (const item of variables) {
+            if (item && typeof item === 'object' && item.name !== undefined && 'value' in item) {
+                result[String(item.name)] = item.value;
+            }
+        }
+    } else if (variables && typeof variables === 'object') {
+        Object.assign(result, variables);
+    }
+    return result;
+}
+
+function expandValue(value: any, scope: TemplateScope): any {
+    if (typeof value === 'string') return expandString(value, scope);
+    if (Array.isArray(value)) return expandSequence(value, scope);
+    if (value && typeof value === 'object') return expandMapping(value, scope);
+    return value;
+}
+
+function expandString(text: string, scope: TemplateScope): any {
+    try {
+        return expandTemplateString(text, scope.context);
+    } catch (error) {
+        throw error instanceof ExpressionError ? templateError(scope, error.message) : error;
+    }
+}
+
+function expandSequence(items: any[], scope: TemplateScope): any[] {
+    const result: any[] = [];
+    // Whether a branch of the current if/elseif/else chain was taken, null outside a chain
+    let chain: boolean | null = null;
+
+    for (const item of items) {
+        const entry = item && typeof item === 'object' && !Array.isArray(item) ? Object.entries(item) : [];
+        const directive = entry.length === 1 ? parseDirective(entry[0][0]) : null;
+
+        if (directive) {
+            const bodies = resolveDirective(directive, entry[0][1], scope, chain);
+            chain = bodies.chain;
+            for (const body of bodies.items) {
+                result.push(...expandSequence(Array.isArray(body.value) ? body.value : [body.value], body.scope));
+            }
+            continue;
+        }
+
+        chain = null;
+        const expanded = expandValue(item, scope);
+        if (isTemplateReference(expanded)) {
+            result.push(...includeTemplate(expanded, scope));
+        } else {
+            result.push(expanded);
+        }
+    }
+    return result;
+}
+
+function expandMapping(mapping: Record<string, any>, scope: TemplateScope): Record<string, any> {
+    const result: Record<string, any> = {};
+    let chain: boolean | null = null;
+
+    // The variables of a stage or job are visible to `${{ variables.x }}` within it
+    let variables: any;
+    if (mapping.variables && ('stage' in mapping || 'job' in mapping || 'deployment' in mapping)) {
+        variables = expandValue(mapping.variables, scope);
+        scope = {
+            ...scope,
+            context: {
+                ...scope.context,
+                values: { ...scope.context.values, variables: { ...scope.context.values.variables, ...staticVariables(variables) } }
+            }
+        };
+    }
+
+    for (const [key, value] of Object.entries(mapping)) {
+        const directive = parseDirective(key);
+        if (!directive) {
+            chain = null;
+            result[toDisplayString(expandString(key, scope))] = variables !== undefined && key === 'variables' ? variables : expandValue(value, scope);
+            continue;
+        }
+
+        const bodies = resolveDirective(directive, value, scope, chain);
+        chain = bodies.chain;
+        for (const body of bodies.items) {
+            const expanded = expandValue(body.value, body.scope);
+            if (expanded === null || expanded === undefined) continue;
+            if (typeof expanded !== 'object' || Array.isArray(expanded)) {
+                throw templateError(scope, `'${key}' must contain a mapping here`);
+            }
+            Object.assign(result, expanded);
+        }
+    }
+    return result;
+}
+
+function parseDirective(key: string): Directive | null {
+    const match = /^\$\{\{([\s\S]*)\}\}$/.exec(key.trim());
+    if (!match) return null;
+
+    const body = match[1].trim();
+    let parts: RegExpExecArray | null;
+    if ((parts = /^(if|elseif)\s+([\s\S]+)$/i.exec(body))) {
+        return { kind: parts[1].toLowerCase() as 'if' | 'elseif', condition: parts[2] };
+    }
+    if (/^else$/i.test(body)) return { kind: 'else' };
+    if (/^insert$/i.test(body)) return { kind: 'insert' };
+    if ((parts = /^each\s+([A-Za-z_][A-Za-z0-9_]*)\s+in\s+([\s\S]+)$/i.exec(body))) {
+        return { kind: 'each', variable: parts[1], collection: parts[2] };
+    }
+    return null;
+}
+
+/**
+ * The bodies a directive expands to, each with the scope to expand it in,
+ * and the state of the if/elseif/else chain after it
+ */
+function resolveDirective(directive: Directive, body: any, scope: TemplateScope, chain: boolean | null): {
+    items: Array<{ value: any; scope: TemplateScope }>;
+    chain: boolean | null;
+} {
+    const evaluate = (expression: string) => {
+        try {
+            return evaluateExpression(expression, scope.context);
+        } catch (error) {
+            throw error instanceof ExpressionError ? templateError(scope, error.message) : error;
+        }
+    };
+
+    switch (directive.kind) {
+        case 'if': {
+            const taken = isTruthy(evaluate(directive.condition));
+            return { items: taken ? [{ value: body, scope }] : [], chain: taken };
+        }
+        case 'elseif': {
+            if (chain === null) throw templateError(scope, `'\${{ elseif }}' must follow '\${{ if }}'`);
+            if (chain) return { items: [], chain: true };
+            const taken = isTruthy(evaluate(directive.condition));
+            return { items: taken ? [{ value: body, scope }] : [], chain: taken };
+        }
+        case 'else':
+            if (chain === null) throw templateError(scope, `'\${{ else }}' must follow '\${{ if }}'`);
+            return { items: chain ? [] : [{ value: body, scope }], chain: null };
+        case 'insert':
+            return { items: [{ value: body, scope }], chain: null };
+        case 'each': {
+            const collection = evaluate(directive.collection);
+            const elements = Array.isArray(collection)
+                ? collection
+                : collection && typeof collection === 'object'
+                    ? Object.entries(collection).map(([key, value]) => ({ key, value }))
+                    : [];
+            return {
+                items: elements.map(element => ({
+                    value: body,
+                    scope: { ...scope, context: { values: { ...scope.context.values, [directive.variable]: element } } }
+                })),
+                chain: null
+            };
+        }
+    }
+}
+
+function isTemplateReference(value: any): value is TemplateReference {
+    return value !== null && typeof value === 'object' && !Array.isArray(value)
+        && typeof value.template === 'string'
+        && Object.keys(value).every(key => key === 'template' || key === 'parameters');
+}
+
+/**
+ * Expand a `- template:` reference into the stages, jobs, steps or variables it defines
+ */
+function includeTemplate(reference: TemplateReference, scope: TemplateScope): any[] {
+    const { body, scope: templateScope } = expandTemplate(reference, scope);
+    const kind = TEMPLATE_KINDS.find(name => name in body);
+    if (!kind) {
+        throw templateError(templateScope, `A template must define ${TEMPLATE_KINDS.join(', ')}`);
+    }
+
+    const items = body[kind];
+    if (Array.isArray(items)) return items;
+    // Variable templates may use the mapping form
+    return items ? [items] : [];
+}
+
+/**
+ * Replace the pipeline body with the template it `extends:`. The pipeline keeps its own
+ * triggers, resources and name; variables of both are combined.
+ */
+function applyExtends(pipeline: Record<string, any>, scope: TemplateScope): Record<string, any> {
+    const { extends: reference, ...rest } = pipeline;
+    if (!isTemplateReference(reference)) {
+        throw templateError(scope, `'extends' must contain a 'template' and optionally 'parameters'`);
+    }
+
+    const { body, scope: templateScope } = expandTemplate(reference, scope);
+    // The extended template may itself extend another one
+    const extended = 'extends' in body ? applyExtends(body, templateScope) : body;
+
+    const result: Record<string, any> = { ...rest, ...extended };
+    if (rest.variables && extended.variables) {
+        result.variables = [...toVariableList(rest.variables), ...toVariableList(extended.variables)];
+    }
+    return result;
+}
+
+function toVariableList(variables: any): any[] {
+    return Array.isArray(variables) ? variables : [variables];
+}
+
+/**
+ * Load a template, bind the reference's parameters and expand its body
+ */
+function expandTemplate(reference: TemplateReference, scope: TemplateScope): { body: Record<string, any>; scope: TemplateScope } {
+    if (scope.trail.length >= MAX_TEMPLATE_DEPTH) {
+        throw templateError(scope, `Templates are nested more than ${MAX_TEMPLATE_DEPTH} levels deep`);
+    }
+
+    const location = resolveTemplatePath(reference.template, scope);
+    const templateScope: TemplateScope = {
+        ...location,
+        trail: [...scope.trail, scope.name],
+        context: { values: {} },
+        options: scope.options,
+        repositories: scope.repositories
+    };
+    const document = readTemplate(templateScope, scope);
+    const provided = reference.parameters || {};
+    if (typeof provided !== 'object' || Array.isArray(provided)) {
+        throw templateError(scope, `The parameters of template '${reference.template}' must be a mapping`);
+    }
+
+    // Templates only see their own parameters, not those or the loop variables of the caller
+    templateScope.context.values = {
+        variables: scope.context.values.variables,
+        parameters: bindParameters(document.parameters, provided, templateScope)
+    };
+
+    const { parameters, ...definition } = document;
+    return { body: expandMapping(definition, templateScope), scope: templateScope };
+}
+
+/**
+ * Find the file of a template reference. `path@alias` is relative to the root of a
+ * repository resource, other paths to the including file or, with a leading `/`,
+ * to the root of the repository it belongs to.
+ */
+function resolveTemplatePath(reference: string, scope: TemplateScope): Pick<TemplateScope, 'file' | 'name' | 'root' | 'repository'> {
+    const trimmed = reference.trim();
+    const separator = trimmed.lastIndexOf('@');
+    const templatePath = separator > 0 ? trimmed.slice(0, separator) : trimmed;
+    const alias = separator > 0 ? trimmed.slice(separator + 1) : null;
+
+    if (alias === null) {
+        const file = templatePath.startsWith('/')
+            ? path.join(scope.root, templatePath)
+            : path.resolve(path.dirname(scope.file), templatePath);
+        const relative = path.relative(scope.root, file);
+        const name = scope.repository ? `${relative}@${scope.repository}` : relative;
+        return { file, name, root: scope.root, repository: scope.repository };
+    }
+
+    if (alias === 'self') {
+        const file = path.join(scope.options.root, templatePath);
+        return { file, name: path.relative(scope.options.root, file), root: scope.options.root };
+    }
+
+    const repository = scope.repositories[alias];
+    if (!repository) {
+        throw templateError(scope, `Repository '${alias}' of template '${trimmed}' is not declared in resources.repositories`);
+    }
+    const directory = scope.options.repositories?.[alias];
+    if (!directory) {
+        throw templateError(scope, `Repository '${alias}' (${repository}) has no local path: pass --repo ${alias}=<path> or add it to .localpipe/repositories.yml`);
+    }
+    if (!fs.existsSync(directory)) {
+        throw templateError(scope, `The local path of repository '${alias}' does not exist: ${directory}`);
+    }
+
+    const root = path.resolve(directory);
+    const file = path.join(root, templatePath);
+    return { file, name: `${path.relative(root, file)}@${alias}`, root, repository: alias };
+}
+
+function readTemplate(template: Pick<TemplateScope, 'file' | 'name' | 'trail'>, scope: TemplateScope): Record<string, any> {
+    if (!fs.existsSync(template.file)) {
+        throw templateError(scope, `Template file '${template.name}' not found`);
+    }
+    try {
+        const document = yaml.load(fs.readFileSync(template.file, 'utf8'));
+        if (!document || typeof document !== 'object' || Array.isArray(document)) {
+            throw new Error('expected a mapping at the top level');
+        }
+        return document as Record<string, any>;
+    } catch (error) {
+        throw templateError({ ...scope, ...template }, `Invalid YAML: ${error instanceof Error ? error.message : error}`);
+    }
+}
+
+function templateError(scope: Pick<TemplateScope, 'name' | 'trail'>, message: string): TemplateError {
+    let trail = scope.trail;
+    if (trail.length > 4) {
+        // Runaway recursion would otherwise list every level
+        trail = [...trail.slice(0, 2), `… ${trail.length - 4} more`, ...trail.slice(-2)];
+    }
+    return new TemplateError(message, trail.length > 0 ? `${scope.name} (included from ${trail.join(' → ')})` : scope.name);
+}
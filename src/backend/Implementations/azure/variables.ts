@@ -0,0 +1,105 @@
+/** Azure stops expanding macros whose values keep referring to other macros after this many passes */
+const MAX_MACRO_DEPTH = 10;
+
+/**
+ * The environment variable name Azure maps a variable to: upper-case, with dots
+ * and spaces replaced by underscores, e.g. Build.SourcesDirectory -> BUILD_SOURCESDIRECTORY
+ */
+export function environmentName(name: string): string {
+    return name.replace(/[.\s]/g, '_').toUpperCase();
+}
+
+/**
+ * Look up a variable; variable names are case-insensitive
+ */
+export function lookupVariable(variables: Record<string, any>, name: string): any {
+    if (name in variables) return variables[name];
+    const lower = name.toLowerCase();
+    const key = Object.keys(variables).find(variable => variable.toLowerCase() === lower);
+    return key === undefined ? undefined : variables[key];
+}
+
+/**
+ * Replace `$(name)` macros with the values of the variables. Values that contain macros
+ * themselves are expanded as well; macros of unknown variables are left as they are.
+ */
+export function expandMacros(text: string, variables: Record<string, any>, depth: number = 0): string {
+    return text.replace(/\$\(([^()\s]+)\)/g, (match, name) => {
+        const value = lookupVariable(variables, name);
+        if (value === undefined || value === null) return match;
+        const expanded = String(value);
+        return depth < MAX_MACRO_DEPTH ? expandMacros(expanded, variables, depth + 1) : expanded;
+    });
+}
+
+/**
+ * The expression of a `$[ ]` runtime expression value, or null for other values.
+ * Runtime expressions must make up the whole value.
+ */
+export function runtimeExpression(value: any): string | null {
+    if (typeof value !== 'string') return null;
+    const match = /^\s*\$\[([\s\S]*)\]\s*$/.exec(value);
+    return match ? match[1].trim() : null;
+}
+
+/** A variable group from .localpipe/variable-groups.yml */
+export interface VariableGroup {
+    variables: Record<string, string>;
+    /** Members that are masked in the output and kept out of the environment */
+    secrets: Record<string, string>;
+}
+
+/** A variable declared by a `variables:` section */
+export interface VariableDefinition {
+    name: string;
+    value: any;
+    /** Scripts can't change it with task.setvariable */
+    readonly: boolean;
+    secret: boolean;
+}
+
+/**
+ * The variables declared by a `variables:` section, in declaration order. Sections are
+ * either a mapping or a list of `name`/`value` items and `group` references; the members
+ * of groups are looked up in `groups`. `template` items were expanded when the pipeline
+ * was loaded.
+ */
+export function declaredVariables(variables: Record<string, any> | any[] | undefined, groups: Record<string, VariableGroup> = {}): VariableDefinition[] {
+    if (!Array.isArray(variables)) {
+        return Object.entries(variables || {}).map(([name, value]) => ({ name, value, readonly: false, secret: false }));
+    }
+
+    const result: VariableDefinition[] = [];
+    for (const item of variables) {
+        if (!item || typeof item !== 'object') continue;
+
+        if (item.group !== undefined) {
+            const group = findGroup(groups, String(item.group));
+            for (const [name, value] of Object.entries(group?.variables || {})) {
+                result.push({ name, value, readonly: false, secret: false });
+            }
+            for (const [name, value] of Object.entries(group?.secrets || {})) {
+                result.push({ name, value, readonly: false, secret: true });
+            }
+        } else if (item.name !== undefined) {
+            result.push({ name: String(item.name), value: item.value ?? '', readonly: item.readonly === true, secret: false });
+        }
+    }
+    return result;
+}
+
+/**
+ * Names of the variable groups a `variables:` section references
+ */
+export function groupReferences(variables: Record<string, any> | any[] | undefined): string[] {
+    if (!Array.isArray(variables)) return [];
+    return variables.filter(item => item && typeof item === 'object' && item.group !== undefined).map(item => String(item.group));
+}
+
+/**
+ * Look up a variable group; group names are case-insensitive
+ */
+export function findGroup(groups: Record<string, VariableGroup>, name: string): VariableGroup | undefined {
+    const key = Object.keys(groups).find(group => group.toLowerCase() === name.toLowerCase());
+    return key === undefined ? undefined : groups[key];
+}
@@ -1,9 +1,23 @@
-import { Pipeline } from "../pipelineInterface";
+import { Pipeline, RunnerOptions } from "../pipelineInterface";
 import * as yaml from 'js-yaml';
 import * as fs from 'fs';
 import * as path from 'path';
-import { execSync } from 'child_process';
+import * as os from 'os';
+import { spawnSync } from 'child_process';
 import chalk from 'chalk';
+import inquirer from 'inquirer';
+import { ArtifactStore, formatArtifactSummary, formatSize } from '../artifactStore';
+import { findFiles, walkFiles } from '../fileGlob';
+import { buildJobGraph, normalizeNeeds } from './github/jobGraph';
+import { AzureExpressionContext, AzureResult, evaluateCondition, evaluateExpression, toDisplayString } from './azure/expressions';
+import { TemplateError, findRepositoryRoot, loadPipeline } from './azure/templates';
+import { LoggingCommand, isTrueProperty, parseLoggingCommand } from './azure/loggingCommands';
+import { TaskError, TestCaseResult, TestOutcome, TOKEN_PATTERNS, copyFiles, createArchive, deleteFiles, extractArchive, parseJUnit, replaceTokens, satisfiesVersionSpec, transformOutputPath } from './azure/tasks';
+import { booleanInput, findTaskSchema, multiLineInput, parseTaskReference, validateTaskInputs } from './azure/taskSchemas';
+import { AzureStrategy, JobInstance, expandStrategy, filterInstances, maxParallelOf } from './azure/strategy';
+import { VariableGroup, declaredVariables, environmentName, expandMacros, findGroup, groupReferences, lookupVariable, runtimeExpression } from './azure/variables';
+import { SecretMasker, formatAnnotation } from './github/workflowCommands';
+import { isCommandAvailable, splitCommandLine } from './github/shells';
 
 interface AzurePipeline {
     trigger?: string[] | string | { branches?: any; paths?: any };
@@ -17,16 +31,30 @@ interface AzurePipeline {
     stages?: AzureStage[];
     jobs?: AzureJob[];
     steps?: AzureStep[];
-    resources?: any;
+    resources?: {
+        repositories?: AzureRepositoryResource[];
+        pipelines?: any[];
+        containers?: any[];
+    };
+    /** Replaced by the stages, jobs or steps of the template when the pipeline is loaded */
+    extends?: { template: string; parameters?: Record<string, any> };
+    name?: string;
+}
+
+interface AzureRepositoryResource {
+    repository: string;
+    type?: string;
     name?: string;
+    ref?: string;
+    endpoint?: string;
 }
 
 interface AzureStage {
     stage?: string;
     displayName?: string;
     dependsOn?: string | string[];
-    condition?: string;
-    variables?: Record<string, any>;
+    condition?: string | boolean;
+    variables?: Record<string, any> | any[];
     jobs: AzureJob[];
 }
 
@@ -34,38 +62,131 @@ interface AzureJob {
     job?: string;
     displayName?: string;
     dependsOn?: string | string[];
-    condition?: string;
+    condition?: string | boolean;
     pool?: any;
-    variables?: Record<string, any>;
+    variables?: Record<string, any> | any[];
     steps: AzureStep[];
-    strategy?: any;
+    strategy?: AzureStrategy;
     timeoutInMinutes?: number;
 }
 
 interface AzureStep {
     task?: string;
+    /** Reference name for the step's output variables */
+    name?: string;
     displayName?: string;
     inputs?: Record<string, any>;
     script?: string;
     powershell?: string;
     bash?: string;
-    condition?: string;
+    condition?: string | boolean;
     continueOnError?: boolean;
     enabled?: boolean;
     env?: Record<string, string>;
     workingDirectory?: string;
+    /** Inputs of the task behind a `script:`, `bash:` or `powershell:` shortcut */
+    failOnStderr?: boolean;
+    errorActionPreference?: string;
+    ignoreLASTEXITCODE?: boolean;
+}
+
+/** Result and output variables of a finished job, exposed as dependencies.<job> */
+interface JobDependency {
+    result: AzureResult;
+    /** Output variables keyed `<step>.<variable>` */
+    outputs: Record<string, string>;
+}
+
+/** Result and output variables of a finished stage, exposed as dependencies.<stage> */
+interface StageDependency {
+    result: AzureResult;
+    /** Output variables keyed `<job>.<step>.<variable>` */
+    outputs: Record<string, string>;
+    jobs: Record<string, JobDependency>;
+}
+
+/** State of a job while its steps run */
+interface AzureJobRun {
+    id: string;
+    /** Variables of the job, including those set by its steps */
+    variables: Record<string, any>;
+    /** Output variables set with `isOutput=true`, keyed `<step>.<variable>` */
+    outputs: Record<string, string>;
+    /** Directories added with task.prependpath, most recent first */
+    path: string[];
+    /** Variables set with `issecret=true`, kept out of the environment */
+    secrets: Set<string>;
+}
+
+/** Names Azure gives the stage and job of pipelines that only list jobs or steps */
+const IMPLICIT_STAGE = '__default';
+const IMPLICIT_JOB = 'Job';
+
+/**
+ * The result of a stage from the results of its jobs: failed when one failed,
+ * skipped when all were skipped
+ */
+function combineResults(results: AzureResult[]): AzureResult {
+    if (results.includes('Failed')) return 'Failed';
+    if (results.includes('Canceled')) return 'Canceled';
+    if (results.length > 0 && results.every(result => result === 'Skipped')) return 'Skipped';
+    if (results.includes('SucceededWithIssues')) return 'SucceededWithIssues';
+    return 'Succeeded';
+}
+
+/** Names Azure gives stages without a `stage:` name */
+function stageIdsOf(stages: AzureStage[]): string[] {
+    return stages.map((stage, index) => stage.stage || `Stage_${index + 1}`);
+}
+
+/** Names Azure gives jobs without a `job:` name */
+function jobIdsOf(jobs: AzureJob[]): string[] {
+    return jobs.map((job, index) => job.job || `Job_${index + 1}`);
+}
+
+/**
+ * A stage or job with everything it depends on, directly or indirectly
+ */
+function withAncestors(id: string, dependsOn: Record<string, string[]>): string[] {
+    const result = new Set<string>();
+    const visit = (current: string) => {
+        if (result.has(current) || !(current in dependsOn)) return;
+        result.add(current);
+        dependsOn[current].forEach(visit);
+    };
+    visit(id);
+    return [...result];
+}
+
+function findName(names: string[], name: string): number {
+    return names.findIndex(candidate => candidate.toLowerCase() === name.toLowerCase());
 }
 
 export class AzurePipelineRunner implements Pipeline {
     private verbose: boolean = false;
     private workingDirectory: string = '';
     private variables: Record<string, any> = {};
+    private options: RunnerOptions;
+    private artifacts!: ArtifactStore;
+    private runDirectory: string = '';
+    private masker: SecretMasker = new SecretMasker();
+    /** Finished stages by name, for stageDependencies.<stage>.<job> in later stages */
+    private stageDependencies: Record<string, StageDependency> = {};
+    /** Variable groups from .localpipe/variable-groups.yml, by name */
+    private variableGroups: Record<string, VariableGroup> = {};
+    /** Names of secret variables, which are kept out of the environment of scripts */
+    private secretVariables: Set<string> = new Set();
+    /** Names of variables declared `readonly: true` */
+    private readonlyVariables: Set<string> = new Set();
+    /** Numbers the temporary scripts of script tasks */
+    private scriptCount: number = 0;
 
-    constructor(verbose: boolean = false) {
+    constructor(verbose: boolean = false, options: RunnerOptions = {}) {
         this.verbose = verbose;
+        this.options = options;
     }
 
-    execute(inputPath: string, workflow?: string): Boolean | undefined {
+    async execute(inputPath: string, workflow?: string): Promise<Boolean | undefined> {
         try {
             const pipelineFile = this.findPipelineFile(inputPath);
             if (!pipelineFile) {
@@ -80,21 +201,36 @@ export class AzurePipelineRunner implements Pipeline {
 
             this.log(chalk.blue(`🔍 Found Azure Pipeline: ${pipelineFile}`));
             
-            const pipeline = this.parsePipeline(pipelineFile);
+            let pipeline = this.parsePipeline(pipelineFile);
             if (!pipeline) {
                 this.log(chalk.red('❌ Failed to parse pipeline file'));
                 return false;
             }
 
+            // --workflow selects a stage or job, without it the user can pick one
+            const target = workflow ?? await this.promptForTarget(pipeline);
+            if (target === null) {
+                return false;
+            }
+            if (target) {
+                pipeline = this.selectTarget(pipeline, target);
+                if (!pipeline) {
+                    return false;
+                }
+            }
+
             this.log(chalk.green(`🚀 Starting Azure Pipeline: ${pipeline.name || 'Unnamed Pipeline'}`));
-            
-            // Note: Azure Pipelines typically have one pipeline per file, but could have multiple stages
-            // The workflow parameter could be used to target specific stages in the future
-            if (workflow) {
-                this.log(chalk.blue(`🎯 Note: Azure Pipelines typically have one workflow per file. Ignoring workflow parameter: ${workflow}`));
+
+            this.artifacts = ArtifactStore.open(this.options.outputDir);
+            this.runDirectory = fs.mkdtempSync(path.join(os.tmpdir(), 'localpipe-azure-'));
+
+            try {
+                return this.executePipeline(pipeline);
+            } finally {
+                this.printArtifacts();
+                this.artifacts.dispose();
+                fs.rmSync(this.runDirectory, { recursive: true, force: true });
             }
-            
-            return this.executePipeline(pipeline);
 
         } catch (error) {
             this.log(chalk.red(`❌ Error executing Azure Pipeline: ${error}`));
@@ -102,10 +238,166 @@ export class AzurePipelineRunner implements Pipeline {
         }
     }
 
+    /**
+     * The stages and jobs of the pipeline, as `Stage` and `Stage.Job`; just the jobs
+     * for pipelines without stages. Throws when the pipeline can't be found or parsed.
+     */
     listWorkflows(inputPath: string): string[] {
-        // Azure Pipelines typically have one pipeline per file
-        // Could return stage names in the future
-        return ['default'];
+        const pipelineFile = this.findPipelineFile(inputPath);
+        if (!pipelineFile) {
+            throw new Error(`No Azure pipeline file found in ${inputPath}`);
+        }
+
+        const pipeline = this.parsePipeline(pipelineFile);
+        if (!pipeline) {
+            throw new Error(`Failed to parse ${pipelineFile}`);
+        }
+        return this.listTargets(pipeline);
+    }
+
+    private listTargets(pipeline: AzurePipeline): string[] {
+        if (pipeline.stages) {
+            const stageIds = stageIdsOf(pipeline.stages);
+            return pipeline.stages.flatMap((stage, index) => [
+                stageIds[index],
+                ...jobIdsOf(stage.jobs || []).map(jobId => `${stageIds[index]}.${jobId}`)
+            ]);
+        }
+        return jobIdsOf(pipeline.jobs || (pipeline.steps ? [{ job: IMPLICIT_JOB, steps: pipeline.steps }] : []));
+    }
+
+    /**
+     * Ask which stage or job to run when there is a choice. Returns '' for the whole
+     * pipeline, which is also used without an interactive terminal, and null on failure.
+     */
+    private async promptForTarget(pipeline: AzurePipeline): Promise<string | null> {
+        const targets = this.listTargets(pipeline);
+        if (targets.length <= 1 || !process.stdin.isTTY || !process.stdout.isTTY) {
+            return '';
+        }
+
+        try {
+            this.log(chalk.yellow('🤔 Multiple stages or jobs found. Please select what to run:'));
+            const choices = [
+                { name: 'Entire pipeline', value: '', short: 'Entire pipeline' },
+                ...targets.map(target => ({
+                    name: target.includes('.') ? `  ${target}` : target,
+                    value: target,
+                    short: target
+                }))
+            ];
+
+            const answer = await inquirer.prompt([
+                {
+                    type: 'list',
+                    name: 'target',
+                    message: 'Select a stage or job to execute:',
+                    choices: choices,
+                    pageSize: 10
+                }
+            ]);
+            return answer.target;
+
+        } catch (error) {
+            this.log(chalk.red(`❌ Stage selection failed: ${error}`));
+            return null;
+        }
+    }
+
+    /**
+     * Narrow the pipeline down to a stage (`Build`) or job (`Build.UnitTests`, or just
+     * `UnitTests` when one stage has it) and what it depends on, or only the target
+     * itself with `--only`. Returns null when the target doesn't exist.
+     */
+    private selectTarget(pipeline: AzurePipeline, target: string): AzurePipeline | null {
+        const only = !!this.options.only;
+
+        if (!pipeline.stages) {
+            const jobs = this.selectJobs(pipeline.jobs || (pipeline.steps ? [{ job: IMPLICIT_JOB, steps: pipeline.steps }] : []), target, only);
+            if (!jobs) {
+                this.log(chalk.blue(`Available jobs: ${this.listTargets(pipeline).join(', ')}`));
+                return null;
+            }
+            const name = jobs.find(job => job.job!.toLowerCase() === target.toLowerCase())!.job;
+            const ancestors = jobs.filter(job => job.job !== name).map(job => job.job);
+            this.log(chalk.blue(ancestors.length === 0
+                ? `🎯 Running only job '${name}'`
+                : `🎯 Running job '${name}' after what it depends on: ${ancestors.join(', ')}`));
+            return { ...pipeline, jobs, steps: undefined };
+        }
+
+        const stageIds = stageIdsOf(pipeline.stages);
+        const separator = target.indexOf('.');
+        let stageIndex = findName(stageIds, separator === -1 ? target : target.slice(0, separator));
+        let jobName = separator === -1 ? undefined : target.slice(separator + 1);
+        if (stageIndex === -1 && separator === -1) {
+            const owners = pipeline.stages
+                .map((stage, index) => findName(jobIdsOf(stage.jobs || []), target) === -1 ? -1 : index)
+                .filter(index => index !== -1);
+            if (owners.length === 1) {
+                stageIndex = owners[0];
+                jobName = target;
+            }
+        }
+        if (stageIndex === -1) {
+            this.log(chalk.red(`❌ Stage or job '${target}' not found`));
+            this.log(chalk.blue(`Available stages and jobs: ${this.listTargets(pipeline).join(', ')}`));
+            return null;
+        }
+
+        // Stages without dependsOn depend on the one before them, which may not be selected
+        const dependsOn = Object.fromEntries(pipeline.stages.map((stage, index) => [
+            stageIds[index],
+            stage.dependsOn === undefined ? stageIds.slice(index - 1, index) : normalizeNeeds(stage.dependsOn)
+        ]));
+        const selected = only ? [stageIds[stageIndex]] : withAncestors(stageIds[stageIndex], dependsOn);
+
+        const stages: AzureStage[] = [];
+        let jobAncestors: string[] = [];
+        for (const [index, stage] of pipeline.stages.entries()) {
+            if (!selected.includes(stageIds[index])) continue;
+
+            let jobs = stage.jobs;
+            if (index === stageIndex && jobName) {
+                const selectedJobs = this.selectJobs(stage.jobs || [], jobName, only);
+                if (!selectedJobs) {
+                    this.log(chalk.blue(`Available jobs of stage '${stageIds[index]}': ${jobIdsOf(stage.jobs || []).join(', ')}`));
+                    return null;
+                }
+                jobs = selectedJobs;
+                const targetJob = jobName.toLowerCase();
+                jobAncestors = selectedJobs.filter(job => job.job!.toLowerCase() !== targetJob).map(job => `${stageIds[index]}.${job.job}`);
+            }
+            stages.push({ ...stage, stage: stageIds[index], dependsOn: dependsOn[stageIds[index]].filter(id => selected.includes(id)), jobs });
+        }
+
+        const name = jobName ? `job '${stageIds[stageIndex]}.${jobName}'` : `stage '${stageIds[stageIndex]}'`;
+        const ancestors = [...selected.filter(id => id !== stageIds[stageIndex]), ...jobAncestors];
+        if (only || ancestors.length === 0) {
+            this.log(chalk.blue(`🎯 Running only ${name}`));
+        } else {
+            this.log(chalk.blue(`🎯 Running ${name} after what it depends on: ${ancestors.join(', ')}`));
+        }
+        return { ...pipeline, stages };
+    }
+
+    /**
+     * A job with the jobs it depends on, or only the job with `only`. Returns null when
+     * there is no such job.
+     */
+    private selectJobs(jobs: AzureJob[], name: string, only: boolean): AzureJob[] | null {
+        const jobIds = jobIdsOf(jobs);
+        const index = findName(jobIds, name);
+        if (index === -1) {
+            this.log(chalk.red(`❌ Job '${name}' not found`));
+            return null;
+        }
+
+        const dependsOn = Object.fromEntries(jobs.map((job, jobIndex) => [jobIds[jobIndex], normalizeNeeds(job.dependsOn)]));
+        const selected = only ? [jobIds[index]] : withAncestors(jobIds[index], dependsOn);
+        return jobs
+            .map((job, jobIndex) => ({ ...job, job: jobIds[jobIndex], dependsOn: dependsOn[jobIds[jobIndex]].filter(id => selected.includes(id)) }))
+            .filter(job => selected.includes(job.job));
     }
 
     private findPipelineFile(inputPath: string): string | null {
@@ -135,18 +427,116 @@ export class AzurePipelineRunner implements Pipeline {
         return null;
     }
 
+    /**
+     * Parse the pipeline with its templates expanded. `--input-var` sets runtime parameters.
+     */
     private parsePipeline(filePath: string): AzurePipeline | null {
         try {
-            const content = fs.readFileSync(filePath, 'utf8');
-            return yaml.load(content) as AzurePipeline;
+            const root = findRepositoryRoot(path.dirname(filePath));
+            this.variableGroups = this.loadVariableGroups(root);
+            return loadPipeline(filePath, {
+                root: root,
+                parameters: this.options.inputs,
+                repositories: this.loadRepositoryPaths(root)
+            }) as AzurePipeline;
         } catch (error) {
-            this.log(chalk.red(`Failed to parse pipeline file: ${error}`));
+            if (error instanceof TemplateError) {
+                this.log(chalk.red(`❌ Template error in ${error.message}`));
+            } else {
+                this.log(chalk.red(`Failed to parse pipeline file: ${error}`));
+            }
             return null;
         }
     }
 
+    /**
+     * Local checkouts of `resources.repositories`, by alias: from .localpipe/repositories.yml
+     * (relative to the repository root) and `--repo alias=path`, which wins.
+     */
+    private loadRepositoryPaths(root: string): Record<string, string> {
+        const repositories: Record<string, string> = {};
+        const configPath = path.join(root, '.localpipe', 'repositories.yml');
+        if (fs.existsSync(configPath)) {
+            try {
+                const config = yaml.load(fs.readFileSync(configPath, 'utf8'));
+                if (config && typeof config === 'object' && !Array.isArray(config)) {
+                    for (const [alias, directory] of Object.entries(config)) {
+                        repositories[alias] = path.resolve(root, String(directory));
+                    }
+                } else if (config) {
+                    this.log(chalk.yellow(`⚠️  ${configPath} should map repository aliases to local paths`));
+                }
+            } catch (error) {
+                this.log(chalk.yellow(`⚠️  Could not read ${configPath}: ${error}`));
+            }
+        }
+
+        for (const [alias, directory] of Object.entries(this.options.repositories || {})) {
+            repositories[alias] = path.resolve(directory);
+        }
+
+        if (this.verbose && Object.keys(repositories).length > 0) {
+            for (const [alias, directory] of Object.entries(repositories)) {
+                this.log(chalk.gray(`📝 Repository ${alias}: ${directory}`));
+            }
+        }
+        return repositories;
+    }
+
+    /**
+     * Read the variable groups, each with `variables` and `secrets` maps, from
+     * .localpipe/variable-groups.yml in the repository root
+     */
+    private loadVariableGroups(root: string): Record<string, VariableGroup> {
+        const configPath = path.join(root, '.localpipe', 'variable-groups.yml');
+        if (!fs.existsSync(configPath)) return {};
+
+        try {
+            const content = yaml.load(fs.readFileSync(configPath, 'utf8')) as Record<string, any> | null;
+            const stringValues = (values: any): Record<string, string> =>
+                Object.fromEntries(Object.entries(values || {}).map(([key, value]) => [key, String(value)]));
+
+            const groups: Record<string, VariableGroup> = {};
+            for (const [name, config] of Object.entries(content || {})) {
+                groups[name] = { variables: stringValues(config?.variables), secrets: stringValues(config?.secrets) };
+                for (const secret of Object.values(groups[name].secrets)) {
+                    this.masker.add(secret);
+                }
+            }
+            if (this.verbose) {
+                this.log(chalk.gray(`📝 Loaded ${Object.keys(groups).length} variable group(s) from ${configPath}`));
+            }
+            return groups;
+        } catch (error) {
+            this.log(chalk.yellow(`⚠️  Could not read ${configPath}: ${error}`));
+            return {};
+        }
+    }
+
+    /**
+     * Check that every variable group the pipeline references is defined locally,
+     * like Azure does before the run starts
+     */
+    private checkVariableGroups(pipeline: AzurePipeline): boolean {
+        const sections = [
+            pipeline.variables,
+            ...(pipeline.stages || []).map(stage => stage.variables),
+            ...[...(pipeline.jobs || []), ...(pipeline.stages || []).flatMap(stage => stage.jobs || [])].map(job => job.variables)
+        ];
+
+        const missing = [...new Set(sections.flatMap(groupReferences))].filter(name => !findGroup(this.variableGroups, name));
+        for (const name of missing) {
+            this.log(chalk.red(`❌ Variable group '${name}' was not found, define it in .localpipe/variable-groups.yml`));
+        }
+        return missing.length === 0;
+    }
+
     private executePipeline(pipeline: AzurePipeline): boolean {
         try {
+            if (!this.checkVariableGroups(pipeline)) {
+                return false;
+            }
+
             // Initialize variables
             this.initializeVariables(pipeline.variables);
 
@@ -156,17 +546,24 @@ export class AzurePipelineRunner implements Pipeline {
             }
 
             // Execute pipeline structure
+            let results: Record<string, StageDependency>;
             if (pipeline.stages) {
-                return this.executeStages(pipeline.stages);
+                const stageResults = this.executeStages(pipeline.stages);
+                if (!stageResults) return false;
+                results = stageResults;
             } else if (pipeline.jobs) {
-                return this.executeJobs(pipeline.jobs);
+                results = { [IMPLICIT_STAGE]: this.executeJobs(IMPLICIT_STAGE, pipeline.jobs, this.variables) };
             } else if (pipeline.steps) {
-                return this.executeSteps(pipeline.steps);
+                results = { [IMPLICIT_STAGE]: this.executeJobs(IMPLICIT_STAGE, [{ job: IMPLICIT_JOB, steps: pipeline.steps }], this.variables) };
             } else {
-                this.log(chalk.yellow('⚠️  No stages, jobs, or steps found in pipeline'));
-                return true;
+                // Nothing ran, which must not look like a successful build
+                this.log(chalk.red('❌ No stages, jobs, or steps found in pipeline'));
+                return false;
             }
 
+            // Skipped stages don't fail the pipeline, the failures that caused them to be skipped do
+            return !Object.values(results).some(stage => stage.result === 'Failed' || stage.result === 'Canceled');
+
         } catch (error) {
             this.log(chalk.red(`❌ Pipeline execution failed: ${error}`));
             return false;
@@ -174,199 +571,960 @@ export class AzurePipelineRunner implements Pipeline {
     }
 
     private initializeVariables(variables?: Record<string, any> | any[]): void {
-        if (!variables) return;
-
-        if (Array.isArray(variables)) {
-            // Handle variable groups and structured variables
-            for (const varItem of variables) {
-                if (typeof varItem === 'object') {
-                    Object.assign(this.variables, varItem);
-                }
-            }
-        } else {
-            Object.assign(this.variables, variables);
-        }
-
         // Add common Azure Pipelines variables
         this.variables['Build.SourcesDirectory'] = this.workingDirectory;
         this.variables['Build.Repository.Name'] = path.basename(this.workingDirectory);
         this.variables['Agent.BuildDirectory'] = this.workingDirectory;
         this.variables['System.DefaultWorkingDirectory'] = this.workingDirectory;
 
+        // Staging and download folders live in the run directory, published files go to the artifact store
+        this.variables['Build.ArtifactStagingDirectory'] = path.join(this.runDirectory, 'a');
+        this.variables['Build.StagingDirectory'] = path.join(this.runDirectory, 'a');
+        this.variables['System.ArtifactsDirectory'] = path.join(this.runDirectory, 'artifacts');
+        this.variables['Pipeline.Workspace'] = this.runDirectory;
+        this.variables['Build.BinariesDirectory'] = path.join(this.runDirectory, 'b');
+        this.variables['Agent.TempDirectory'] = path.join(this.runDirectory, '_temp');
+        this.variables['Build.BuildId'] = '1';
+        fs.mkdirSync(this.variables['Build.ArtifactStagingDirectory'], { recursive: true });
+
+        // Pipeline variables can refer to the predefined ones in macros and runtime expressions
+        this.variables = this.resolveVariables(this.variables, variables, { values: {} }, 'pipeline');
+
         if (this.verbose) {
             this.log(chalk.gray(`📝 Variables: ${JSON.stringify(this.variables, null, 2)}`));
         }
     }
 
-    private executeStages(stages: AzureStage[]): boolean {
+    /**
+     * Run stages in dependency order. Without `dependsOn` a stage depends on the one declared
+     * before it, and `dependsOn: []` lets it start right away. Returns the result of every
+     * stage, or null when the dependencies can't be resolved.
+     */
+    private executeStages(stages: AzureStage[]): Record<string, StageDependency> | null {
         this.log(chalk.blue(`📋 Found ${stages.length} stage(s)`));
 
-        for (const stage of stages) {
-            this.log(chalk.yellow(`\n🎭 Starting stage: ${stage.displayName || stage.stage || 'Unnamed Stage'}`));
-            
-            if (!this.executeJobs(stage.jobs)) {
-                this.log(chalk.red(`❌ Stage '${stage.stage}' failed`));
-                return false;
+        const stageIds = stageIdsOf(stages);
+        const graph = buildJobGraph(Object.fromEntries(stages.map((stage, index) => [
+            stageIds[index],
+            { needs: stage.dependsOn === undefined ? stageIds.slice(index - 1, index) : normalizeNeeds(stage.dependsOn) }
+        ])), 'Stage');
+        if (graph.errors.length > 0) {
+            for (const error of graph.errors) {
+                this.log(chalk.red(`❌ ${error}`));
+            }
+            return null;
+        }
+
+        const results: Record<string, StageDependency> = {};
+        for (const stageId of graph.order) {
+            const stage = stages[stageIds.indexOf(stageId)];
+            const name = stage.displayName || stageId;
+            const context = this.createDependencyContext(graph.needs[stageId], results, this.variables, false);
+
+            if (!this.shouldRun(stage.condition, context, `stage '${name}'`)) {
+                this.log(chalk.gray(`\n⏭️  Skipping stage '${name}'${stage.condition ? ` (condition: ${stage.condition})` : ''}`));
+                results[stageId] = { result: 'Skipped', outputs: {}, jobs: {} };
+                continue;
+            }
+
+            this.log(chalk.yellow(`\n🎭 Starting stage: ${name}`));
+            const variables = this.resolveVariables(this.variables, stage.variables, context, `stage '${name}'`);
+            results[stageId] = this.executeJobs(stageId, stage.jobs || [], variables);
+            this.stageDependencies[stageId] = results[stageId];
+
+            if (results[stageId].result === 'Failed') {
+                this.log(chalk.red(`❌ Stage '${stageId}' failed`));
+            } else if (results[stageId].result === 'SucceededWithIssues') {
+                this.log(chalk.yellow(`⚠️  Stage '${stageId}' completed with issues`));
+            } else {
+                this.log(chalk.green(`✅ Stage '${stageId}' completed successfully`));
             }
-            
-            this.log(chalk.green(`✅ Stage '${stage.stage}' completed successfully`));
         }
 
-        return true;
+        return results;
     }
 
-    private executeJobs(jobs: AzureJob[]): boolean {
+    /**
+     * Run the jobs of a stage in dependency order; jobs without `dependsOn` don't wait for
+     * each other. `variables` are those of the pipeline and the stage. Returns the result
+     * and output variables of the stage.
+     */
+    private executeJobs(stageId: string, jobs: AzureJob[], variables: Record<string, any>): StageDependency {
         this.log(chalk.blue(`📋 Found ${jobs.length} job(s)`));
 
-        for (const job of jobs) {
-            this.log(chalk.yellow(`\n🔧 Starting job: ${job.displayName || job.job || 'Unnamed Job'}`));
-            
-            if (!this.executeSteps(job.steps)) {
-                this.log(chalk.red(`❌ Job '${job.job}' failed`));
-                return false;
+        const jobIds = jobIdsOf(jobs);
+        const graph = buildJobGraph(Object.fromEntries(jobs.map((job, index) => [jobIds[index], { needs: job.dependsOn }])));
+        if (graph.errors.length > 0) {
+            for (const error of graph.errors) {
+                this.log(chalk.red(`❌ ${error}`));
+            }
+            return { result: 'Failed', outputs: {}, jobs: {} };
+        }
+
+        const results: Record<string, JobDependency> = {};
+        for (const jobId of graph.order) {
+            const job = jobs[jobIds.indexOf(jobId)];
+            const name = job.displayName || jobId;
+            const context = this.createDependencyContext(graph.needs[jobId], results, variables, true);
+
+            if (!this.shouldRun(job.condition, context, `job '${name}'`)) {
+                this.log(chalk.gray(`\n⏭️  Skipping job '${name}'${job.condition ? ` (condition: ${job.condition})` : ''}`));
+                results[jobId] = { result: 'Skipped', outputs: {} };
+                continue;
+            }
+
+            const instances = this.expandJob(jobId, job, context);
+            if (!instances) {
+                results[jobId] = { result: 'Failed', outputs: {} };
+            } else if (instances.length === 0) {
+                this.log(chalk.gray(`\n⏭️  Skipping job '${name}': no matrix leg matches the --matrix filter`));
+                results[jobId] = { result: 'Skipped', outputs: {} };
+                continue;
+            } else {
+                const jobVariables = this.resolveVariables(variables, job.variables, context, `job '${name}'`);
+                const instanceResults: AzureResult[] = [];
+                const outputs: Record<string, string> = {};
+
+                for (const instance of instances) {
+                    this.log(chalk.yellow(`\n🔧 Starting job: ${instance.name ? `${name} ${instance.name}` : name}`));
+                    const run: AzureJobRun = {
+                        id: jobId,
+                        variables: {
+                            ...jobVariables,
+                            ...instance.variables,
+                            'System.JobPositionInPhase': String(instance.position),
+                            'System.TotalJobsInPhase': String(instance.total)
+                        },
+                        outputs: {},
+                        path: [],
+                        secrets: new Set(this.secretVariables)
+                    };
+                    instanceResults.push(this.executeSteps(run, job.steps || []));
+
+                    // Outputs of matrix and parallel jobs are prefixed with the instance name
+                    for (const [outputName, value] of Object.entries(run.outputs)) {
+                        outputs[instance.name ? `${instance.name}.${outputName}` : outputName] = value;
+                    }
+                }
+                results[jobId] = { result: combineResults(instanceResults), outputs };
+            }
+
+            if (results[jobId].result === 'Failed') {
+                this.log(chalk.red(`❌ Job '${jobId}' failed`));
+            } else if (results[jobId].result === 'SucceededWithIssues') {
+                this.log(chalk.yellow(`⚠️  Job '${jobId}' completed with issues`));
+            } else {
+                this.log(chalk.green(`✅ Job '${jobId}' completed successfully`));
             }
-            
-            this.log(chalk.green(`✅ Job '${job.job}' completed successfully`));
         }
 
-        return true;
+        const outputs: Record<string, string> = {};
+        for (const [jobId, job] of Object.entries(results)) {
+            for (const [name, value] of Object.entries(job.outputs)) {
+                outputs[`${jobId}.${name}`] = value;
+            }
+        }
+        return { result: combineResults(Object.values(results).map(job => job.result)), outputs, jobs: results };
     }
 
-    private executeSteps(steps: AzureStep[]): boolean {
+    /**
+     * The instances of a job: one per matrix leg or parallel slice, as selected by the
+     * `--matrix` filter. Returns null when the strategy is invalid.
+     */
+    private expandJob(jobId: string, job: AzureJob, context: AzureExpressionContext): JobInstance[] | null {
+        try {
+            let matrix = job.strategy?.matrix;
+            const expression = runtimeExpression(matrix);
+            if (expression !== null) {
+                matrix = evaluateExpression(expression, context);
+            }
+
+            const instances = expandStrategy(job.strategy, matrix);
+            if (!job.strategy || (job.strategy.matrix === undefined && job.strategy.parallel === undefined)) {
+                return instances;
+            }
+
+            const selected = filterInstances(jobId, instances, this.options.matrix || {});
+            const maxParallel = maxParallelOf(job.strategy);
+            this.log(chalk.blue(`\n🧮 Job '${jobId}' expands to ${selected.length} instance(s)${selected.length < instances.length ? ` (filtered from ${instances.length})` : ''}`
+                + `${maxParallel > 0 ? `, maxParallel ${maxParallel}` : ''}; instances run one after another`));
+            return selected;
+
+        } catch (error) {
+            this.log(chalk.red(`\n❌ Invalid strategy of job '${jobId}': ${error instanceof Error ? error.message : error}`));
+            return null;
+        }
+    }
+
+    /**
+     * Run the steps of a job. After a failure only steps whose condition allows it still run,
+     * e.g. `condition: failed()` or `always()`. Returns the result of the job.
+     */
+    private executeSteps(run: AzureJobRun, steps: AzureStep[]): AzureResult {
+        let result: AzureResult = 'Succeeded';
+
         for (let i = 0; i < steps.length; i++) {
             const step = steps[i];
-            this.log(chalk.cyan(`    Step ${i + 1}: ${step.displayName || step.task || 'Script'}`));
+            const name = step.displayName || step.task || 'Script';
+            this.log(chalk.cyan(`    Step ${i + 1}: ${name}`));
+
+            if (step.enabled === false) {
+                this.log(chalk.gray(`    ⏭️  Step ${i + 1} is disabled`));
+                continue;
+            }
 
-            if (!this.executeStep(step)) {
+            const context: AzureExpressionContext = { values: { variables: run.variables }, results: { [run.id]: result } };
+            if (!this.shouldRun(step.condition, context, `step ${i + 1}`)) {
+                this.log(chalk.gray(`    ⏭️  Step ${i + 1} skipped${step.condition ? ` (condition: ${step.condition})` : ''}`));
+                continue;
+            }
+
+            const stepResult = this.executeStep(run, step);
+            if (stepResult === 'Succeeded') {
+                this.log(chalk.green(`    ✅ Step ${i + 1} completed`));
+            } else if (stepResult === 'SucceededWithIssues') {
+                this.log(chalk.yellow(`    ⚠️  Step ${i + 1} completed with issues`));
+                if (result === 'Succeeded') result = 'SucceededWithIssues';
+            } else if (step.continueOnError) {
+                this.log(chalk.yellow(`    ⚠️  Step ${i + 1} failed, continuing because of continueOnError`));
+                if (result === 'Succeeded') result = 'SucceededWithIssues';
+            } else {
                 this.log(chalk.red(`    ❌ Step ${i + 1} failed`));
-                return false;
+                result = 'Failed';
             }
+        }
 
-            this.log(chalk.green(`    ✅ Step ${i + 1} completed`));
+        return result;
+    }
+
+    /**
+     * Context for the condition of a stage or job: its dependencies' results and outputs,
+     * the variables and, for jobs, the jobs of earlier stages
+     */
+    private createDependencyContext(dependsOn: string[], finished: Record<string, JobDependency>, variables: Record<string, any>, forJob: boolean): AzureExpressionContext {
+        const results: Record<string, AzureResult> = {};
+        const dependencies: Record<string, any> = {};
+        for (const dependency of dependsOn) {
+            results[dependency] = finished[dependency].result;
+            dependencies[dependency] = { result: finished[dependency].result, outputs: finished[dependency].outputs };
         }
 
-        return true;
+        const values: Record<string, any> = { variables, dependencies };
+        if (forJob) {
+            values.stageDependencies = Object.fromEntries(Object.entries(this.stageDependencies).map(([stageId, stage]) => [stageId, stage.jobs]));
+        }
+        return { values, results };
     }
 
-    private executeStep(step: AzureStep): boolean {
+    /**
+     * Evaluate a condition. Conditions that can't be evaluated are reported and treated as false.
+     */
+    private shouldRun(condition: string | boolean | undefined, context: AzureExpressionContext, owner: string): boolean {
+        try {
+            return evaluateCondition(condition, context);
+        } catch (error) {
+            this.log(chalk.red(`    ❌ Invalid condition of ${owner}: ${error instanceof Error ? error.message : error}`));
+            return false;
+        }
+    }
+
+    /**
+     * Layer the `variables:` of a pipeline, stage or job over those of the enclosing scope.
+     * `$[ ]` runtime expressions are evaluated now, with the dependencies in `context`;
+     * `$(name)` macros are kept and expanded where the variable is used.
+     */
+    private resolveVariables(base: Record<string, any>, declared: Record<string, any> | any[] | undefined, context: AzureExpressionContext, owner: string): Record<string, any> {
+        const variables = { ...base };
+        for (const { name, value, readonly, secret } of declaredVariables(declared, this.variableGroups)) {
+            if (readonly) {
+                this.readonlyVariables.add(name.toLowerCase());
+            }
+            if (secret) {
+                this.secretVariables.add(name);
+            }
+
+            const expression = runtimeExpression(value);
+            if (expression === null) {
+                variables[name] = value;
+                continue;
+            }
+
+            try {
+                const result = evaluateExpression(expression, { ...context, values: { ...context.values, variables } });
+                variables[name] = result === null || result === undefined ? '' : toDisplayString(result);
+            } catch (error) {
+                this.log(chalk.red(`❌ Invalid runtime expression for variable '${name}' of ${owner}: ${error instanceof Error ? error.message : error}`));
+                variables[name] = '';
+            }
+        }
+        return variables;
+    }
+
+    private executeStep(run: AzureJobRun, step: AzureStep): AzureResult {
         try {
             if (step.task) {
-                return this.executeTask(step);
+                return this.executeTask(run, step);
             } else if (step.script || step.bash || step.powershell) {
-                return this.executeScript(step);
+                return this.executeScript(run, step);
             } else {
                 this.log(chalk.yellow(`    ⚠️  Step has no task or script - skipping`));
-                return true;
+                return 'Succeeded';
             }
 
         } catch (error) {
             this.log(chalk.red(`    ❌ Step execution failed: ${error}`));
-            return false;
+            return 'Failed';
         }
     }
 
-    private executeTask(step: AzureStep): boolean {
+    /**
+     * Run a task. Tasks that are pure local operations run for real after their inputs are
+     * checked against the task's schema; the others are only simulated.
+     */
+    private executeTask(run: AzureJobRun, step: AzureStep): AzureResult {
         const task = step.task!;
-        const inputs = step.inputs || {};
+        const reference = parseTaskReference(task);
+        const found = findTaskSchema(reference);
+        if (!found) {
+            this.log(chalk.blue(`      🎬 Simulating task: ${task}`));
+            return 'Succeeded';
+        }
 
-        // Simulate common Azure DevOps tasks
-        if (task.startsWith('NodeTool@') || task === 'NodeTool') {
-            const version = inputs.versionSpec || '18.x';
-            this.log(chalk.blue(`      📦 Simulating Node.js setup (version: ${version})`));
-            return true;
+        const validation = validateTaskInputs(found.schema, step.inputs || {});
+        if (validation.errors.length > 0) {
+            for (const error of validation.errors) {
+                this.log(chalk.red(`      ❌ ${reference.name}@${found.version}: ${error}`));
+            }
+            return 'Failed';
         }
+        const inputs = Object.fromEntries(Object.entries(validation.inputs).map(([name, value]) => [
+            name,
+            this.replaceVariables(value, run.variables)
+        ]));
 
-        if (task.startsWith('UsePythonVersion@') || task === 'UsePythonVersion') {
-            const version = inputs.versionSpec || '3.x';
-            this.log(chalk.blue(`      🐍 Simulating Python setup (version: ${version})`));
-            return true;
+        try {
+            switch (reference.name.toLowerCase()) {
+                case 'cmdline':
+                    return this.runCmdLineTask(run, step, inputs);
+                case 'bash':
+                    return this.runBashTask(run, step, inputs);
+                case 'powershell':
+                    return this.runPowerShellTask(run, step, inputs);
+                case 'copyfiles':
+                    return this.runCopyFilesTask(inputs);
+                case 'deletefiles':
+                    return this.runDeleteFilesTask(inputs);
+                case 'archivefiles':
+                    return this.runArchiveFilesTask(inputs);
+                case 'extractfiles':
+                    return this.runExtractFilesTask(inputs);
+                case 'publishbuildartifacts':
+                    // Build artifacts published more than once are combined
+                    return this.publishArtifact(inputs.ArtifactName, inputs.PathtoPublish, 'merge',
+                        inputs.publishLocation === 'FilePath' ? inputs.TargetPath : undefined);
+                case 'publishpipelineartifact':
+                    return this.publishArtifact(inputs.artifact || 'drop', inputs.targetPath, 'error',
+                        inputs.publishLocation === 'filepath' ? inputs.fileSharePath : undefined);
+                case 'downloadbuildartifacts':
+                    return this.runDownloadArtifactsTask(inputs, inputs.downloadType === 'single' ? inputs.artifactName : undefined, inputs.downloadPath, true);
+                case 'downloadpipelineartifact':
+                    return this.runDownloadArtifactsTask(inputs, inputs.artifactName, inputs.targetPath, false);
+                case 'publishtestresults':
+                    return this.runPublishTestResultsTask(inputs);
+                case 'replacetokens':
+                    return this.runReplaceTokensTask(run, inputs);
+                case 'nodetool':
+                    return this.checkToolVersion('Node.js', 'node', inputs.versionSource === 'fromFile'
+                        ? this.readVersionFile(inputs.versionFilePath)
+                        : inputs.versionSpec);
+                case 'usepythonversion':
+                    return this.checkToolVersion('Python', isCommandAvailable('python3') ? 'python3' : 'python', inputs.versionSpec);
+                default:
+                    this.log(chalk.blue(`      🎬 Simulating task: ${task}`));
+                    return 'Succeeded';
+            }
+
+        } catch (error) {
+            this.log(chalk.red(`      ❌ ${task} failed: ${error instanceof Error ? error.message : error}`));
+            return 'Failed';
         }
+    }
 
-        if (task.startsWith('PublishBuildArtifacts@') || task === 'PublishBuildArtifacts') {
-            const artifactName = inputs.ArtifactName || 'drop';
-            this.log(chalk.blue(`      📦 Simulating artifact publication: ${artifactName}`));
-            return true;
+    private runCmdLineTask(run: AzureJobRun, step: AzureStep, inputs: Record<string, string>): AzureResult {
+        const scriptPath = this.writeTemporaryScript(inputs.script, '.sh');
+        const workingDir = path.resolve(this.workingDirectory, inputs.workingDirectory || '');
+        this.log(chalk.blue(`      🔧 Executing command line script in ${workingDir}`));
+        return this.runProcess(run, step, 'bash', [scriptPath], { cwd: workingDir, failOnStderr: booleanInput(inputs.failOnStderr) });
+    }
+
+    private runBashTask(run: AzureJobRun, step: AzureStep, inputs: Record<string, string>): AzureResult {
+        const scriptPath = this.scriptTaskFile(inputs, '.sh');
+        if (!scriptPath) return 'Failed';
+
+        const args = [
+            ...(booleanInput(inputs.noProfile) ? ['--noprofile'] : []),
+            ...(booleanInput(inputs.noRc) ? ['--norc'] : []),
+            scriptPath,
+            ...(inputs.targetType === 'filePath' ? splitCommandLine(inputs.arguments || '') : [])
+        ];
+        const workingDir = path.resolve(this.workingDirectory, inputs.workingDirectory || '');
+        this.log(chalk.blue(`      🔧 Executing bash ${inputs.targetType === 'filePath' ? scriptPath : 'script'} in ${workingDir}`));
+        return this.runProcess(run, step, 'bash', args, { cwd: workingDir, failOnStderr: booleanInput(inputs.failOnStderr) });
+    }
+
+    private runPowerShellTask(run: AzureJobRun, step: AzureStep, inputs: Record<string, string>): AzureResult {
+        // Windows PowerShell is only used on Windows when `pwsh: false`, like on the agent
+        const executable = process.platform === 'win32' && !booleanInput(inputs.pwsh) ? 'powershell' : 'pwsh';
+        if (!isCommandAvailable(executable)) {
+            this.log(chalk.red(`      ❌ PowerShell@2 needs '${executable}' on PATH to run locally`));
+            return 'Failed';
         }
 
-        if (task.startsWith('DownloadBuildArtifacts@') || task === 'DownloadBuildArtifacts') {
-            const artifactName = inputs.artifactName || 'drop';
-            this.log(chalk.blue(`      📥 Simulating artifact download: ${artifactName}`));
-            return true;
+        const preferences = ['errorActionPreference', 'warningPreference', 'informationPreference', 'verbosePreference', 'debugPreference', 'progressPreference']
+            .filter(name => inputs[name] && inputs[name] !== 'default')
+            .map(name => `$${name.charAt(0).toUpperCase()}${name.slice(1)} = '${inputs[name]}'`);
+        const invocation = inputs.targetType === 'filePath'
+            ? `. '${path.resolve(this.workingDirectory, inputs.filePath || '').replace(/'/g, "''")}' ${inputs.arguments || ''}`
+            : inputs.script || '';
+        const exit = booleanInput(inputs.ignoreLASTEXITCODE)
+            ? ''
+            : 'if ((Test-Path -LiteralPath variable:\\LASTEXITCODE)) { exit $LASTEXITCODE }';
+        if (inputs.targetType === 'filePath' && !fs.existsSync(path.resolve(this.workingDirectory, inputs.filePath || ''))) {
+            this.log(chalk.red(`      ❌ Script file not found: ${inputs.filePath || '(filePath is empty)'}`));
+            return 'Failed';
         }
 
-        // For other tasks, just log that we're simulating them
-        this.log(chalk.blue(`      🎬 Simulating task: ${task}`));
-        return true;
+        const scriptPath = this.writeTemporaryScript([...preferences, invocation, exit].join('\n'), '.ps1');
+        const workingDir = path.resolve(this.workingDirectory, inputs.workingDirectory || '');
+        this.log(chalk.blue(`      🔧 Executing ${executable} script in ${workingDir}`));
+        return this.runProcess(run, step, executable, ['-NoLogo', '-NoProfile', '-NonInteractive', '-Command', `. '${scriptPath}'`], {
+            cwd: workingDir,
+            failOnStderr: booleanInput(inputs.failOnStderr)
+        });
     }
 
-    private executeScript(step: AzureStep): boolean {
-        try {
-            let script = '';
-            let shell = 'bash';
+    /**
+     * The script a Bash or PowerShell task runs: its `filePath`, or the inline script
+     * written to a temporary file
+     */
+    private scriptTaskFile(inputs: Record<string, string>, extension: string): string | null {
+        if (inputs.targetType === 'inline') {
+            return this.writeTemporaryScript(inputs.script || '', extension);
+        }
+
+        const filePath = path.resolve(this.workingDirectory, inputs.filePath || '');
+        if (!inputs.filePath || !fs.existsSync(filePath)) {
+            this.log(chalk.red(`      ❌ Script file not found: ${inputs.filePath || '(filePath is empty)'}`));
+            return null;
+        }
+        return filePath;
+    }
+
+    private writeTemporaryScript(content: string, extension: string): string {
+        const directory = path.join(this.runDirectory, '_temp');
+        fs.mkdirSync(directory, { recursive: true });
+        const scriptPath = path.join(directory, `script-${++this.scriptCount}${extension}`);
+        fs.writeFileSync(scriptPath, content);
+        return scriptPath;
+    }
+
+    private runCopyFilesTask(inputs: Record<string, string>): AzureResult {
+        const sourceFolder = path.resolve(this.workingDirectory, inputs.SourceFolder);
+        const targetFolder = path.resolve(this.workingDirectory, inputs.TargetFolder);
+        const result = copyFiles({
+            sourceFolder,
+            contents: multiLineInput(inputs.Contents),
+            targetFolder,
+            cleanTargetFolder: booleanInput(inputs.CleanTargetFolder),
+            overwrite: booleanInput(inputs.OverWrite),
+            flattenFolders: booleanInput(inputs.flattenFolders),
+            preserveTimestamp: booleanInput(inputs.preserveTimestamp)
+        });
 
-            if (step.script) {
-                script = step.script;
-                shell = 'bash';
-            } else if (step.bash) {
-                script = step.bash;
-                shell = 'bash';
-            } else if (step.powershell) {
-                script = step.powershell;
-                shell = 'powershell';
+        this.log(chalk.green(`      📁 Copied ${result.copied.length} file(s) from ${sourceFolder} to ${targetFolder}`));
+        if (result.skipped.length > 0) {
+            this.log(chalk.yellow(`      ⚠️  Skipped ${result.skipped.length} existing file(s), set OverWrite to replace them`));
+        }
+        if (this.verbose) {
+            for (const file of result.copied) {
+                this.log(chalk.gray(`        ${file}`));
             }
+        }
+        return 'Succeeded';
+    }
 
-            const workingDir = step.workingDirectory || this.workingDirectory;
+    private runDeleteFilesTask(inputs: Record<string, string>): AzureResult {
+        const sourceFolder = path.resolve(this.workingDirectory, inputs.SourceFolder);
+        const deleted = deleteFiles(sourceFolder, multiLineInput(inputs.Contents), booleanInput(inputs.RemoveSourceFolder), booleanInput(inputs.RemoveDotFiles));
 
-            this.log(chalk.blue(`      🔧 Executing ${shell} script in ${workingDir}`));
-            
-            if (this.verbose) {
-                this.log(chalk.gray(`      📜 Script: ${script}`));
+        this.log(chalk.green(`      🗑️  Deleted ${deleted.length} item(s) from ${sourceFolder}`));
+        if (this.verbose) {
+            for (const item of deleted) {
+                this.log(chalk.gray(`        ${item}`));
             }
+        }
+        return 'Succeeded';
+    }
+
+    private runArchiveFilesTask(inputs: Record<string, string>): AzureResult {
+        const archiveFile = path.resolve(this.workingDirectory, inputs.archiveFile);
+        const files = createArchive({
+            rootFolderOrFile: path.resolve(this.workingDirectory, inputs.rootFolderOrFile),
+            includeRootFolder: booleanInput(inputs.includeRootFolder),
+            archiveType: inputs.archiveType,
+            tarCompression: inputs.tarCompression,
+            archiveFile,
+            replaceExistingArchive: booleanInput(inputs.replaceExistingArchive)
+        });
+
+        this.log(chalk.green(`      🗜️  Archived ${files} file(s) to ${archiveFile} (${formatSize(fs.statSync(archiveFile).size)})`));
+        return 'Succeeded';
+    }
 
-            // Replace Azure Pipelines variables in the script
-            const processedScript = this.replaceVariables(script);
+    private runExtractFilesTask(inputs: Record<string, string>): AzureResult {
+        const patterns = multiLineInput(inputs.archiveFilePatterns);
+        const archives = findFiles(this.workingDirectory, patterns);
+        if (archives.length === 0) {
+            this.log(chalk.red(`      ❌ No archives found matching: ${patterns.join(', ')}`));
+            return 'Failed';
+        }
 
-            // Execute the script
-            const env = { ...process.env, ...step.env, ...this.variables };
-            const options = {
-                cwd: workingDir,
-                env: env,
-                stdio: this.verbose ? 'inherit' : 'pipe',
-                encoding: 'utf8'
-            } as const;
+        const destination = path.resolve(this.workingDirectory, inputs.destinationFolder);
+        if (booleanInput(inputs.cleanDestinationFolder)) {
+            fs.rmSync(destination, { recursive: true, force: true });
+        }
+        for (const archive of archives) {
+            extractArchive(archive, destination, booleanInput(inputs.overwriteExistingFiles));
+            this.log(chalk.green(`      📂 Extracted ${archive} to ${destination}`));
+        }
+        return 'Succeeded';
+    }
+
+    /**
+     * Download one artifact, or all of them (each into a folder named after it). Build
+     * artifacts always go into a folder named after the artifact.
+     */
+    private runDownloadArtifactsTask(inputs: Record<string, string>, artifactName: string | undefined, targetPath: string, nameFolder: boolean): AzureResult {
+        if (inputs.buildType === 'specific') {
+            this.log(chalk.red(`      ❌ Artifacts of other pipeline runs aren't available locally, only those of the current run`));
+            return 'Failed';
+        }
+
+        const patterns = multiLineInput(inputs.itemPattern);
+        const names = artifactName ? [artifactName] : this.artifacts.list().map(artifact => artifact.name);
+        if (names.length === 0) {
+            this.log(chalk.yellow(`      ⚠️  No artifacts have been published in this run`));
+            return 'Succeeded';
+        }
 
+        for (const name of names) {
+            const target = nameFolder || !artifactName ? path.join(targetPath, name) : targetPath;
+            if (!this.downloadArtifact(name, target, patterns)) return 'Failed';
+        }
+        return 'Succeeded';
+    }
+
+    private runPublishTestResultsTask(inputs: Record<string, string>): AzureResult {
+        const searchFolder = path.resolve(this.workingDirectory, inputs.searchFolder);
+        const patterns = multiLineInput(inputs.testResultsFiles);
+        const files = findFiles(searchFolder, patterns);
+        if (files.length === 0) {
+            this.log(chalk.yellow(`      ⚠️  No test result files matching ${patterns.join(', ')} were found in ${searchFolder}`));
+            return booleanInput(inputs.failTaskOnMissingResultsFile) ? 'Failed' : 'Succeeded';
+        }
+        if (inputs.testResultsFormat !== 'JUnit') {
+            this.log(chalk.yellow(`      ⚠️  ${inputs.testResultsFormat} results can't be read locally, only JUnit`));
+            return booleanInput(inputs.failTaskOnFailureToPublishResults) ? 'Failed' : 'Succeeded';
+        }
+
+        const runs: Array<{ title: string; results: TestCaseResult[] }> = [];
+        for (const file of files) {
             try {
-                const result = execSync(processedScript, options);
-                if (!this.verbose && result) {
-                    this.log(chalk.gray(`      📄 Output: ${result.toString().trim()}`));
+                const results = parseJUnit(fs.readFileSync(file, 'utf8'));
+                const title = inputs.testRunTitle || path.relative(searchFolder, file);
+                if (booleanInput(inputs.mergeTestResults) && runs.length > 0) {
+                    runs[0].results.push(...results);
+                } else {
+                    runs.push({ title, results });
                 }
-                return true;
-            } catch (error: any) {
-                this.log(chalk.red(`      ❌ Script failed with exit code: ${error.status || 'unknown'}`));
-                if (error.stdout) {
-                    this.log(chalk.gray(`      📄 stdout: ${error.stdout.toString()}`));
-                }
-                if (error.stderr) {
-                    this.log(chalk.red(`      📄 stderr: ${error.stderr.toString()}`));
+            } catch (error) {
+                this.log(chalk.yellow(`      ⚠️  Could not read ${file}: ${error}`));
+                if (booleanInput(inputs.failTaskOnFailureToPublishResults)) return 'Failed';
+            }
+        }
+
+        let failed = 0;
+        for (const testRun of runs) {
+            const count = (outcome: TestOutcome) => testRun.results.filter(result => result.outcome === outcome).length;
+            const duration = testRun.results.reduce((total, result) => total + result.time, 0);
+            const summary = `🧪 ${testRun.title}: ${count('Passed')} passed, ${count('Failed')} failed, ${count('Skipped')} skipped (${duration.toFixed(2)}s)`;
+            this.log(count('Failed') > 0 ? chalk.red(`      ${summary}`) : chalk.green(`      ${summary}`));
+
+            for (const result of testRun.results.filter(result => result.outcome === 'Failed')) {
+                this.log(chalk.red(`        ❌ ${result.className || result.suite} › ${result.name}${result.message ? `: ${result.message}` : ''}`));
+            }
+            failed += count('Failed');
+        }
+
+        return failed > 0 && booleanInput(inputs.failTaskOnFailedTests) ? 'Failed' : 'Succeeded';
+    }
+
+    /**
+     * Replace tokens like `#{name}#` in files with the values of variables, like the
+     * replacetokens extension
+     */
+    private runReplaceTokensTask(run: AzureJobRun, inputs: Record<string, string>): AzureResult {
+        const rootDirectory = path.resolve(this.workingDirectory, inputs.rootDirectory || '');
+        const delimiters = inputs.tokenPattern === 'custom'
+            ? { prefix: inputs.tokenPrefix, suffix: inputs.tokenSuffix }
+            : TOKEN_PATTERNS[inputs.tokenPattern];
+
+        const inlineVariables = inputs.inlineVariables ? (yaml.load(inputs.inlineVariables) || {}) as Record<string, any> : {};
+        const lookup = (name: string): string | undefined => {
+            const value = lookupVariable(inlineVariables, name) ?? lookupVariable(run.variables, name);
+            return value === undefined || value === null ? undefined : this.replaceVariables(String(value), run.variables);
+        };
+        const missingValue = booleanInput(inputs.keepToken) ? null : booleanInput(inputs.useDefaultValue) ? inputs.defaultValue : '';
+
+        let result: AzureResult = 'Succeeded';
+        const report = (action: string, message: string) => {
+            if (action === 'fail') {
+                this.log(chalk.red(`      ❌ ${message}`));
+                result = 'Failed';
+            } else if (action === 'warn') {
+                this.log(chalk.yellow(`      ⚠️  ${message}`));
+            }
+        };
+
+        const targets = inputs.targetFiles.split(/\r?\n|,/).map(line => line.trim()).filter(line => line.length > 0);
+        let fileCount = 0;
+        for (const target of targets) {
+            const [pattern, outputPattern] = target.split('=>').map(part => part.trim());
+            for (const file of findFiles(rootDirectory, [pattern])) {
+                const escape = this.tokenEscaper(inputs, file);
+                const replacement = replaceTokens(fs.readFileSync(file, 'utf8'), delimiters.prefix, delimiters.suffix,
+                    name => { const value = lookup(name); return value === undefined ? undefined : escape(value); },
+                    missingValue);
+
+                const output = outputPattern ? transformOutputPath(file, pattern, outputPattern) : file;
+                fs.mkdirSync(path.dirname(output), { recursive: true });
+                fs.writeFileSync(output, replacement.content);
+                fileCount++;
+
+                this.log(chalk.green(`      🔁 Replaced ${replacement.replaced} token(s) in ${path.relative(rootDirectory, output)}`));
+                for (const name of replacement.missing) {
+                    report(inputs.actionOnMissing, `Variable '${name}' not found (${path.relative(rootDirectory, file)})`);
                 }
-                return step.continueOnError || false;
             }
+        }
+
+        if (fileCount === 0) {
+            report(inputs.actionOnNoFiles, `No files found matching ${targets.join(', ')}`);
+        }
+        return result;
+    }
+
+    /**
+     * How a token value is escaped for the file it is written to
+     */
+    private tokenEscaper(inputs: Record<string, string>, file: string): (value: string) => string {
+        let escapeType = inputs.escapeType;
+        if (escapeType === 'auto') {
+            const extension = path.extname(file).toLowerCase();
+            escapeType = extension === '.json' ? 'json' : ['.xml', '.config', '.csproj', '.props', '.targets'].includes(extension) ? 'xml' : 'none';
+        }
+
+        if (escapeType === 'json') {
+            return value => JSON.stringify(value).slice(1, -1);
+        }
+        if (escapeType === 'xml') {
+            const entities: Record<string, string> = { '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&apos;' };
+            return value => value.replace(/[&<>"']/g, char => entities[char]);
+        }
+        if (escapeType === 'custom' && inputs.escapeChar && inputs.charsToEscape) {
+            return value => [...value].map(char => inputs.charsToEscape.includes(char) ? inputs.escapeChar + char : char).join('');
+        }
+        return value => value;
+    }
+
+    /**
+     * Setup tasks can't install tools locally; check the installed version instead
+     */
+    private checkToolVersion(tool: string, command: string, versionSpec: string): AzureResult {
+        const result = spawnSync(command, ['--version'], { encoding: 'utf8' });
+        const version = /(\d+\.\d+(?:\.\d+)?)/.exec(`${result.stdout || ''} ${result.stderr || ''}`)?.[1];
+        if (result.error || !version) {
+            this.log(chalk.red(`      ❌ ${tool} is not installed locally ('${command}' was not found)`));
+            return 'Failed';
+        }
+
+        if (satisfiesVersionSpec(version, versionSpec)) {
+            this.log(chalk.green(`      📦 Using local ${tool} ${version} (versionSpec: ${versionSpec})`));
+        } else {
+            this.log(chalk.yellow(`      ⚠️  Local ${tool} ${version} doesn't match versionSpec ${versionSpec}, the pipeline continues with it`));
+        }
+        return 'Succeeded';
+    }
+
+    private readVersionFile(filePath: string | undefined): string {
+        const resolved = path.resolve(this.workingDirectory, filePath || '.nvmrc');
+        if (!fs.existsSync(resolved)) {
+            throw new TaskError(`Version file not found: ${resolved}`);
+        }
+        return fs.readFileSync(resolved, 'utf8').trim().replace(/^v/, '');
+    }
+
+    /**
+     * Publish a file or the contents of a folder as a named artifact, or copy it to a
+     * file share folder when `fileShare` is given
+     */
+    private publishArtifact(name: string, source: string, existing: 'error' | 'merge', fileShare?: string): AzureResult {
+        try {
+            const sourcePath = path.resolve(this.workingDirectory, source);
+            if (!fs.existsSync(sourcePath)) {
+                this.log(chalk.red(`      ❌ Path to publish not found: ${sourcePath}`));
+                return 'Failed';
+            }
+
+            const root = fs.statSync(sourcePath).isFile() ? path.dirname(sourcePath) : sourcePath;
+            if (fileShare) {
+                const target = path.resolve(this.workingDirectory, fileShare, name);
+                const result = copyFiles({
+                    sourceFolder: root,
+                    contents: [sourcePath],
+                    targetFolder: target,
+                    cleanTargetFolder: false,
+                    overwrite: true,
+                    flattenFolders: false,
+                    preserveTimestamp: false
+                });
+                this.log(chalk.green(`      📤 Copied artifact '${name}' to ${target}: ${result.copied.length} file(s)`));
+                return 'Succeeded';
+            }
+
+            const artifact = this.artifacts.upload(name, walkFiles(sourcePath), root, existing);
+            this.log(chalk.green(`      📤 Published artifact '${name}': ${artifact.files} file(s), ${formatSize(artifact.size)}`));
+            return 'Succeeded';
 
         } catch (error) {
-            this.log(chalk.red(`      ❌ Script execution error: ${error}`));
-            return step.continueOnError || false;
+            this.log(chalk.red(`      ❌ Artifact publication failed: ${error instanceof Error ? error.message : error}`));
+            return 'Failed';
         }
     }
 
-    private replaceVariables(text: string): string {
-        // Replace Azure Pipelines variable syntax $(Variable) with actual values
-        return text.replace(/\$\(([^)]+)\)/g, (match, varName) => {
-            const value = this.variables[varName];
-            return value !== undefined ? String(value) : match;
+    /**
+     * Download an artifact, only the files matching `patterns` when they don't include everything
+     */
+    private downloadArtifact(name: string, target: string, patterns: string[] = ['**']): boolean {
+        try {
+            const targetPath = path.resolve(this.workingDirectory, target);
+            if (patterns.length === 1 && patterns[0] === '**') {
+                const artifact = this.artifacts.download(name, targetPath);
+                this.log(chalk.green(`      📥 Downloaded artifact '${name}' to ${targetPath}: ${artifact.files} file(s), ${formatSize(artifact.size)}`));
+                return true;
+            }
+
+            const artifact = this.artifacts.list().find(candidate => candidate.name === name);
+            if (!artifact) {
+                throw new Error(`Artifact not found for name: ${name}`);
+            }
+            const result = copyFiles({
+                sourceFolder: artifact.directory,
+                contents: patterns,
+                targetFolder: targetPath,
+                cleanTargetFolder: false,
+                overwrite: true,
+                flattenFolders: false,
+                preserveTimestamp: false
+            });
+            this.log(chalk.green(`      📥 Downloaded ${result.copied.length} file(s) of artifact '${name}' to ${targetPath}`));
+            return true;
+
+        } catch (error) {
+            this.log(chalk.red(`      ❌ Artifact download failed: ${error instanceof Error ? error.message : error}`));
+            return false;
+        }
+    }
+
+    private printArtifacts(): void {
+        const artifacts = this.artifacts.list();
+        if (artifacts.length === 0) return;
+
+        const location = this.artifacts.temporary ? 'discarded after the run, pass --output to keep them' : this.artifacts.root;
+        this.log(chalk.blue(`\n📦 Artifacts (${location}):`));
+        for (const line of formatArtifactSummary(artifacts)) {
+            this.log(`  ${line}`);
+        }
+    }
+
+    /**
+     * `script:`, `bash:` and `powershell:` are shortcuts for the CmdLine@2, Bash@3 and
+     * PowerShell@2 tasks, so they run through the same implementations
+     */
+    private executeScript(run: AzureJobRun, step: AzureStep): AzureResult {
+        const common = { workingDirectory: step.workingDirectory, failOnStderr: step.failOnStderr };
+        let task: string;
+        let inputs: Record<string, any>;
+        if (step.script) {
+            task = 'CmdLine@2';
+            inputs = { script: step.script, ...common };
+        } else if (step.bash) {
+            task = 'Bash@3';
+            inputs = { targetType: 'inline', script: step.bash, ...common };
+        } else {
+            task = 'PowerShell@2';
+            inputs = {
+                targetType: 'inline',
+                script: step.powershell,
+                errorActionPreference: step.errorActionPreference,
+                ignoreLASTEXITCODE: step.ignoreLASTEXITCODE,
+                ...common
+            };
+        }
+
+        if (this.verbose) {
+            this.log(chalk.gray(`      📜 Script: ${inputs.script}`));
+        }
+        return this.executeTask(run, { ...step, task, inputs });
+    }
+
+    /**
+     * Run a script or tool with the job's variables in its environment and apply the
+     * logging commands it writes
+     */
+    private runProcess(run: AzureJobRun, step: AzureStep, command: string, args: string[], options: { cwd: string; failOnStderr?: boolean }): AzureResult {
+        // Variables are mapped to environment names, secrets are only available through $(name)
+        const env: Record<string, string | undefined> = { ...process.env };
+        for (const [name, value] of Object.entries(run.variables)) {
+            if (!run.secrets.has(name) && value !== null && typeof value !== 'object') {
+                env[environmentName(name)] = this.replaceVariables(String(value), run.variables);
+            }
+        }
+        for (const [name, value] of Object.entries(step.env || {})) {
+            env[name] = this.replaceVariables(String(value), run.variables);
+        }
+        if (run.path.length > 0) {
+            env.PATH = [...run.path, env.PATH].filter(Boolean).join(path.delimiter);
+        }
+
+        const result = spawnSync(command, args, {
+            cwd: options.cwd,
+            env: env,
+            encoding: 'utf8',
+            maxBuffer: 64 * 1024 * 1024
         });
+        if (result.error) {
+            throw result.error;
+        }
+
+        let stepResult: AzureResult = result.status === 0 ? 'Succeeded' : 'Failed';
+        const output: string[] = [];
+        for (const line of (result.stdout || '').split(/\r?\n/)) {
+            const loggingCommand = parseLoggingCommand(line);
+            if (loggingCommand) {
+                stepResult = this.processLoggingCommand(run, step, loggingCommand, stepResult);
+            } else {
+                output.push(line);
+            }
+        }
+
+        const stdout = output.join('\n').trim();
+        if (stepResult === 'Failed' && result.status !== 0) {
+            this.log(chalk.red(`      ❌ Script failed with exit code: ${result.status ?? 'unknown'}`));
+            if (stdout) {
+                this.log(chalk.gray(`      📄 stdout: ${stdout}`));
+            }
+            if (result.stderr) {
+                this.log(chalk.red(`      📄 stderr: ${result.stderr}`));
+            }
+            return stepResult;
+        }
+
+        if (stdout) {
+            this.log(chalk.gray(`      📄 Output: ${stdout}`));
+        }
+        if (options.failOnStderr && result.stderr.trim()) {
+            this.log(chalk.red(`      ❌ Script wrote to stderr and failOnStderr is set: ${result.stderr.trim()}`));
+            return 'Failed';
+        }
+        if (this.verbose && result.stderr) {
+            this.log(chalk.gray(`      📄 stderr: ${result.stderr.trim()}`));
+        }
+        return stepResult;
+    }
+
+    /**
+     * Apply a `##vso[...]` logging command written by a script. Returns the step result,
+     * which `task.complete` can downgrade.
+     */
+    private processLoggingCommand(run: AzureJobRun, step: AzureStep, command: LoggingCommand, result: AzureResult): AzureResult {
+        switch (command.name) {
+            case 'task.setvariable': {
+                const name = command.properties.variable;
+                if (!name) {
+                    this.log(chalk.yellow(`      ⚠️  task.setvariable requires a variable name`));
+                    break;
+                }
+                if (this.readonlyVariables.has(name.toLowerCase())) {
+                    this.log(chalk.yellow(`      ⚠️  Variable '${name}' is read-only and can't be set by a script`));
+                    break;
+                }
+                if (isTrueProperty(command.properties.issecret)) {
+                    this.masker.add(command.value);
+                    run.secrets.add(name);
+                }
+                run.variables[name] = command.value;
+
+                if (isTrueProperty(command.properties.isoutput)) {
+                    if (!step.name) {
+                        this.log(chalk.yellow(`      ⚠️  Output variable '${name}' needs a step name to be referenced by other jobs`));
+                    } else {
+                        run.outputs[`${step.name}.${name}`] = command.value;
+                        run.variables[`${step.name}.${name}`] = command.value;
+                    }
+                }
+                this.log(chalk.gray(`      📝 Set variable ${name}`));
+                break;
+            }
+            case 'task.prependpath':
+                if (command.value.trim()) {
+                    run.path.unshift(command.value.trim());
+                    this.log(chalk.gray(`      📝 Prepended ${command.value.trim()} to PATH`));
+                }
+                break;
+            case 'task.logissue': {
+                const type = (command.properties.type || '').toLowerCase();
+                this.log(`      ${formatAnnotation({
+                    level: type === 'error' ? 'error' : 'warning',
+                    message: command.value,
+                    file: command.properties.sourcepath,
+                    line: command.properties.linenumber,
+                    col: command.properties.columnnumber,
+                    title: command.properties.code
+                })}`);
+                break;
+            }
+            case 'task.complete': {
+                // A script can report a worse result than its exit code, never a better one
+                const status = (command.properties.result || '').toLowerCase();
+                if (status === 'failed') return 'Failed';
+                if (status === 'succeededwithissues') return combineResults([result, 'SucceededWithIssues']);
+                break;
+            }
+            default:
+                if (this.verbose) {
+                    this.log(chalk.gray(`      ℹ️  Ignoring logging command ${command.name}`));
+                }
+        }
+        return result;
+    }
+
+    private replaceVariables(text: string, variables: Record<string, any>): string {
+        // Replace Azure Pipelines variable syntax $(Variable) with actual values
+        return expandMacros(text, variables);
     }
 
     private log(message: string): void {
-        console.log(message);
+        console.log(this.masker.mask(message));
     }
 }
\ No newline at end of file
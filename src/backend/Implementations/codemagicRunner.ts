@@ -1,10 +1,12 @@
-import { Pipeline } from "../pipelineInterface";
+import { Pipeline, RunnerOptions } from "../pipelineInterface";
 import * as yaml from 'js-yaml';
 import * as fs from 'fs';
 import * as path from 'path';
 import { execSync } from 'child_process';
 import chalk from 'chalk';
 import inquirer from 'inquirer';
+import { ArtifactStore, commonDirectory, formatArtifactSummary, formatSize } from '../artifactStore';
+import { findFiles } from '../fileGlob';
 
 interface CodeMagicConfig {
     definitions?: {
@@ -55,9 +57,12 @@ export class CodeMagicRunner implements Pipeline {
     private workingDirectory: string = '';
     private environment: Record<string, any> = {};
     private scriptDefinitions: Record<string, ScriptStep> = {};
+    private options: RunnerOptions;
+    private artifacts!: ArtifactStore;
 
-    constructor(verbose: boolean = false) {
+    constructor(verbose: boolean = false, options: RunnerOptions = {}) {
         this.verbose = verbose;
+        this.options = options;
     }
 
     async execute(inputPath: string, workflow?: string): Promise<Boolean | undefined> {
@@ -85,8 +90,14 @@ export class CodeMagicRunner implements Pipeline {
             this.parseScriptDefinitions(config.definitions);
 
             this.log(chalk.green(`🚀 Starting CodeMagic workflows`));
-            
-            return await this.executeConfig(config, workflow);
+
+            this.artifacts = ArtifactStore.open(this.options.outputDir);
+            try {
+                return await this.executeConfig(config, workflow);
+            } finally {
+                this.printArtifacts();
+                this.artifacts.dispose();
+            }
 
         } catch (error) {
             this.log(chalk.red(`❌ Error executing CodeMagic workflow: ${error}`));
@@ -203,7 +214,7 @@ export class CodeMagicRunner implements Pipeline {
             const workflow = config.workflows[workflowToExecute];
             this.log(chalk.yellow(`\n🔧 Executing workflow: ${workflow.name || workflowToExecute}`));
 
-            return this.executeWorkflow(workflow);
+            return this.executeWorkflow(workflowToExecute, workflow);
 
         } catch (error) {
             this.log(chalk.red(`❌ Configuration execution failed: ${error}`));
@@ -235,7 +246,7 @@ export class CodeMagicRunner implements Pipeline {
             const selectedWorkflow = config.workflows[answer.workflow];
             this.log(chalk.yellow(`\n🔧 Executing selected workflow: ${selectedWorkflow.name || answer.workflow}`));
 
-            return this.executeWorkflow(selectedWorkflow);
+            return this.executeWorkflow(answer.workflow, selectedWorkflow);
 
         } catch (error) {
             this.log(chalk.red(`❌ Workflow selection failed: ${error}`));
@@ -243,7 +254,7 @@ export class CodeMagicRunner implements Pipeline {
         }
     }
 
-    private executeWorkflow(workflow: CodeMagicWorkflow): boolean {
+    private executeWorkflow(workflowId: string, workflow: CodeMagicWorkflow): boolean {
         try {
             // Setup environment
             this.setupEnvironment(workflow.environment);
@@ -263,8 +274,9 @@ export class CodeMagicRunner implements Pipeline {
                 return false;
             }
 
-            // Simulate artifacts collection
-            this.simulateArtifacts(workflow.artifacts);
+            if (!this.collectArtifacts(workflowId, workflow.artifacts)) {
+                return false;
+            }
 
             // Simulate publishing (skip actual publishing)
             this.simulatePublishing(workflow.publishing);
@@ -422,12 +434,40 @@ export class CodeMagicRunner implements Pipeline {
         }
     }
 
-    private simulateArtifacts(artifacts?: string[]): void {
-        if (!artifacts || artifacts.length === 0) return;
+    /**
+     * Copy the files matching the workflow's artifact patterns into an artifact named after the workflow
+     */
+    private collectArtifacts(workflowId: string, artifacts?: string[]): boolean {
+        if (!artifacts || artifacts.length === 0) return true;
+
+        this.log(chalk.blue(`📦 Collecting artifacts: ${artifacts.join(', ')}`));
+        try {
+            const files = findFiles(this.workingDirectory, artifacts);
+            if (files.length === 0) {
+                this.log(chalk.yellow(`⚠️  No files matched the artifact patterns`));
+                return true;
+            }
+
+            const root = commonDirectory([this.workingDirectory, ...files.map(file => path.dirname(file))]);
+            const name = workflowId.replace(/[\\/":<>|*?\r\n]/g, '-');
+            const artifact = this.artifacts.upload(name, files, root);
+            this.log(chalk.green(`      📤 Collected ${artifact.files} file(s) into artifact '${name}' (${formatSize(artifact.size)})`));
+            return true;
+
+        } catch (error) {
+            this.log(chalk.red(`❌ Artifact collection failed: ${error instanceof Error ? error.message : error}`));
+            return false;
+        }
+    }
+
+    private printArtifacts(): void {
+        const artifacts = this.artifacts.list();
+        if (artifacts.length === 0) return;
 
-        this.log(chalk.blue(`📦 Simulating artifact collection:`));
-        for (const artifact of artifacts) {
-            this.log(chalk.blue(`      📄 ${artifact}`));
+        const location = this.artifacts.temporary ? 'discarded after the run, pass --output to keep them' : this.artifacts.root;
+        this.log(chalk.blue(`\n📦 Artifacts (${location}):`));
+        for (const line of formatArtifactSummary(artifacts)) {
+            this.log(`  ${line}`);
         }
     }
 
@@ -0,0 +1,91 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as yaml from 'js-yaml';
+
+export interface ActionInput {
+    description?: string;
+    required?: boolean;
+    default?: any;
+    deprecationMessage?: string;
+}
+
+export interface ActionOutput {
+    description?: string;
+    value?: string;
+}
+
+export interface ActionDefinition {
+    name?: string;
+    description?: string;
+    inputs?: Record<string, ActionInput>;
+    outputs?: Record<string, ActionOutput>;
+    runs: {
+        using: string;
+        steps?: any[];
+        main?: string;
+        pre?: string;
+        post?: string;
+        'pre-if'?: string | boolean;
+        'post-if'?: string | boolean;
+        image?: string;
+    };
+}
+
+/**
+ * Load the `action.yml` (or `action.yaml`) of an action checked out in a directory.
+ * Returns null when the directory has no action metadata.
+ */
+export function loadActionDefinition(directory: string): ActionDefinition | null {
+    for (const fileName of ['action.yml', 'action.yaml']) {
+        const filePath = path.join(directory, fileName);
+        if (!fs.existsSync(filePath)) continue;
+
+        const definition = yaml.load(fs.readFileSync(filePath, 'utf8')) as ActionDefinition | null;
+        if (!definition || typeof definition !== 'object' || !definition.runs?.using) {
+            throw new Error(`${filePath} does not declare 'runs.using'`);
+        }
+        return definition;
+    }
+    return null;
+}
+
+/**
+ * Bind the `with:` values of a step to the inputs an action declares, filling in defaults.
+ * Input names are matched case-insensitively. `resolveDefault` evaluates default values,
+ * which may contain expressions.
+ */
+export function bindActionInputs(
+    definition: ActionDefinition,
+    provided: Record<string, any>,
+    resolveDefault: (value: any) => string
+): { inputs: Record<string, string>; warnings: string[] } {
+    const inputs: Record<string, string> = {};
+    const warnings: string[] = [];
+    const declared = definition.inputs || {};
+    const providedKeys = Object.keys(provided);
+
+    for (const [name, input] of Object.entries(declared)) {
+        const key = providedKeys.find(providedKey => providedKey.toLowerCase() === name.toLowerCase());
+        if (key !== undefined) {
+            inputs[name] = provided[key] === null || provided[key] === undefined ? '' : String(provided[key]);
+            if (input?.deprecationMessage) {
+                warnings.push(`Input '${name}' has been deprecated: ${input.deprecationMessage}`);
+            }
+        } else if (input?.default !== undefined) {
+            inputs[name] = resolveDefault(input.default);
+        } else {
+            inputs[name] = '';
+            if (input?.required) {
+                warnings.push(`Input required and not supplied: ${name}`);
+            }
+        }
+    }
+
+    const declaredNames = Object.keys(declared).map(name => name.toLowerCase());
+    const unexpected = providedKeys.filter(key => !declaredNames.includes(key.toLowerCase()));
+    if (unexpected.length > 0) {
+        warnings.push(`Unexpected input(s) '${unexpected.join("', '")}', valid inputs are ['${Object.keys(declared).join("', '")}']`);
+    }
+
+    return { inputs, warnings };
+}
@@ -0,0 +1,46 @@
+import * as os from 'os';
+import * as path from 'path';
+
+export interface ActionReference {
+    owner: string;
+    repo: string;
+    /** Sub-directory of the action inside the repository, '' for the root */
+    path: string;
+    ref: string;
+}
+
+/**
+ * Default location of vendored actions: ~/.localpipe/actions/<owner>/<repo>@<ref>
+ */
+export function defaultActionStore(): string {
+    return path.join(os.homedir(), '.localpipe', 'actions');
+}
+
+/**
+ * Parse `owner/repo[/path]@ref`. Returns null for local (`./`) and `docker://` references.
+ */
+export function parseActionReference(uses: string): ActionReference | null {
+    const match = /^([^/@.][^/@]*)\/([^/@]+)((?:\/[^@]+)?)@(.+)$/.exec(uses.trim());
+    if (!match) return null;
+
+    return {
+        owner: match[1],
+        repo: match[2],
+        path: match[3].replace(/^\//, ''),
+        ref: match[4]
+    };
+}
+
+/**
+ * Directory a referenced action is expected at inside the store
+ */
+export function resolveActionDirectory(store: string, reference: ActionReference): string {
+    return path.join(store, reference.owner, `${reference.repo}@${reference.ref}`, reference.path);
+}
+
+/**
+ * Convert an input name to the env variable actions read it from (INPUT_<NAME>)
+ */
+export function inputEnvironmentName(name: string): string {
+    return `INPUT_${name.replace(/ /g, '_').toUpperCase()}`;
+}
@@ -0,0 +1,141 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { findFiles } from '../../fileGlob';
+
+export interface CacheEntry {
+    key: string;
+    version: string;
+    created: string;
+    /** Directory of the entry inside the cache store */
+    directory: string;
+}
+
+/** Files inside the workspace are stored relative to it, so entries work from any clone */
+const WORKSPACE_FOLDER = 'workspace';
+const ABSOLUTE_FOLDER = 'absolute';
+
+/**
+ * Default location of the local cache store: ~/.localpipe/cache
+ */
+export function defaultCacheStore(): string {
+    return path.join(os.homedir(), '.localpipe', 'cache');
+}
+
+/**
+ * Split the `path` input of actions/cache into patterns, expanding a leading `~`
+ */
+export function parseCachePaths(input: string): string[] {
+    return String(input || '')
+        .split(/\r?\n/)
+        .map(line => line.trim())
+        .filter(line => line.length > 0)
+        .map(line => line.replace(/^(!?)~(?=$|[\\/])/, (_, negation) => negation + os.homedir()));
+}
+
+/**
+ * Like GitHub, entries are only restored for the same set of paths
+ */
+export function cacheVersion(paths: string[]): string {
+    return crypto.createHash('sha256').update(paths.join('|')).digest('hex');
+}
+
+/**
+ * Find the entry for a key: an exact match first, then the newest entry whose key
+ * starts with one of the restore keys, in the order they are listed.
+ */
+export function findCacheEntry(store: string, key: string, restoreKeys: string[], version: string): CacheEntry | null {
+    const entries = listCacheEntries(store).filter(entry => entry.version === version);
+
+    const exact = entries.find(entry => entry.key === key);
+    if (exact) return exact;
+
+    for (const prefix of restoreKeys) {
+        const matches = entries
+            .filter(entry => entry.key.startsWith(prefix))
+            .sort((a, b) => b.created.localeCompare(a.created));
+        if (matches.length > 0) return matches[0];
+    }
+    return null;
+}
+
+/**
+ * Copy the files of an entry back to where they were saved from. Returns the number of files.
+ */
+export function restoreCacheEntry(entry: CacheEntry, workspace: string): number {
+    let count = 0;
+    const roots: Array<[string, string]> = [
+        [path.join(entry.directory, WORKSPACE_FOLDER), workspace],
+        [path.join(entry.directory, ABSOLUTE_FOLDER), path.parse(workspace).root]
+    ];
+
+    for (const [source, target] of roots) {
+        if (!fs.existsSync(source)) continue;
+        fs.cpSync(source, target, { recursive: true, force: true });
+        count += countFiles(source);
+    }
+    return count;
+}
+
+/**
+ * Save the files matching `paths` under `key`. Entries are immutable, so an existing
+ * key is never overwritten. Returns the number of files saved, or null when the key exists.
+ */
+export function saveCacheEntry(store: string, key: string, paths: string[], workspace: string): number | null {
+    const version = cacheVersion(paths);
+    if (listCacheEntries(store).some(entry => entry.key === key && entry.version === version)) {
+        return null;
+    }
+
+    const files = findFiles(workspace, paths);
+    if (files.length === 0) {
+        throw new Error(`Path Validation Error: Path(s) specified in the action for caching do(es) not exist, hence no cache is being saved.`);
+    }
+
+    const directory = path.join(store, crypto.createHash('sha256').update(`${key}|${version}`).digest('hex').slice(0, 32));
+    const staging = `${directory}.tmp-${process.pid}`;
+    fs.rmSync(staging, { recursive: true, force: true });
+
+    for (const file of files) {
+        const relative = path.relative(workspace, file);
+        const target = relative && !relative.startsWith('..') && !path.isAbsolute(relative)
+            ? path.join(staging, WORKSPACE_FOLDER, relative)
+            : path.join(staging, ABSOLUTE_FOLDER, path.relative(path.parse(file).root, file));
+        fs.mkdirSync(path.dirname(target), { recursive: true });
+        fs.copyFileSync(file, target);
+    }
+
+    const manifest = { key, version, created: new Date().toISOString(), paths };
+    fs.writeFileSync(path.join(staging, 'manifest.json'), JSON.stringify(manifest, null, 2));
+
+    // Move the complete entry into place so a failed save never leaves a partial entry
+    fs.rmSync(directory, { recursive: true, force: true });
+    fs.renameSync(staging, directory);
+    return files.length;
+}
+
+function listCacheEntries(store: string): CacheEntry[] {
+    if (!fs.existsSync(store)) return [];
+
+    const entries: CacheEntry[] = [];
+    for (const name of fs.readdirSync(store)) {
+        const manifestPath = path.join(store, name, 'manifest.json');
+        if (!fs.existsSync(manifestPath)) continue;
+        try {
+            const manifest = JSON.parse(fs.readFileSync(manifestPath, 'utf8'));
+            entries.push({ key: manifest.key, version: manifest.version, created: manifest.created, directory: path.join(store, name) });
+        } catch (error) {
+            // Ignore unreadable entries, they are simply cache misses
+        }
+    }
+    return entries;
+}
+
+function countFiles(directory: string): number {
+    let count = 0;
+    for (const entry of fs.readdirSync(directory, { withFileTypes: true })) {
+        count += entry.isDirectory() ? countFiles(path.join(directory, entry.name)) : 1;
+    }
+    return count;
+}
@@ -0,0 +1,206 @@
+import { spawn } from 'child_process';
+import { splitCommandLine } from './shells';
+
+/** A `container:` or `services.<id>:` definition */
+export interface ContainerDefinition {
+    image: string;
+    env?: Record<string, string>;
+    ports?: Array<string | number>;
+    volumes?: string[];
+    options?: string;
+    credentials?: { username?: string; password?: string };
+}
+
+/** What the CLI needs to start a job or service container */
+export interface ContainerStartOptions {
+    name: string;
+    network: string;
+    /** Host name other containers on the network reach the container by */
+    alias?: string;
+    definition: ContainerDefinition;
+    /** Extra bind mounts, host path to container path */
+    mounts?: Record<string, string>;
+    workdir?: string;
+    /** Overrides the image entrypoint, followed by its arguments */
+    entrypoint?: string[];
+}
+
+export interface CliResult {
+    status: number | null;
+    stdout: string;
+    stderr: string;
+}
+
+/** PATH of the common base images, used when GITHUB_PATH adds to it inside a job container */
+export const DEFAULT_CONTAINER_PATH = '/usr/local/sbin:/usr/local/bin:/usr/sbin:/usr/bin:/sbin:/bin';
+
+/** How long services may take to report healthy, like the retries of the GitHub runner */
+const HEALTH_TIMEOUT_MS = 5 * 60 * 1000;
+const HEALTH_POLL_MS = 1000;
+
+/**
+ * `container:` and `services.<id>:` accept either an image name or a full definition.
+ * Returns null when there is no image.
+ */
+export function normalizeContainer(value: string | ContainerDefinition | undefined): ContainerDefinition | null {
+    if (!value) return null;
+    if (typeof value === 'string') return value.trim() ? { image: value.trim() } : null;
+    if (!value.image) return null;
+    return {
+        ...value,
+        env: Object.fromEntries(Object.entries(value.env || {}).map(([key, item]) => [key, String(item)])),
+        ports: (value.ports || []).map(port => String(port)),
+        volumes: (value.volumes || []).map(volume => String(volume))
+    };
+}
+
+/**
+ * Thin wrapper around a docker compatible CLI (docker, podman or a stub used in tests).
+ * Every call is asynchronous so containers of jobs running side by side don't block each other.
+ */
+export class ContainerCli {
+    constructor(readonly command: string) {}
+
+    /**
+     * Run the CLI. Environment values are passed through the process env, so `-e NAME`
+     * arguments keep them out of the command line.
+     */
+    run(args: string[], env: Record<string, string> = {}): Promise<CliResult> {
+        return new Promise((resolve, reject) => {
+            const child = spawn(this.command, args, {
+                env: { ...process.env, ...env },
+                stdio: ['ignore', 'pipe', 'pipe']
+            });
+
+            let stdout = '';
+            let stderr = '';
+            child.stdout.on('data', (chunk: Buffer) => { stdout += chunk.toString(); });
+            child.stderr.on('data', (chunk: Buffer) => { stderr += chunk.toString(); });
+            child.on('error', error => {
+                const notFound = (error as NodeJS.ErrnoException).code === 'ENOENT';
+                reject(notFound ? new Error(`Container CLI '${this.command}' was not found on PATH, install docker or podman or pass --container-cli`) : error);
+            });
+            child.on('close', status => resolve({ status, stdout: stdout.trim(), stderr: stderr.trim() }));
+        });
+    }
+
+    async createNetwork(name: string): Promise<void> {
+        await this.check(['network', 'create', name], `create network ${name}`);
+    }
+
+    async removeNetwork(name: string): Promise<void> {
+        await this.run(['network', 'rm', name]);
+    }
+
+    /**
+     * Start a detached container and return its id
+     */
+    async start(options: ContainerStartOptions): Promise<string> {
+        const definition = options.definition;
+        const args = ['run', '-d', '--name', options.name, '--network', options.network];
+        if (options.alias) {
+            args.push('--network-alias', options.alias);
+        }
+        for (const name of Object.keys(definition.env || {})) {
+            args.push('-e', name);
+        }
+        for (const port of definition.ports || []) {
+            args.push('-p', String(port));
+        }
+        for (const [host, container] of Object.entries(options.mounts || {})) {
+            args.push('-v', `${host}:${container}`);
+        }
+        for (const volume of definition.volumes || []) {
+            args.push('-v', volume);
+        }
+        if (options.workdir) {
+            args.push('-w', options.workdir);
+        }
+        args.push(...splitCommandLine(definition.options || ''));
+
+        const [entrypoint, ...entrypointArgs] = options.entrypoint || [];
+        if (entrypoint) {
+            args.push('--entrypoint', entrypoint);
+        }
+        args.push(definition.image, ...entrypointArgs);
+
+        const result = await this.check(args, `start ${definition.image}`, definition.env);
+        return result.stdout.split(/\r?\n/).pop()!.trim() || options.name;
+    }
+
+    /**
+     * Wait until a container with a health check reports healthy. Containers without
+     * one are ready as soon as they run. Throws when it exits, turns unhealthy or times out.
+     */
+    async waitForHealthy(id: string, onWait?: () => void): Promise<void> {
+        const started = Date.now();
+        let notified = false;
+
+        for (;;) {
+            const result = await this.check(['inspect', '--format', '{{.State.Status}} {{if .State.Health}}{{.State.Health.Status}}{{end}}', id], `inspect ${id}`);
+            const [state, health] = result.stdout.split(/\s+/);
+
+            if (state !== 'running' && state !== 'created') {
+                throw new Error(`container ${id} is ${state || 'not running'}`);
+            }
+            if (!health || health === 'healthy') return;
+            if (health === 'unhealthy') {
+                throw new Error(`container ${id} is unhealthy`);
+            }
+            if (Date.now() - started > HEALTH_TIMEOUT_MS) {
+                throw new Error(`container ${id} did not become healthy within ${HEALTH_TIMEOUT_MS / 1000} seconds`);
+            }
+
+            if (!notified) {
+                onWait?.();
+                notified = true;
+            }
+            await new Promise(resolve => setTimeout(resolve, HEALTH_POLL_MS));
+        }
+    }
+
+    /**
+     * The host ports published for a container, by container port
+     */
+    async ports(id: string): Promise<Record<string, string>> {
+        const result = await this.check(['port', id], `list ports of ${id}`);
+        const ports: Record<string, string> = {};
+        // Lines look like `5432/tcp -> 0.0.0.0:49153`
+        for (const line of result.stdout.split(/\r?\n/)) {
+            const match = /^(\d+)(?:\/\w+)?\s*->\s*.*:(\d+)$/.exec(line.trim());
+            if (match && !(match[1] in ports)) {
+                ports[match[1]] = match[2];
+            }
+        }
+        return ports;
+    }
+
+    async hasCommand(id: string, command: string): Promise<boolean> {
+        const result = await this.run(['exec', id, 'sh', '-c', `command -v ${command}`]);
+        return result.status === 0;
+    }
+
+    /**
+     * Arguments that run a command inside a container. Variables given by name only
+     * take their values from the environment of the CLI process.
+     */
+    execArgs(id: string, workdir: string, envNames: string[], command: string, args: string[]): string[] {
+        const result = ['exec', '-w', workdir];
+        for (const name of envNames) {
+            result.push('-e', name);
+        }
+        return [...result, id, command, ...args];
+    }
+
+    async remove(id: string): Promise<void> {
+        await this.run(['rm', '-f', id]);
+    }
+
+    private async check(args: string[], action: string, env?: Record<string, string>): Promise<CliResult> {
+        const result = await this.run(args, env);
+        if (result.status !== 0) {
+            throw new Error(`Failed to ${action}: ${result.stderr || result.stdout || `exit code ${result.status}`}`);
+        }
+        return result;
+    }
+}
@@ -0,0 +1,181 @@
+export interface DispatchInput {
+    description?: string;
+    required?: boolean;
+    type?: 'string' | 'boolean' | 'number' | 'choice' | 'environment';
+    default?: any;
+    options?: string[];
+}
+
+/** Repository state a default event payload is built from */
+export interface EventDefaults {
+    ref: string;
+    sha: string;
+    repository: string;
+    actor: string;
+}
+
+/** The event-dependent parts of the github context */
+export interface EventContext {
+    event_name: string;
+    event: Record<string, any>;
+    ref: string;
+    ref_name: string;
+    ref_type: 'branch' | 'tag';
+    head_ref: string;
+    base_ref: string;
+}
+
+/**
+ * Normalize `on:` (a string, a list or a map) to a map of event name to its configuration
+ */
+export function getWorkflowTriggers(on: any): Record<string, any> {
+    if (typeof on === 'string') return { [on]: {} };
+    if (Array.isArray(on)) {
+        return Object.fromEntries(on.map(event => [String(event), {}]));
+    }
+    if (on && typeof on === 'object') {
+        return Object.fromEntries(Object.entries(on).map(([event, config]) => [event, config || {}]));
+    }
+    return {};
+}
+
+/**
+ * Check that a workflow runs for an event. Returns the reasons it wouldn't, empty when it does.
+ */
+export function checkEventTrigger(on: any, eventName: string, payload: Record<string, any>): string[] {
+    const triggers = getWorkflowTriggers(on);
+    if (!(eventName in triggers)) {
+        const declared = Object.keys(triggers);
+        return [`The workflow is not triggered by '${eventName}' (triggers: ${declared.length > 0 ? declared.join(', ') : 'none'})`];
+    }
+
+    const types = triggers[eventName].types;
+    const activityTypes = Array.isArray(types) ? types : types ? [types] : [];
+    if (activityTypes.length > 0 && payload.action && !activityTypes.includes(payload.action)) {
+        return [`The workflow only runs for '${eventName}' activity types ${activityTypes.join(', ')}, not '${payload.action}'`];
+    }
+    return [];
+}
+
+/**
+ * Build the payload of a simulated event. A user-supplied payload wins over the
+ * defaults derived from the repository, which only fill in missing fields.
+ */
+export function buildEventPayload(eventName: string, payload: Record<string, any>, defaults: EventDefaults): Record<string, any> {
+    const [owner, name] = defaults.repository.split('/');
+    const base: Record<string, any> = {
+        repository: {
+            full_name: defaults.repository,
+            name: name,
+            owner: { login: owner },
+            default_branch: 'main'
+        },
+        sender: { login: defaults.actor }
+    };
+
+    switch (eventName) {
+        case 'push':
+            Object.assign(base, {
+                ref: defaults.ref,
+                before: '0'.repeat(40),
+                after: defaults.sha,
+                head_commit: { id: defaults.sha }
+            });
+            break;
+        case 'pull_request':
+        case 'pull_request_target':
+            Object.assign(base, {
+                action: 'opened',
+                number: 1,
+                pull_request: {
+                    number: 1,
+                    head: { ref: refName(defaults.ref), sha: defaults.sha },
+                    base: { ref: 'main' }
+                }
+            });
+            break;
+        case 'workflow_dispatch':
+            Object.assign(base, { ref: defaults.ref, inputs: {} });
+            break;
+        case 'release':
+            Object.assign(base, { action: 'published', release: { tag_name: 'v0.0.0', name: 'v0.0.0' } });
+            break;
+    }
+
+    return mergePayload(base, payload);
+}
+
+/**
+ * Derive event_name, ref and the other event-dependent github context values from a payload
+ */
+export function resolveEventContext(eventName: string, payload: Record<string, any>, defaultRef: string): EventContext {
+    let ref = defaultRef;
+    let headRef = '';
+    let baseRef = '';
+
+    if ((eventName === 'pull_request' || eventName === 'pull_request_target') && payload.pull_request) {
+        headRef = String(payload.pull_request.head?.ref || '');
+        baseRef = String(payload.pull_request.base?.ref || '');
+        // pull_request runs on the merge ref, pull_request_target on the base branch
+        ref = eventName === 'pull_request'
+            ? `refs/pull/${payload.pull_request.number ?? payload.number}/merge`
+            : `refs/heads/${baseRef}`;
+    } else if (eventName === 'release' && payload.release?.tag_name) {
+        ref = `refs/tags/${payload.release.tag_name}`;
+    } else if (typeof payload.ref === 'string' && payload.ref) {
+        ref = payload.ref.startsWith('refs/') ? payload.ref : `refs/heads/${payload.ref}`;
+    }
+
+    return {
+        event_name: eventName,
+        event: payload,
+        ref: ref,
+        ref_name: refName(ref),
+        ref_type: ref.startsWith('refs/tags/') ? 'tag' : 'branch',
+        head_ref: headRef,
+        base_ref: baseRef
+    };
+}
+
+/**
+ * Convert the raw value of a `workflow_dispatch` input to its declared type.
+ * Throws when the value doesn't fit the type or the choice options.
+ */
+export function coerceDispatchInput(name: string, input: DispatchInput, value: any): string | number | boolean {
+    const type = input?.type || 'string';
+
+    if (type === 'boolean') {
+        if (typeof value === 'boolean') return value;
+        const text = String(value).trim().toLowerCase();
+        if (text === 'true' || text === 'false') return text === 'true';
+        throw new Error(`Input '${name}' expects a boolean but got '${value}'`);
+    }
+    if (type === 'number') {
+        const number = typeof value === 'number' ? value : Number(String(value).trim());
+        if (String(value).trim() === '' || Number.isNaN(number)) {
+            throw new Error(`Input '${name}' expects a number but got '${value}'`);
+        }
+        return number;
+    }
+    if (type === 'choice') {
+        const options = (input.options || []).map(String);
+        if (!options.includes(String(value))) {
+            throw new Error(`Input '${name}' must be one of ${options.join(', ')} but got '${value}'`);
+        }
+    }
+    return String(value);
+}
+
+function refName(ref: string): string {
+    return ref.replace(/^refs\/(heads|tags|pull)\//, '');
+}
+
+function mergePayload(base: Record<string, any>, payload: Record<string, any>): Record<string, any> {
+    const result: Record<string, any> = { ...base };
+    for (const [key, value] of Object.entries(payload)) {
+        const current = result[key];
+        const isObject = (item: any) => item && typeof item === 'object' && !Array.isArray(item);
+        result[key] = isObject(current) && isObject(value) ? mergePayload(current, value) : value;
+    }
+    return result;
+}
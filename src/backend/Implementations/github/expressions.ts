@@ -0,0 +1,674 @@
+import * as fs from 'fs';
+import * as crypto from 'crypto';
+import { findFiles } from '../../fileGlob';
+
+export type JobStatus = 'success' | 'failure' | 'cancelled';
+
+export interface ExpressionContext {
+    /** Named values available to the expression (github, env, steps, ...) */
+    contexts: Record<string, any>;
+    /**
+     * Current job status, used by success(), failure() and cancelled().
+     * 'skipped' is only used for job conditions whose needed jobs were skipped.
+     */
+    status?: JobStatus | 'skipped';
+    /** Directory hashFiles() patterns are resolved against */
+    workspace?: string;
+}
+
+export class ExpressionError extends Error {
+    constructor(message: string, public readonly expression?: string) {
+        super(expression ? `${message} (in expression: ${expression})` : message);
+        this.name = 'ExpressionError';
+    }
+}
+
+type Token =
+    | { type: 'number'; value: number }
+    | { type: 'string'; value: string }
+    | { type: 'keyword'; value: boolean | null }
+    | { type: 'identifier'; value: string }
+    | { type: 'operator'; value: string };
+
+type ExpressionNode =
+    | { kind: 'literal'; value: any }
+    | { kind: 'named'; name: string }
+    | { kind: 'property'; object: ExpressionNode; name: string }
+    | { kind: 'index'; object: ExpressionNode; index: ExpressionNode }
+    | { kind: 'filter'; object: ExpressionNode }
+    | { kind: 'call'; name: string; args: ExpressionNode[] }
+    | { kind: 'not'; operand: ExpressionNode }
+    | { kind: 'binary'; operator: string; left: ExpressionNode; right: ExpressionNode };
+
+const STATUS_FUNCTIONS = ['success', 'failure', 'always', 'cancelled'];
+
+/** Marks arrays produced by `.*` so that following property accesses map over them */
+const FILTERED = Symbol('filtered');
+
+/**
+ * Evaluate a single expression (the text between `${{` and `}}`).
+ */
+export function evaluateExpression(expression: string, context: ExpressionContext): any {
+    const parser = new ExpressionParser(tokenize(expression), expression);
+    const node = parser.parse();
+    return evaluate(node, context, expression);
+}
+
+/**
+ * Check whether an expression calls one of the status functions
+ * (success, failure, always, cancelled).
+ */
+export function usesStatusFunction(expression: string): boolean {
+    try {
+        return tokenize(expression).some((token, index, tokens) =>
+            token.type === 'identifier' &&
+            STATUS_FUNCTIONS.includes(token.value.toLowerCase()) &&
+            tokens[index + 1]?.type === 'operator' &&
+            tokens[index + 1].value === '(');
+    } catch (error) {
+        return false;
+    }
+}
+
+/**
+ * Evaluate an `if:` condition. The `${{ }}` wrapper is optional, and conditions
+ * that don't call a status function get GitHub's implicit `success() && (...)`.
+ */
+export function evaluateCondition(condition: string | boolean | number | undefined, context: ExpressionContext): boolean {
+    if (condition === undefined || condition === null || condition === '') {
+        return (context.status || 'success') === 'success';
+    }
+    if (typeof condition !== 'string') {
+        return isTruthy(condition) && (context.status || 'success') === 'success';
+    }
+
+    let expression = condition.trim();
+    if (hasExpressions(expression)) {
+        const parts = splitTemplate(expression);
+        if (parts.length !== 1 || typeof parts[0] === 'string') {
+            // Mixed text and templates produce a string, which is truthy when not empty
+            return isTruthy(interpolate(expression, context));
+        }
+        expression = parts[0].expression;
+    }
+
+    if (!usesStatusFunction(expression)) {
+        expression = `success() && (${expression})`;
+    }
+
+    return isTruthy(evaluateExpression(expression, context));
+}
+
+/**
+ * Check whether a value contains `${{ }}` templates.
+ */
+export function hasExpressions(text: string): boolean {
+    return typeof text === 'string' && text.includes('${{');
+}
+
+/**
+ * Replace every `${{ expr }}` in a string with its evaluated value.
+ * A string consisting of exactly one expression keeps the value's type.
+ */
+export function interpolate(text: string, context: ExpressionContext): any {
+    if (!hasExpressions(text)) return text;
+
+    const parts = splitTemplate(text);
+    if (parts.length === 1 && typeof parts[0] !== 'string') {
+        return evaluateExpression(parts[0].expression, context);
+    }
+
+    return parts
+        .map(part => typeof part === 'string' ? part : toDisplayString(evaluateExpression(part.expression, context)))
+        .join('');
+}
+
+/**
+ * Interpolate strings inside an arbitrary value, recursing into arrays and objects.
+ */
+export function interpolateValue<T>(value: T, context: ExpressionContext): T {
+    if (typeof value === 'string') {
+        return interpolate(value, context);
+    }
+    if (Array.isArray(value)) {
+        return value.map(item => interpolateValue(item, context)) as unknown as T;
+    }
+    if (value && typeof value === 'object') {
+        const result: Record<string, any> = {};
+        for (const [key, item] of Object.entries(value)) {
+            result[interpolate(key, context)] = interpolateValue(item, context);
+        }
+        return result as T;
+    }
+    return value;
+}
+
+/**
+ * Interpolate a string and always return a string (used for run scripts, env values, ...)
+ */
+export function interpolateString(text: string, context: ExpressionContext): string {
+    return toDisplayString(interpolate(text, context));
+}
+
+/**
+ * GitHub's truthiness rules: false, 0, -0, '', null and NaN are falsy.
+ */
+export function isTruthy(value: any): boolean {
+    if (value === null || value === undefined) return false;
+    if (typeof value === 'boolean') return value;
+    if (typeof value === 'number') return value !== 0 && !Number.isNaN(value);
+    if (typeof value === 'string') return value.length > 0;
+    return true;
+}
+
+/**
+ * Convert an evaluated value to the string GitHub would substitute into a template.
+ */
+export function toDisplayString(value: any): string {
+    if (value === null || value === undefined) return '';
+    if (typeof value === 'string') return value;
+    if (typeof value === 'boolean') return value ? 'true' : 'false';
+    if (typeof value === 'number') return formatNumber(value);
+    return JSON.stringify(value, null, 2);
+}
+
+function splitTemplate(text: string): Array<string | { expression: string }> {
+    const parts: Array<string | { expression: string }> = [];
+    let position = 0;
+
+    while (position < text.length) {
+        const start = text.indexOf('${{', position);
+        if (start === -1) {
+            parts.push(text.slice(position));
+            break;
+        }
+        if (start > position) {
+            parts.push(text.slice(position, start));
+        }
+
+        // Find the closing braces, ignoring any inside string literals
+        let end = -1;
+        let inString = false;
+        for (let i = start + 3; i < text.length; i++) {
+            if (text[i] === "'") {
+                inString = !inString;
+            } else if (!inString && text[i] === '}' && text[i + 1] === '}') {
+                end = i;
+                break;
+            }
+        }
+        if (end === -1) {
+            throw new ExpressionError(`Unclosed expression '${text.slice(start)}'`);
+        }
+
+        parts.push({ expression: text.slice(start + 3, end).trim() });
+        position = end + 2;
+    }
+
+    return parts;
+}
+
+function tokenize(expression: string): Token[] {
+    const tokens: Token[] = [];
+    let i = 0;
+
+    while (i < expression.length) {
+        const char = expression[i];
+
+        if (/\s/.test(char)) {
+            i++;
+            continue;
+        }
+
+        if (char === "'") {
+            let value = '';
+            i++;
+            while (true) {
+                if (i >= expression.length) {
+                    throw new ExpressionError('Unterminated string literal', expression);
+                }
+                if (expression[i] === "'") {
+                    if (expression[i + 1] === "'") {
+                        value += "'";
+                        i += 2;
+                        continue;
+                    }
+                    i++;
+                    break;
+                }
+                value += expression[i++];
+            }
+            tokens.push({ type: 'string', value });
+            continue;
+        }
+
+        const numberMatch = /^(?:0x[0-9a-f]+|[+-]?(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?)/i.exec(expression.slice(i));
+        if (numberMatch && (/\d/.test(char) || !isOperandEnd(tokens[tokens.length - 1]))) {
+            tokens.push({ type: 'number', value: Number(numberMatch[0]) });
+            i += numberMatch[0].length;
+            continue;
+        }
+
+        const identifierMatch = /^[a-z_][a-z0-9_-]*/i.exec(expression.slice(i));
+        if (identifierMatch) {
+            const word = identifierMatch[0];
+            if (word === 'true' || word === 'false') {
+                tokens.push({ type: 'keyword', value: word === 'true' });
+            } else if (word === 'null') {
+                tokens.push({ type: 'keyword', value: null });
+            } else if (word === 'NaN' || word === 'Infinity') {
+                tokens.push({ type: 'number', value: Number(word) });
+            } else {
+                tokens.push({ type: 'identifier', value: word });
+            }
+            i += word.length;
+            continue;
+        }
+
+        const operator = ['&&', '||', '==', '!=', '<=', '>='].find(op => expression.startsWith(op, i))
+            || (/[()[\].,!<>*]/.test(char) ? char : null);
+        if (operator) {
+            tokens.push({ type: 'operator', value: operator });
+            i += operator.length;
+            continue;
+        }
+
+        throw new ExpressionError(`Unexpected symbol '${char}'`, expression);
+    }
+
+    return tokens;
+}
+
+function isOperandEnd(token?: Token): boolean {
+    if (!token) return false;
+    if (token.type !== 'operator') return true;
+    return token.value === ')' || token.value === ']';
+}
+
+class ExpressionParser {
+    private position = 0;
+
+    constructor(private tokens: Token[], private expression: string) {}
+
+    parse(): ExpressionNode {
+        if (this.tokens.length === 0) {
+            throw new ExpressionError('Expected an expression', this.expression);
+        }
+        const node = this.parseOr();
+        if (this.position < this.tokens.length) {
+            throw new ExpressionError(`Unexpected token '${this.describe(this.tokens[this.position])}'`, this.expression);
+        }
+        return node;
+    }
+
+    private parseOr(): ExpressionNode {
+        let node = this.parseAnd();
+        while (this.matchOperator('||')) {
+            node = { kind: 'binary', operator: '||', left: node, right: this.parseAnd() };
+        }
+        return node;
+    }
+
+    private parseAnd(): ExpressionNode {
+        let node = this.parseEquality();
+        while (this.matchOperator('&&')) {
+            node = { kind: 'binary', operator: '&&', left: node, right: this.parseEquality() };
+        }
+        return node;
+    }
+
+    private parseEquality(): ExpressionNode {
+        let node = this.parseComparison();
+        let operator: string | null;
+        while ((operator = this.matchOperator('==', '!='))) {
+            node = { kind: 'binary', operator, left: node, right: this.parseComparison() };
+        }
+        return node;
+    }
+
+    private parseComparison(): ExpressionNode {
+        let node = this.parseUnary();
+        let operator: string | null;
+        while ((operator = this.matchOperator('<', '<=', '>', '>='))) {
+            node = { kind: 'binary', operator, left: node, right: this.parseUnary() };
+        }
+        return node;
+    }
+
+    private parseUnary(): ExpressionNode {
+        if (this.matchOperator('!')) {
+            return { kind: 'not', operand: this.parseUnary() };
+        }
+        return this.parsePostfix(this.parsePrimary());
+    }
+
+    private parsePrimary(): ExpressionNode {
+        const token = this.next();
+
+        if (token.type === 'number' || token.type === 'string' || token.type === 'keyword') {
+            return { kind: 'literal', value: token.value };
+        }
+
+        if (token.type === 'operator' && token.value === '(') {
+            const node = this.parseOr();
+            this.expectOperator(')');
+            return node;
+        }
+
+        if (token.type === 'identifier') {
+            if (this.matchOperator('(')) {
+                const args: ExpressionNode[] = [];
+                if (!this.matchOperator(')')) {
+                    do {
+                        args.push(this.parseOr());
+                    } while (this.matchOperator(','));
+                    this.expectOperator(')');
+                }
+                return { kind: 'call', name: token.value.toLowerCase(), args };
+            }
+            return { kind: 'named', name: token.value };
+        }
+
+        throw new ExpressionError(`Unexpected token '${this.describe(token)}'`, this.expression);
+    }
+
+    private parsePostfix(node: ExpressionNode): ExpressionNode {
+        while (true) {
+            if (this.matchOperator('.')) {
+                if (this.matchOperator('*')) {
+                    node = { kind: 'filter', object: node };
+                    continue;
+                }
+                const token = this.next();
+                if (token.type !== 'identifier' && token.type !== 'keyword') {
+                    throw new ExpressionError(`Expected a property name after '.'`, this.expression);
+                }
+                node = { kind: 'property', object: node, name: String(token.value) };
+            } else if (this.matchOperator('[')) {
+                if (this.matchOperator('*')) {
+                    this.expectOperator(']');
+                    node = { kind: 'filter', object: node };
+                    continue;
+                }
+                const index = this.parseOr();
+                this.expectOperator(']');
+                node = { kind: 'index', object: node, index };
+            } else {
+                return node;
+            }
+        }
+    }
+
+    private next(): Token {
+        const token = this.tokens[this.position++];
+        if (!token) {
+            throw new ExpressionError('Unexpected end of expression', this.expression);
+        }
+        return token;
+    }
+
+    private matchOperator(...operators: string[]): string | null {
+        const token = this.tokens[this.position];
+        if (token?.type === 'operator' && operators.includes(token.value)) {
+            this.position++;
+            return token.value;
+        }
+        return null;
+    }
+
+    private expectOperator(operator: string): void {
+        if (!this.matchOperator(operator)) {
+            const token = this.tokens[this.position];
+            throw new ExpressionError(`Expected '${operator}' but found ${token ? `'${this.describe(token)}'` : 'end of expression'}`, this.expression);
+        }
+    }
+
+    private describe(token: Token): string {
+        return token.type === 'string' ? `'${token.value}'` : String(token.value);
+    }
+}
+
+function evaluate(node: ExpressionNode, context: ExpressionContext, expression: string): any {
+    switch (node.kind) {
+        case 'literal':
+            return node.value;
+
+        case 'named': {
+            const key = findKey(context.contexts, node.name);
+            if (key === undefined) {
+                const available = Object.keys(context.contexts).join(', ');
+                throw new ExpressionError(`Unrecognized named-value: '${node.name}'. Available here: ${available || 'none'}`, expression);
+            }
+            return context.contexts[key];
+        }
+
+        case 'property':
+            return access(evaluate(node.object, context, expression), node.name);
+
+        case 'index': {
+            const object = evaluate(node.object, context, expression);
+            const index = evaluate(node.index, context, expression);
+            if (Array.isArray(object) && !isFiltered(object)) {
+                const position = toNumber(index);
+                return Number.isInteger(position) && object[position] !== undefined ? object[position] : null;
+            }
+            return access(object, toDisplayString(index));
+        }
+
+        case 'filter': {
+            const object = evaluate(node.object, context, expression);
+            let items: any[];
+            if (isFiltered(object)) {
+                items = object.flatMap((item: any) => filterItems(item));
+            } else {
+                items = filterItems(object);
+            }
+            return markFiltered(items);
+        }
+
+        case 'not':
+            return !isTruthy(evaluate(node.operand, context, expression));
+
+        case 'binary': {
+            const left = evaluate(node.left, context, expression);
+            if (node.operator === '&&') {
+                return isTruthy(left) ? evaluate(node.right, context, expression) : left;
+            }
+            if (node.operator === '||') {
+                return isTruthy(left) ? left : evaluate(node.right, context, expression);
+            }
+            const right = evaluate(node.right, context, expression);
+            return compare(node.operator, left, right);
+        }
+
+        case 'call':
+            return callFunction(node.name, node.args.map(arg => evaluate(arg, context, expression)), context, expression);
+    }
+}
+
+function filterItems(value: any): any[] {
+    if (Array.isArray(value)) return [...value];
+    if (value && typeof value === 'object') return Object.values(value);
+    return [];
+}
+
+function access(object: any, name: string): any {
+    if (isFiltered(object)) {
+        return markFiltered(object
+            .map((item: any) => access(item, name))
+            .filter((item: any) => item !== null && item !== undefined));
+    }
+    if (object === null || object === undefined || typeof object !== 'object' || Array.isArray(object)) {
+        return null;
+    }
+    const key = findKey(object, name);
+    return key === undefined || object[key] === undefined ? null : object[key];
+}
+
+/** Property names are matched case-insensitively, like on GitHub */
+function findKey(object: Record<string, any>, name: string): string | undefined {
+    if (Object.prototype.hasOwnProperty.call(object, name)) return name;
+    const lower = name.toLowerCase();
+    return Object.keys(object).find(key => key.toLowerCase() === lower);
+}
+
+function isFiltered(value: any): value is any[] {
+    return Array.isArray(value) && (value as any)[FILTERED] === true;
+}
+
+function markFiltered(items: any[]): any[] {
+    Object.defineProperty(items, FILTERED, { value: true, enumerable: false });
+    return items;
+}
+
+function compare(operator: string, left: any, right: any): boolean {
+    if (operator === '==') return looseEquals(left, right);
+    if (operator === '!=') return !looseEquals(left, right);
+
+    let a: any = left;
+    let b: any = right;
+    if (typeof a === 'string' && typeof b === 'string') {
+        a = a.toLowerCase();
+        b = b.toLowerCase();
+    } else {
+        a = toNumber(a);
+        b = toNumber(b);
+        if (Number.isNaN(a) || Number.isNaN(b)) return false;
+    }
+
+    switch (operator) {
+        case '<': return a < b;
+        case '<=': return a <= b;
+        case '>': return a > b;
+        case '>=': return a >= b;
+        default: return false;
+    }
+}
+
+function looseEquals(left: any, right: any): boolean {
+    left = left === undefined ? null : left;
+    right = right === undefined ? null : right;
+
+    if (typeof left === 'string' && typeof right === 'string') {
+        return left.toLowerCase() === right.toLowerCase();
+    }
+    if (typeof left === 'object' || typeof right === 'object') {
+        if (left === null || right === null) {
+            // null only equals null, false, 0 and the empty string
+            const other = left === null ? right : left;
+            return other === null || (typeof other !== 'object' && toNumber(other) === 0);
+        }
+        return left === right;
+    }
+    if (typeof left === typeof right) {
+        return left === right;
+    }
+    return toNumber(left) === toNumber(right);
+}
+
+function toNumber(value: any): number {
+    if (value === null || value === undefined) return 0;
+    if (typeof value === 'boolean') return value ? 1 : 0;
+    if (typeof value === 'number') return value;
+    if (typeof value === 'string') {
+        const trimmed = value.trim();
+        return trimmed === '' ? 0 : Number(trimmed);
+    }
+    return NaN;
+}
+
+function formatNumber(value: number): string {
+    if (Number.isInteger(value) && Math.abs(value) < 1e21) {
+        return value.toFixed(0);
+    }
+    return String(value);
+}
+
+function callFunction(name: string, args: any[], context: ExpressionContext, expression: string): any {
+    const status = context.status || 'success';
+    const expectArgs = (min: number, max: number = min) => {
+        if (args.length < min || args.length > max) {
+            throw new ExpressionError(`Function '${name}' expects ${min === max ? min : `${min} to ${max === Infinity ? 'any number of' : max}`} argument(s) but got ${args.length}`, expression);
+        }
+    };
+
+    switch (name) {
+        case 'success':
+            expectArgs(0);
+            return status === 'success';
+        case 'failure':
+            expectArgs(0);
+            return status === 'failure';
+        case 'always':
+            expectArgs(0);
+            return true;
+        case 'cancelled':
+            expectArgs(0);
+            return status === 'cancelled';
+
+        case 'contains': {
+            expectArgs(2);
+            const [search, item] = args;
+            if (Array.isArray(search)) {
+                return search.some(element => looseEquals(element, item));
+            }
+            return toDisplayString(search).toLowerCase().includes(toDisplayString(item).toLowerCase());
+        }
+        case 'startswith':
+            expectArgs(2);
+            return toDisplayString(args[0]).toLowerCase().startsWith(toDisplayString(args[1]).toLowerCase());
+        case 'endswith':
+            expectArgs(2);
+            return toDisplayString(args[0]).toLowerCase().endsWith(toDisplayString(args[1]).toLowerCase());
+
+        case 'format': {
+            expectArgs(1, Infinity);
+            const [template, ...values] = args;
+            return toDisplayString(template).replace(/\{\{|\}\}|\{(\d+)\}/g, (match, index) => {
+                if (match === '{{') return '{';
+                if (match === '}}') return '}';
+                const position = Number(index);
+                if (position >= values.length) {
+                    throw new ExpressionError(`Format index ${position} is out of range`, expression);
+                }
+                return toDisplayString(values[position]);
+            });
+        }
+        case 'join': {
+            expectArgs(1, 2);
+            const separator = args.length > 1 ? toDisplayString(args[1]) : ',';
+            if (Array.isArray(args[0])) {
+                return args[0].map(item => toDisplayString(item)).join(separator);
+            }
+            return toDisplayString(args[0]);
+        }
+        case 'tojson':
+            expectArgs(1);
+            return JSON.stringify(args[0] === undefined ? null : args[0], null, 2);
+        case 'fromjson':
+            expectArgs(1);
+            try {
+                return JSON.parse(toDisplayString(args[0]));
+            } catch (error) {
+                throw new ExpressionError(`fromJSON could not parse '${toDisplayString(args[0])}': ${error}`, expression);
+            }
+
+        case 'hashfiles': {
+            expectArgs(1, Infinity);
+            if (!context.workspace) {
+                throw new ExpressionError('hashFiles() is not available here', expression);
+            }
+            const files = findFiles(context.workspace, args.map(arg => toDisplayString(arg)));
+            if (files.length === 0) return '';
+
+            const hash = crypto.createHash('sha256');
+            for (const file of files) {
+                hash.update(crypto.createHash('sha256').update(fs.readFileSync(file)).digest());
+            }
+            return hash.digest('hex');
+        }
+
+        default:
+            throw new ExpressionError(`Unrecognized function: '${name}'`, expression);
+    }
+}
@@ -0,0 +1,112 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+export interface FileCommandPaths {
+    output: string;
+    env: string;
+    path: string;
+    summary: string;
+    state: string;
+}
+
+export interface FileCommandResults {
+    outputs: Record<string, string>;
+    env: Record<string, string>;
+    path: string[];
+    summary: string;
+    state: Record<string, string>;
+}
+
+/**
+ * Create the empty GITHUB_OUTPUT, GITHUB_ENV, GITHUB_PATH, GITHUB_STEP_SUMMARY
+ * and GITHUB_STATE files for a single step.
+ */
+export function createFileCommandFiles(directory: string): FileCommandPaths {
+    fs.mkdirSync(directory, { recursive: true });
+
+    const files: FileCommandPaths = {
+        output: path.join(directory, 'output'),
+        env: path.join(directory, 'env'),
+        path: path.join(directory, 'path'),
+        summary: path.join(directory, 'step_summary'),
+        state: path.join(directory, 'state')
+    };
+    for (const file of Object.values(files)) {
+        fs.writeFileSync(file, '');
+    }
+    return files;
+}
+
+/**
+ * Environment variables pointing a step at its command files
+ */
+export function fileCommandEnvironment(files: FileCommandPaths): Record<string, string> {
+    return {
+        GITHUB_OUTPUT: files.output,
+        GITHUB_ENV: files.env,
+        GITHUB_PATH: files.path,
+        GITHUB_STEP_SUMMARY: files.summary,
+        GITHUB_STATE: files.state
+    };
+}
+
+/**
+ * Read back everything a step wrote to its command files.
+ */
+export function readFileCommands(files: FileCommandPaths): FileCommandResults {
+    return {
+        outputs: parseKeyValueCommands(readIfExists(files.output)),
+        env: parseKeyValueCommands(readIfExists(files.env)),
+        path: readIfExists(files.path).split(/\r?\n/).map(line => line.trim()).filter(line => line.length > 0),
+        summary: readIfExists(files.summary),
+        state: parseKeyValueCommands(readIfExists(files.state))
+    };
+}
+
+/**
+ * Parse `name=value` lines and `name<<DELIMITER` heredoc blocks.
+ */
+export function parseKeyValueCommands(content: string): Record<string, string> {
+    const values: Record<string, string> = {};
+    const lines = content.split(/\r?\n/);
+
+    for (let i = 0; i < lines.length; i++) {
+        const line = lines[i];
+        if (line.trim() === '') continue;
+
+        const heredocIndex = line.indexOf('<<');
+        const equalsIndex = line.indexOf('=');
+
+        if (heredocIndex > 0 && (equalsIndex === -1 || heredocIndex < equalsIndex)) {
+            const name = line.slice(0, heredocIndex);
+            const delimiter = line.slice(heredocIndex + 2);
+            if (!delimiter) {
+                throw new Error(`Missing heredoc delimiter for '${name}'`);
+            }
+
+            const valueLines: string[] = [];
+            let closed = false;
+            for (i = i + 1; i < lines.length; i++) {
+                if (lines[i] === delimiter) {
+                    closed = true;
+                    break;
+                }
+                valueLines.push(lines[i]);
+            }
+            if (!closed) {
+                throw new Error(`Matching delimiter '${delimiter}' not found for '${name}'`);
+            }
+            values[name] = valueLines.join('\n');
+        } else if (equalsIndex > 0) {
+            values[line.slice(0, equalsIndex)] = line.slice(equalsIndex + 1);
+        } else {
+            throw new Error(`Invalid format '${line}'`);
+        }
+    }
+
+    return values;
+}
+
+function readIfExists(file: string): string {
+    return fs.existsSync(file) ? fs.readFileSync(file, 'utf8') : '';
+}
@@ -0,0 +1,99 @@
+export interface JobGraphNode {
+    needs?: string | string[];
+}
+
+export interface JobGraph {
+    /** Job ids in an order where every job comes after the jobs it needs */
+    order: string[];
+    /** Direct dependencies of every job, normalized to an array */
+    needs: Record<string, string[]>;
+    /** Problems that make the graph unschedulable (unknown jobs, cycles) */
+    errors: string[];
+}
+
+/**
+ * Normalize the `needs` value of a job to an array of distinct job ids
+ */
+export function normalizeNeeds(needs?: string | string[]): string[] {
+    if (!needs) return [];
+    return Array.isArray(needs) ? [...new Set(needs.map(String))] : [String(needs)];
+}
+
+/**
+ * Build the dependency graph for a set of jobs and sort it topologically.
+ * Jobs without ordering constraints keep their declaration order. `kind` names
+ * the nodes in errors, so the graph also works for Azure stages.
+ */
+export function buildJobGraph(jobs: Record<string, JobGraphNode>, kind: string = 'Job'): JobGraph {
+    const jobIds = Object.keys(jobs);
+    const needs: Record<string, string[]> = {};
+    const errors: string[] = [];
+
+    for (const jobId of jobIds) {
+        needs[jobId] = normalizeNeeds(jobs[jobId]?.needs);
+        for (const dependency of needs[jobId]) {
+            if (dependency === jobId) {
+                errors.push(`${kind} '${jobId}' depends on itself`);
+            } else if (!(dependency in jobs)) {
+                errors.push(`${kind} '${jobId}' depends on unknown ${kind.toLowerCase()} '${dependency}'`);
+            }
+        }
+    }
+
+    if (errors.length > 0) {
+        return { order: [], needs, errors };
+    }
+
+    // Kahn's algorithm, always picking the earliest declared job that is ready
+    const remaining = new Map(jobIds.map(jobId => [jobId, needs[jobId].length]));
+    const order: string[] = [];
+
+    while (remaining.size > 0) {
+        const next = jobIds.find(jobId => remaining.get(jobId) === 0);
+        if (!next) break;
+
+        remaining.delete(next);
+        order.push(next);
+        for (const jobId of remaining.keys()) {
+            if (needs[jobId].includes(next)) {
+                remaining.set(jobId, remaining.get(jobId)! - 1);
+            }
+        }
+    }
+
+    if (remaining.size > 0) {
+        const cycle = findCycle([...remaining.keys()], needs);
+        errors.push(`Dependency cycle detected: ${cycle.join(' → ')}`);
+    }
+
+    return { order, needs, errors };
+}
+
+function findCycle(candidates: string[], needs: Record<string, string[]>): string[] {
+    const visiting: string[] = [];
+    const visited = new Set<string>();
+
+    const visit = (jobId: string): string[] | null => {
+        const index = visiting.indexOf(jobId);
+        if (index !== -1) {
+            return [...visiting.slice(index), jobId];
+        }
+        if (visited.has(jobId)) return null;
+
+        visiting.push(jobId);
+        for (const dependency of needs[jobId]) {
+            const cycle = visit(dependency);
+            if (cycle) return cycle;
+        }
+        visiting.pop();
+        visited.add(jobId);
+        return null;
+    };
+
+    for (const jobId of candidates) {
+        const cycle = visit(jobId);
+        if (cycle) return cycle;
+    }
+
+    return candidates;
+}
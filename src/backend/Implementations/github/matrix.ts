@@ -0,0 +1,89 @@
+import { toDisplayString } from './expressions';
+
+export type MatrixCombination = Record<string, any>;
+
+/**
+ * Expand a `strategy.matrix` definition into its combinations, applying
+ * `exclude` and then `include` the way GitHub does.
+ */
+export function expandMatrix(matrix: Record<string, any> | undefined): MatrixCombination[] {
+    if (!matrix || typeof matrix !== 'object' || Array.isArray(matrix)) {
+        return [{}];
+    }
+
+    const axes = Object.entries(matrix).filter(([key]) => key !== 'include' && key !== 'exclude');
+    for (const [key, values] of axes) {
+        if (!Array.isArray(values)) {
+            throw new Error(`Matrix axis '${key}' must be a list of values`);
+        }
+    }
+
+    // Cartesian product of all axes
+    let combinations: MatrixCombination[] = axes.length > 0 ? [{}] : [];
+    for (const [key, values] of axes) {
+        const next: MatrixCombination[] = [];
+        for (const combination of combinations) {
+            for (const value of values as any[]) {
+                next.push({ ...combination, [key]: value });
+            }
+        }
+        combinations = next;
+    }
+
+    const excludes = toList(matrix.exclude);
+    combinations = combinations.filter(combination =>
+        !excludes.some(exclude => Object.entries(exclude).every(([key, value]) => matches(combination[key], value))));
+
+    // Includes extend every combination of the product they don't conflict with, or become
+    // new combinations. Combinations added by an include are never extended by later ones.
+    const axisNames = axes.map(([key]) => key);
+    const originals = combinations.map(combination => ({ ...combination }));
+    const productSize = axisNames.length > 0 ? combinations.length : 0;
+    for (const include of toList(matrix.include)) {
+        let extended = false;
+
+        combinations.slice(0, productSize).forEach((combination, index) => {
+            const original = originals[index];
+            const compatible = Object.entries(include).every(([key, value]) =>
+                !axisNames.includes(key) || matches(original[key], value));
+            if (compatible) {
+                Object.assign(combination, include);
+                extended = true;
+            }
+        });
+
+        if (!extended) {
+            combinations.push({ ...include });
+        }
+    }
+
+    return combinations.length > 0 ? combinations : [{}];
+}
+
+/**
+ * Keep only the combinations whose values match every filter that applies to them.
+ * Filters on keys a combination doesn't have are ignored.
+ */
+export function filterMatrix(combinations: MatrixCombination[], filters: Record<string, string>): MatrixCombination[] {
+    return combinations.filter(combination =>
+        Object.entries(filters).every(([key, value]) =>
+            !(key in combination) || toDisplayString(combination[key]) === value));
+}
+
+/**
+ * Name a matrix instance the way GitHub shows it, e.g. `build (20, ubuntu-latest)`.
+ */
+export function describeCombination(jobName: string, combination: MatrixCombination): string {
+    const values = Object.values(combination).map(value =>
+        typeof value === 'object' && value !== null ? Object.values(value).map(toDisplayString).join(', ') : toDisplayString(value));
+    return values.length > 0 ? `${jobName} (${values.join(', ')})` : jobName;
+}
+
+function toList(value: any): Record<string, any>[] {
+    if (!value) return [];
+    return (Array.isArray(value) ? value : [value]).filter(item => item && typeof item === 'object');
+}
+
+function matches(actual: any, expected: any): boolean {
+    return JSON.stringify(actual) === JSON.stringify(expected);
+}
@@ -0,0 +1,116 @@
+export interface WorkflowCallInput {
+    description?: string;
+    required?: boolean;
+    type?: 'string' | 'number' | 'boolean';
+    default?: any;
+}
+
+export interface WorkflowCallTrigger {
+    inputs?: Record<string, WorkflowCallInput>;
+    secrets?: Record<string, { description?: string; required?: boolean }>;
+    outputs?: Record<string, { description?: string; value: string }>;
+}
+
+export interface BindingResult<T> {
+    values: Record<string, T>;
+    errors: string[];
+}
+
+/**
+ * Get the `on.workflow_call` section of a workflow, or null when the workflow
+ * can't be called from another workflow.
+ */
+export function getWorkflowCallTrigger(on: any): WorkflowCallTrigger | null {
+    if (on === 'workflow_call') return {};
+    if (Array.isArray(on)) return on.includes('workflow_call') ? {} : null;
+    if (on && typeof on === 'object' && 'workflow_call' in on) {
+        return on.workflow_call || {};
+    }
+    return null;
+}
+
+/**
+ * Validate the caller's `with:` against the declared inputs, applying defaults and types.
+ */
+export function bindWorkflowCallInputs(trigger: WorkflowCallTrigger, provided: Record<string, any> = {}): BindingResult<any> {
+    const declared = trigger.inputs || {};
+    const values: Record<string, any> = {};
+    const errors: string[] = [];
+
+    for (const name of Object.keys(provided)) {
+        if (!(name in declared)) {
+            errors.push(`Invalid input, '${name}' is not defined in the referenced workflow`);
+        }
+    }
+
+    for (const [name, input] of Object.entries(declared)) {
+        const type = input?.type || 'string';
+        let value = name in provided ? provided[name] : input?.default;
+
+        if (value === undefined || value === null) {
+            if (input?.required) {
+                errors.push(`Input '${name}' is required, but not provided while calling`);
+            }
+            values[name] = type === 'boolean' ? false : type === 'number' ? 0 : '';
+            continue;
+        }
+
+        if (type === 'boolean') {
+            if (value === 'true' || value === 'false') value = value === 'true';
+            if (typeof value !== 'boolean') {
+                errors.push(`Input '${name}' expects a boolean but got '${value}'`);
+            }
+        } else if (type === 'number') {
+            if (typeof value === 'string' && value.trim() !== '' && !Number.isNaN(Number(value))) value = Number(value);
+            if (typeof value !== 'number') {
+                errors.push(`Input '${name}' expects a number but got '${value}'`);
+            }
+        } else if (typeof value === 'object') {
+            errors.push(`Input '${name}' expects a string but got an object`);
+        } else {
+            value = String(value);
+        }
+
+        values[name] = value;
+    }
+
+    return { values, errors };
+}
+
+/**
+ * Resolve the secrets passed to a reusable workflow: `inherit` passes every secret of
+ * the caller, otherwise only the mapped secrets are available.
+ */
+export function bindWorkflowCallSecrets(
+    trigger: WorkflowCallTrigger,
+    provided: 'inherit' | Record<string, any> | undefined,
+    callerSecrets: Record<string, string>
+): BindingResult<string> {
+    const declared = trigger.secrets || {};
+    const errors: string[] = [];
+    let values: Record<string, string> = {};
+
+    if (provided === 'inherit') {
+        values = { ...callerSecrets };
+    } else {
+        for (const [name, value] of Object.entries(provided || {})) {
+            if (!(name in declared)) {
+                errors.push(`Invalid secret, '${name}' is not defined in the referenced workflow`);
+            }
+            values[name] = value === null || value === undefined ? '' : String(value);
+        }
+    }
+
+    for (const [name, secret] of Object.entries(declared)) {
+        if (secret?.required && !values[name]) {
+            errors.push(`Secret '${name}' is required, but not provided while calling`);
+        }
+    }
+
+    // github.token is always available to called workflows
+    if (callerSecrets.GITHUB_TOKEN && !values.GITHUB_TOKEN) {
+        values.GITHUB_TOKEN = callerSecrets.GITHUB_TOKEN;
+    }
+
+    return { values, errors };
+}
@@ -0,0 +1,141 @@
+import { execSync } from 'child_process';
+
+export interface ShellSpec {
+    /** Name shown in logs: bash, sh, python, pwsh, powershell, cmd or the custom template */
+    name: string;
+    /** Command template where {0} is replaced by the script path */
+    template: string;
+    /** Extension of the temporary script file */
+    extension: string;
+}
+
+/**
+ * The shells GitHub documents for `run:` steps, with the exact flags it uses
+ */
+const KNOWN_SHELLS: Record<string, Omit<ShellSpec, 'name'>> = {
+    bash: { template: 'bash --noprofile --norc -eo pipefail {0}', extension: '.sh' },
+    sh: { template: 'sh -e {0}', extension: '.sh' },
+    python: { template: 'python {0}', extension: '.py' },
+    pwsh: { template: 'pwsh -command ". \'{0}\'"', extension: '.ps1' },
+    powershell: { template: 'powershell -command ". \'{0}\'"', extension: '.ps1' },
+    cmd: { template: '%ComSpec% /D /E:ON /V:OFF /S /C "CALL "{0}""', extension: '.cmd' }
+};
+
+const availability = new Map<string, boolean>();
+
+/**
+ * Resolve the `shell:` of a step. Without one GitHub uses `bash -e {0}` (falling back
+ * to sh) on Linux and macOS, and pwsh on Windows. `isAvailable` checks commands in the
+ * environment the script runs in, which is a job container rather than the host for
+ * container jobs.
+ */
+export function resolveShell(shell: string | undefined, isAvailable: (command: string) => boolean = isCommandAvailable): ShellSpec {
+    if (!shell) {
+        if (process.platform === 'win32' && isAvailable === isCommandAvailable) {
+            return { name: 'pwsh', ...KNOWN_SHELLS.pwsh };
+        }
+        if (isAvailable('bash')) {
+            return { name: 'bash', template: 'bash -e {0}', extension: '.sh' };
+        }
+        return { name: 'sh', ...KNOWN_SHELLS.sh };
+    }
+
+    const name = shell.trim().toLowerCase();
+    const known = KNOWN_SHELLS[name];
+    if (name === 'python' && !isAvailable('python') && isAvailable('python3')) {
+        // Many systems only ship python3
+        return { name, template: 'python3 {0}', extension: '.py' };
+    }
+    if (known) {
+        return { name, ...known };
+    }
+
+    if (!shell.includes('{0}')) {
+        throw new Error(`Custom shell '${shell}' must contain the '{0}' placeholder for the script path`);
+    }
+    return { name: shell, template: shell, extension: '' };
+}
+
+/**
+ * Wrap the script the way GitHub does for shells that need it
+ */
+export function prepareScript(spec: ShellSpec, script: string): string {
+    if (spec.name === 'pwsh' || spec.name === 'powershell') {
+        return `$ErrorActionPreference = 'stop'\n${script}\nif ((Test-Path -LiteralPath variable:\\LASTEXITCODE)) { exit $LASTEXITCODE }`;
+    }
+    if (spec.name === 'cmd') {
+        return script.replace(/\r?\n/g, '\r\n');
+    }
+    return script;
+}
+
+/**
+ * Turn a shell template into the executable and arguments for a script file
+ */
+export function buildShellCommand(spec: ShellSpec, scriptPath: string): { command: string; args: string[] } {
+    const template = spec.template.replace(/%ComSpec%/gi, process.env.ComSpec || 'cmd.exe');
+    const parts = splitCommandLine(template).map(part => part.split('{0}').join(scriptPath));
+    return { command: parts[0], args: parts.slice(1) };
+}
+
+/**
+ * The executable a shell spec runs, used to check that it is installed
+ */
+export function shellExecutable(spec: ShellSpec): string {
+    const template = spec.template.replace(/%ComSpec%/gi, process.env.ComSpec || 'cmd.exe');
+    return splitCommandLine(template)[0];
+}
+
+export function isCommandAvailable(command: string): boolean {
+    if (!availability.has(command)) {
+        try {
+            const lookup = process.platform === 'win32' ? `where "${command}"` : `command -v "${command}"`;
+            execSync(lookup, { stdio: 'ignore' });
+            availability.set(command, true);
+        } catch (error) {
+            availability.set(command, false);
+        }
+    }
+    return availability.get(command)!;
+}
+
+/**
+ * Split a command line on whitespace, keeping quoted sections together.
+ * The outermost quotes of a section are removed, nested quotes are kept.
+ */
+export function splitCommandLine(commandLine: string): string[] {
+    const parts: string[] = [];
+    let current = '';
+    let quote: string | null = null;
+    let inPart = false;
+
+    for (let i = 0; i < commandLine.length; i++) {
+        const char = commandLine[i];
+
+        if (quote) {
+            // A quote only closes the section when followed by whitespace or the end
+            if (char === quote && (i + 1 === commandLine.length || /\s/.test(commandLine[i + 1]))) {
+                quote = null;
+            } else {
+                current += char;
+            }
+        } else if (char === '"' || char === "'") {
+            quote = char;
+            inPart = true;
+        } else if (/\s/.test(char)) {
+            if (inPart) {
+                parts.push(current);
+                current = '';
+                inPart = false;
+            }
+        } else {
+            current += char;
+            inPart = true;
+        }
+    }
+
+    if (inPart) {
+        parts.push(current);
+    }
+    return parts;
+}
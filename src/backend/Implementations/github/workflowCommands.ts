@@ -0,0 +1,239 @@
+import chalk from 'chalk';
+
+export type AnnotationLevel = 'error' | 'warning' | 'notice';
+
+export interface Annotation {
+    level: AnnotationLevel;
+    message: string;
+    title?: string;
+    file?: string;
+    line?: string;
+    endLine?: string;
+    col?: string;
+    endColumn?: string;
+}
+
+export interface WorkflowCommand {
+    name: string;
+    properties: Record<string, string>;
+    value: string;
+}
+
+/** A folded `::group::` and the lines printed inside it */
+interface OutputGroup {
+    title: string;
+    lines: string[];
+}
+
+/**
+ * Replaces registered secrets with *** in any text. Shared by every step of a run,
+ * so a value masked by one step stays masked in all later output.
+ */
+export class SecretMasker {
+    private secrets: string[] = [];
+
+    add(secret: string): void {
+        // Multi-line secrets are masked line by line, like on GitHub
+        for (const value of [secret, ...secret.split(/\r?\n/)]) {
+            const trimmed = value.trim();
+            if (trimmed.length > 0 && !this.secrets.includes(trimmed)) {
+                this.secrets.push(trimmed);
+            }
+        }
+        // Longer secrets first so a secret containing another is masked whole
+        this.secrets.sort((a, b) => b.length - a.length);
+    }
+
+    mask(text: string): string {
+        let masked = text;
+        for (const secret of this.secrets) {
+            masked = masked.split(secret).join('***');
+        }
+        return masked;
+    }
+}
+
+/**
+ * Parse a `::name key=value,key=value::message` line. Returns null for ordinary output.
+ */
+export function parseWorkflowCommand(line: string): WorkflowCommand | null {
+    const match = /^\s*::([A-Za-z0-9_-]+)( [^:]*)?::(.*)$/.exec(line);
+    if (!match) return null;
+
+    const properties: Record<string, string> = {};
+    for (const pair of (match[2] || '').trim().split(',')) {
+        const separator = pair.indexOf('=');
+        if (separator > 0) {
+            properties[pair.slice(0, separator).trim()] = unescapeProperty(pair.slice(separator + 1));
+        }
+    }
+
+    return { name: match[1].toLowerCase(), properties, value: unescapeData(match[3]) };
+}
+
+/**
+ * Processes the stdout of a step: folds groups, registers masks, collects annotations
+ * and hides debug messages unless verbose. Lines are passed to `stream` as soon as they
+ * are complete, and kept so the whole output can be rendered once the step has finished.
+ */
+export class WorkflowCommandProcessor {
+    readonly annotations: Annotation[] = [];
+    private entries: Array<string | OutputGroup> = [];
+    private group: OutputGroup | null = null;
+    private stopToken: string | null = null;
+    private buffer = '';
+
+    constructor(
+        private masker: SecretMasker,
+        private verbose: boolean,
+        private stream?: (line: string) => void
+    ) {}
+
+    /**
+     * Feed a chunk of output, which may end in the middle of a line
+     */
+    write(chunk: string): void {
+        this.buffer += chunk;
+        const lines = this.buffer.split(/\r?\n/);
+        this.buffer = lines.pop() || '';
+        for (const line of lines) {
+            this.processLine(line);
+        }
+    }
+
+    /**
+     * Process the last line when the output didn't end with a newline
+     */
+    flush(): void {
+        if (this.buffer) {
+            this.processLine(this.buffer);
+            this.buffer = '';
+        }
+        this.group = null;
+    }
+
+    /**
+     * The processed output. Groups are folded to their title unless `expandGroups` is set.
+     */
+    render(expandGroups: boolean): string[] {
+        const lines: string[] = [];
+        for (const entry of this.entries) {
+            if (typeof entry === 'string') {
+                lines.push(entry);
+            } else if (expandGroups) {
+                lines.push(chalk.bold(`▾ ${entry.title}`), ...entry.lines.map(line => `  ${line}`));
+            } else {
+                lines.push(chalk.bold(`▸ ${entry.title}`) + chalk.gray(` (${entry.lines.length} line${entry.lines.length === 1 ? '' : 's'})`));
+            }
+        }
+        return lines;
+    }
+
+    private processLine(line: string): void {
+        if (this.stopToken !== null) {
+            if (line.trim() === `::${this.stopToken}::`) {
+                this.stopToken = null;
+            } else {
+                this.output(line);
+            }
+            return;
+        }
+
+        const command = parseWorkflowCommand(line);
+        if (!command) {
+            this.output(line);
+            return;
+        }
+
+        switch (command.name) {
+            case 'group':
+                this.group = { title: this.masker.mask(command.value), lines: [] };
+                this.entries.push(this.group);
+                this.stream?.(chalk.bold(`▾ ${this.group.title}`));
+                break;
+            case 'endgroup':
+                this.group = null;
+                break;
+            case 'add-mask':
+                this.masker.add(command.value);
+                break;
+            case 'stop-commands':
+                this.stopToken = command.value;
+                break;
+            case 'debug':
+                if (this.verbose) {
+                    this.output(chalk.gray(`[debug] ${command.value}`));
+                }
+                break;
+            case 'error':
+            case 'warning':
+            case 'notice':
+                this.annotate(command.name, command);
+                break;
+            default:
+                // Unknown commands are printed as they are, like on GitHub
+                this.output(line);
+        }
+    }
+
+    private annotate(level: AnnotationLevel, command: WorkflowCommand): void {
+        const properties = command.properties;
+        const annotation: Annotation = {
+            level: level,
+            message: this.masker.mask(command.value),
+            title: properties.title,
+            file: properties.file,
+            line: properties.line,
+            endLine: properties.endLine,
+            col: properties.col,
+            endColumn: properties.endColumn
+        };
+        this.annotations.push(annotation);
+        this.output(formatAnnotation(annotation));
+    }
+
+    private output(line: string): void {
+        const masked = this.masker.mask(line);
+        if (this.group) {
+            this.group.lines.push(masked);
+            this.stream?.(`  ${masked}`);
+        } else {
+            this.entries.push(masked);
+            this.stream?.(masked);
+        }
+    }
+}
+
+/**
+ * Format an annotation the way it is listed in the log and the end-of-run summary
+ */
+export function formatAnnotation(annotation: Annotation): string {
+    const icons: Record<AnnotationLevel, string> = { error: '❌', warning: '⚠️ ', notice: 'ℹ️ ' };
+    const colors: Record<AnnotationLevel, (text: string) => string> = { error: chalk.red, warning: chalk.yellow, notice: chalk.blue };
+
+    let location = '';
+    if (annotation.file) {
+        location = annotation.file;
+        if (annotation.line) {
+            location += `:${annotation.line}`;
+            if (annotation.col) location += `:${annotation.col}`;
+        }
+    }
+
+    const title = annotation.title ? `${annotation.title}: ` : '';
+    const suffix = location ? chalk.gray(` (${location})`) : '';
+    return `${icons[annotation.level]} ${colors[annotation.level](`${title}${annotation.message}`)}${suffix}`;
+}
+
+function unescapeData(value: string): string {
+    return value.replace(/%0D/gi, '\r').replace(/%0A/gi, '\n').replace(/%25/g, '%');
+}
+
+function unescapeProperty(value: string): string {
+    return value
+        .replace(/%0D/gi, '\r')
+        .replace(/%0A/gi, '\n')
+        .replace(/%3A/gi, ':')
+        .replace(/%2C/gi, ',')
+        .replace(/%25/g, '%');
+}
@@ -1,27 +1,64 @@
-import { Pipeline } from "../pipelineInterface";
+import { Pipeline, RunnerOptions } from "../pipelineInterface";
 import * as yaml from 'js-yaml';
 import * as fs from 'fs';
 import * as path from 'path';
-import { execSync } from 'child_process';
+import * as os from 'os';
+import * as crypto from 'crypto';
+import { execSync, spawn } from 'child_process';
 import chalk from 'chalk';
-import inquirer from 'inquirer';
+import inquirer, { DistinctQuestion } from 'inquirer';
+import { ArtifactStore, commonDirectory, formatArtifactSummary, formatSize } from '../artifactStore';
+import { findFiles, globToRegExp, patternBase } from '../fileGlob';
+import { buildJobGraph } from './github/jobGraph';
+import { MatrixCombination, describeCombination, expandMatrix, filterMatrix } from './github/matrix';
+import { ActionDefinition, bindActionInputs, loadActionDefinition } from './github/actionDefinition';
+import { defaultActionStore, inputEnvironmentName, parseActionReference, resolveActionDirectory } from './github/actionStore';
+import { ContainerCli, ContainerDefinition, DEFAULT_CONTAINER_PATH, normalizeContainer } from './github/containers';
+import { cacheVersion, defaultCacheStore, findCacheEntry, parseCachePaths, restoreCacheEntry, saveCacheEntry } from './github/cache';
+import { buildShellCommand, isCommandAvailable, prepareScript, resolveShell, shellExecutable } from './github/shells';
+import { bindWorkflowCallInputs, bindWorkflowCallSecrets, getWorkflowCallTrigger } from './github/reusableWorkflow';
+import { DispatchInput, buildEventPayload, checkEventTrigger, coerceDispatchInput, getWorkflowTriggers, resolveEventContext } from './github/events';
+import { Annotation, SecretMasker, WorkflowCommandProcessor, formatAnnotation } from './github/workflowCommands';
+import { FileCommandPaths, createFileCommandFiles, fileCommandEnvironment, readFileCommands } from './github/fileCommands';
+import { ExpressionContext, JobStatus, evaluateCondition, evaluateExpression, interpolate, interpolateString, interpolateValue, toDisplayString } from './github/expressions';
 
 interface GitHubWorkflow {
     name?: string;
     on: any;
     env?: Record<string, string>;
+    defaults?: GitHubDefaults;
     jobs: Record<string, GitHubJob>;
 }
 
+interface GitHubDefaults {
+    run?: {
+        shell?: string;
+        'working-directory'?: string;
+    };
+}
+
 interface GitHubJob {
     name?: string;
     'runs-on': string;
     env?: Record<string, string>;
     steps: GitHubStep[];
+    uses?: string;
+    with?: Record<string, any>;
+    secrets?: 'inherit' | Record<string, string>;
     needs?: string | string[];
     if?: string;
-    strategy?: any;
+    strategy?: {
+        matrix?: Record<string, any> | string;
+        'fail-fast'?: boolean | string;
+        'max-parallel'?: number | string;
+    };
     'timeout-minutes'?: number;
+    'continue-on-error'?: boolean | string;
+    environment?: string | { name: string; url?: string };
+    container?: string | ContainerDefinition;
+    services?: Record<string, string | ContainerDefinition>;
+    outputs?: Record<string, string>;
+    defaults?: GitHubDefaults;
 }
 
 interface GitHubStep {
@@ -34,14 +71,176 @@ interface GitHubStep {
     id?: string;
     'working-directory'?: string;
     shell?: string;
+    'continue-on-error'?: boolean | string;
+}
+
+type JobResult = 'success' | 'failure' | 'skipped' | 'cancelled';
+
+const MAX_ACTION_DEPTH = 10;
+const MAX_WORKFLOW_DEPTH = 10;
+/** Actions that are always simulated, even when they are in the local action store */
+const SIMULATED_ACTIONS = ['actions/checkout', 'actions/setup-node', 'actions/setup-python'];
+
+interface StepContext {
+    outputs: Record<string, string>;
+    outcome: JobResult;
+    conclusion: JobResult;
+}
+
+/** Result of a step as listed in the job summary */
+interface StepResult {
+    name: string;
+    outcome: JobResult;
+    conclusion: JobResult;
+}
+
+interface NeedsContext {
+    outputs: Record<string, string>;
+    result: JobResult;
+}
+
+/** An environment from .localpipe/environments.yml */
+interface EnvironmentConfig {
+    /** Deployments to protected environments have to be approved */
+    protected: boolean;
+    url?: string;
+    vars: Record<string, string>;
+    secrets: Record<string, string>;
+}
+
+/** The deployment environment a job targets, with the values it adds to the contexts */
+interface JobEnvironment {
+    name: string;
+    url: string;
+    vars: Record<string, string>;
+    secrets: Record<string, string>;
+}
+
+/** Containers started for a job with `container:` or `services:` */
+interface JobContainers {
+    network: string;
+    /** The job container, when steps run inside one */
+    job?: { id: string; hasBash: boolean };
+    services: Record<string, { id: string; ports: Record<string, string> }>;
+    /** Everything that was started, removed again when the job ends */
+    started: string[];
+}
+
+/** Values that differ between the called workflow and the reusable workflows it calls */
+interface WorkflowScope {
+    env: Record<string, string>;
+    defaults: GitHubDefaults;
+    inputs: Record<string, any>;
+    secrets: Record<string, string>;
+    /** Prefix for job names of nested workflows, e.g. 'call-build / ' */
+    prefix: string;
+    depth: number;
+}
+
+/** State of a single job while it runs, exposed to expressions through the contexts */
+interface JobRun {
+    id: string;
+    /**
+     * Unique within the run, unlike the id: jobs of reusable workflows can share ids with
+     * each other and with the caller. Names the job's command file directory.
+     */
+    key: string;
+    name: string;
+    job: GitHubJob;
+    workflow: WorkflowScope;
+    env: Record<string, string>;
+    steps: Record<string, StepContext>;
+    needs: Record<string, NeedsContext>;
+    matrix: Record<string, any>;
+    strategy: Record<string, any>;
+    outputs: Record<string, string>;
+    /** Directories added through GITHUB_PATH, most recent first */
+    path: string[];
+    /** Inputs of the composite action or reusable workflow being run, if any */
+    inputs?: Record<string, any>;
+    /** Step ids of the enclosing composite actions, outermost first */
+    scope: string[];
+    /** The job (or enclosing composite action) a composite action was called from */
+    parent?: JobRun;
+    /** Directory of the composite action being run, exposed as github.action_path */
+    actionPath?: string;
+    /** Values saved through GITHUB_STATE, by step, for the pre/main/post phases of actions */
+    state: Record<string, Record<string, string>>;
+    /** Post-job steps queued by actions, run in reverse order after the last step */
+    post: PostStep[];
+    /** Results of the steps and post steps that belong to this job (or composite action) */
+    results: StepResult[];
+    /** Command files of the step that is currently running */
+    commandFiles?: FileCommandPaths;
+    status: JobStatus;
+    /** Outcomes of the jobs of a called reusable workflow */
+    nested?: Record<string, JobOutcome>;
+    /** Shared by all matrix instances of a job so fail-fast can stop the others */
+    cancellation?: { cancelled: boolean };
+    environment?: JobEnvironment;
+    containers?: JobContainers;
+}
+
+interface PostStep {
+    name: string;
+    condition: string | boolean;
+    execute: () => Promise<boolean>;
+}
+
+/** Result of a single job instance as listed in the job summary */
+interface JobInstanceResult {
+    name: string;
+    result: JobResult;
+    /** The job failed, but `continue-on-error` kept the workflow from failing */
+    continuedOnError?: boolean;
+    environment?: { name: string; url: string };
+    steps: StepResult[];
+}
+
+/** Combined result of all instances of a job, used for `needs` and the summary */
+interface JobOutcome {
+    result: JobResult;
+    outputs: Record<string, string>;
+    instances: JobInstanceResult[];
+}
+
+interface ProcessResult {
+    status: number | null;
+    /** Processed stdout, with workflow commands applied */
+    output: WorkflowCommandProcessor;
+    stderr: string;
 }
 
 export class GitHubActionsRunner implements Pipeline {
     private verbose: boolean = false;
+    private options: RunnerOptions;
+    private actionStore: string;
+    private cacheStore: string;
+    private containerCli: ContainerCli;
     private workingDirectory: string = '';
+    private githubContext: Record<string, any> = {};
+    private runnerContext: Record<string, any> = {};
+    private vars: Record<string, string> = {};
+    private secrets: Record<string, string> = {};
+    private environments: Record<string, EnvironmentConfig> = {};
+    /** Approval prompts of jobs running side by side are asked one at a time */
+    private approvals: Promise<unknown> = Promise.resolve();
+    private inputs: Record<string, any> = {};
+    private runDirectory: string = '';
+    private jobRunCount: number = 0;
+    private stepSummaries: Array<{ job: string; content: string }> = [];
+    private masker: SecretMasker = new SecretMasker();
+    private artifacts!: ArtifactStore;
+    private annotations: Array<Annotation & { job: string }> = [];
 
-    constructor(verbose: boolean = false) {
+    constructor(verbose: boolean = false, options: RunnerOptions = {}) {
         this.verbose = verbose;
+        this.options = options;
+        this.actionStore = options.actionsDir ? path.resolve(options.actionsDir) : defaultActionStore();
+        this.cacheStore = options.cacheDir ? path.resolve(options.cacheDir) : defaultCacheStore();
+        // Prefer docker, but use podman when it is the only CLI installed
+        this.containerCli = new ContainerCli(options.containerCli
+            || (!isCommandAvailable('docker') && isCommandAvailable('podman') ? 'podman' : 'docker'));
     }
 
     async execute(inputPath: string, workflow?: string): Promise<Boolean | undefined> {
@@ -79,10 +278,7 @@ export class GitHubActionsRunner implements Pipeline {
                 return false;
             }
 
-            this.workingDirectory = path.dirname(inputPath);
-            if (!path.isAbsolute(this.workingDirectory)) {
-                this.workingDirectory = path.resolve(this.workingDirectory);
-            }
+            this.workingDirectory = this.resolveWorkspace(workflowPath);
 
             this.log(chalk.blue(`🔍 Found GitHub workflow: ${workflowPath}`));
             
@@ -92,9 +288,29 @@ export class GitHubActionsRunner implements Pipeline {
                 return false;
             }
 
+            this.initializeContexts(workflowPath, workflowObj);
+            if (!await this.initializeEvent(workflowObj)) {
+                return false;
+            }
+            this.artifacts = ArtifactStore.open(this.options.outputDir);
+            this.runDirectory = fs.mkdtempSync(path.join(os.tmpdir(), 'localpipe-'));
+            fs.writeFileSync(path.join(this.runDirectory, 'event.json'), JSON.stringify(this.githubContext.event, null, 2));
+
             this.log(chalk.green(`🚀 Starting workflow: ${workflowObj.name || 'Unnamed Workflow'}`));
             
-            return this.executeWorkflow(workflowObj);
+            try {
+                return await this.executeWorkflow(workflowObj);
+            } finally {
+                // Only the step summary outlives the run
+                const keep = this.writeStepSummary();
+                if (keep) {
+                    fs.rmSync(path.join(this.runDirectory, 'steps'), { recursive: true, force: true });
+                    fs.rmSync(path.join(this.runDirectory, 'event.json'), { force: true });
+                } else {
+                    fs.rmSync(this.runDirectory, { recursive: true, force: true });
+                }
+                this.artifacts.dispose();
+            }
 
         } catch (error) {
             this.log(chalk.red(`❌ Error executing GitHub workflow: ${error}`));
@@ -224,24 +440,422 @@ export class GitHubActionsRunner implements Pipeline {
         }
     }
 
-    private executeWorkflow(workflow: GitHubWorkflow): boolean {
+    /**
+     * The workspace is the repository root: the folder holding `.github/workflows`,
+     * or the folder of a workflow file that lives elsewhere.
+     */
+    private resolveWorkspace(workflowPath: string): string {
+        const absolutePath = path.resolve(workflowPath);
+        const workflowsDir = path.dirname(absolutePath);
+        if (path.basename(workflowsDir) === 'workflows' && path.basename(path.dirname(workflowsDir)) === '.github') {
+            return path.dirname(path.dirname(workflowsDir));
+        }
+        return workflowsDir;
+    }
+
+    private initializeContexts(workflowPath: string, workflow: GitHubWorkflow): void {
+        const gitOutput = (command: string): string => {
+            try {
+                return execSync(command, { cwd: this.workingDirectory, stdio: 'pipe', encoding: 'utf8' }).trim();
+            } catch (error) {
+                return '';
+            }
+        };
+
+        const remoteUrl = gitOutput('git config --get remote.origin.url');
+        const repositoryMatch = /github\.com[:/]([^/]+\/[^/]+?)(?:\.git)?$/.exec(remoteUrl);
+        const repository = repositoryMatch ? repositoryMatch[1] : `local/${path.basename(this.workingDirectory)}`;
+        const branch = gitOutput('git rev-parse --abbrev-ref HEAD') || 'main';
+        const ref = `refs/heads/${branch}`;
+
+        this.githubContext = {
+            action: '',
+            actor: process.env.USER || process.env.USERNAME || 'localpipe',
+            api_url: 'https://api.github.com',
+            base_ref: '',
+            event: {},
+            event_name: 'push',
+            graphql_url: 'https://api.github.com/graphql',
+            head_ref: '',
+            job: '',
+            ref: ref,
+            ref_name: branch,
+            ref_type: 'branch',
+            repository: repository,
+            repository_owner: repository.split('/')[0],
+            run_attempt: '1',
+            run_id: String(Date.now()),
+            run_number: '1',
+            server_url: 'https://github.com',
+            sha: gitOutput('git rev-parse HEAD') || '0'.repeat(40),
+            token: process.env.GITHUB_TOKEN || '',
+            workflow: workflow.name || path.basename(workflowPath),
+            workspace: this.workingDirectory
+        };
+
+        const platforms: Record<string, string> = { linux: 'Linux', win32: 'Windows', darwin: 'macOS' };
+        const architectures: Record<string, string> = { x64: 'X64', ia32: 'X86', arm: 'ARM', arm64: 'ARM64' };
+        this.runnerContext = {
+            name: 'localpipe',
+            os: platforms[process.platform] || process.platform,
+            arch: architectures[process.arch] || process.arch,
+            temp: os.tmpdir(),
+            tool_cache: path.join(os.tmpdir(), 'localpipe-tool-cache'),
+            debug: this.verbose ? '1' : ''
+        };
+
+        // Repository variables and secrets come from optional local files
+        this.vars = this.loadKeyValueFile(path.join(this.workingDirectory, '.localpipe', 'vars.yml'));
+        this.secrets = this.loadKeyValueFile(path.join(this.workingDirectory, '.localpipe', 'secrets.yml'));
+        if (process.env.GITHUB_TOKEN && !this.secrets.GITHUB_TOKEN) {
+            this.secrets.GITHUB_TOKEN = process.env.GITHUB_TOKEN;
+        }
+        this.environments = this.loadEnvironments(path.join(this.workingDirectory, '.localpipe', 'environments.yml'));
+
+        const environmentSecrets = Object.values(this.environments).flatMap(environment => Object.values(environment.secrets));
+        for (const secret of [...Object.values(this.secrets), ...environmentSecrets]) {
+            this.masker.add(String(secret));
+        }
+    }
+
+    /**
+     * Read the deployment environments, each with optional `protected`, `url`, `vars` and `secrets`
+     */
+    private loadEnvironments(filePath: string): Record<string, EnvironmentConfig> {
+        if (!fs.existsSync(filePath)) return {};
+
         try {
-            // Set global environment variables
-            const globalEnv = { ...process.env, ...workflow.env };
+            const content = yaml.load(fs.readFileSync(filePath, 'utf8')) as Record<string, any> | null;
+            const stringValues = (values: any): Record<string, string> =>
+                Object.fromEntries(Object.entries(values || {}).map(([key, value]) => [key, String(value)]));
+
+            const environments: Record<string, EnvironmentConfig> = {};
+            for (const [name, config] of Object.entries(content || {})) {
+                environments[name] = {
+                    protected: config?.protected === true,
+                    url: config?.url !== undefined ? String(config.url) : undefined,
+                    vars: stringValues(config?.vars),
+                    secrets: stringValues(config?.secrets)
+                };
+            }
+            if (this.verbose) {
+                this.log(chalk.gray(`📝 Loaded ${Object.keys(environments).length} environment(s) from ${filePath}`));
+            }
+            return environments;
+        } catch (error) {
+            this.log(chalk.yellow(`⚠️  Could not read ${filePath}: ${error}`));
+            return {};
+        }
+    }
 
-            // Execute jobs in order (simplified - doesn't handle complex dependencies)
-            const jobNames = Object.keys(workflow.jobs);
-            this.log(chalk.blue(`📋 Found ${jobNames.length} job(s): ${jobNames.join(', ')}`));
+    /**
+     * Simulate the triggering event: build github.event from --event and --event-payload,
+     * and collect the inputs of a workflow_dispatch run.
+     */
+    private async initializeEvent(workflow: GitHubWorkflow): Promise<boolean> {
+        const eventName = this.options.event || 'push';
 
-            for (const [jobName, job] of Object.entries(workflow.jobs)) {
-                this.log(chalk.yellow(`\n🔧 Starting job: ${job.name || jobName}`));
-                
-                if (!this.executeJob(jobName, job, globalEnv)) {
-                    this.log(chalk.red(`❌ Job '${jobName}' failed`));
-                    return false;
+        let payload: Record<string, any> = {};
+        if (this.options.eventPayload) {
+            try {
+                payload = JSON.parse(fs.readFileSync(path.resolve(this.options.eventPayload), 'utf8'));
+            } catch (error) {
+                this.log(chalk.red(`❌ Could not read event payload ${this.options.eventPayload}: ${error}`));
+                return false;
+            }
+            if (!payload || typeof payload !== 'object' || Array.isArray(payload)) {
+                this.log(chalk.red(`❌ Event payload ${this.options.eventPayload} must contain a JSON object`));
+                return false;
+            }
+        }
+
+        payload = buildEventPayload(eventName, payload, {
+            ref: this.githubContext.ref,
+            sha: this.githubContext.sha,
+            repository: this.githubContext.repository,
+            actor: this.githubContext.actor
+        });
+
+        for (const warning of checkEventTrigger(workflow.on, eventName, payload)) {
+            this.log(chalk.yellow(`⚠️  ${warning}`));
+        }
+
+        if (eventName === 'workflow_dispatch') {
+            const inputs = await this.collectDispatchInputs(workflow, payload.inputs || {});
+            if (!inputs) {
+                return false;
+            }
+            this.inputs = inputs;
+            // github.event.inputs keeps every value as a string
+            payload.inputs = Object.fromEntries(Object.entries(inputs).map(([name, value]) => [name, String(value)]));
+        } else if (Object.keys(this.options.inputs || {}).length > 0) {
+            this.log(chalk.yellow(`⚠️  --input-var values are ignored for '${eventName}' events`));
+        }
+
+        Object.assign(this.githubContext, resolveEventContext(eventName, payload, this.githubContext.ref));
+        this.log(chalk.blue(`⚡ Event: ${eventName} on ${this.githubContext.ref}`));
+        return true;
+    }
+
+    /**
+     * Resolve the declared workflow_dispatch inputs from --input-var, the event payload
+     * or an interactive prompt, falling back to their defaults. Returns null on invalid values.
+     */
+    private async collectDispatchInputs(workflow: GitHubWorkflow, payloadInputs: Record<string, any>): Promise<Record<string, any> | null> {
+        const declared: Record<string, DispatchInput> = getWorkflowTriggers(workflow.on).workflow_dispatch?.inputs || {};
+        const provided: Record<string, any> = { ...payloadInputs, ...this.options.inputs };
+        const interactive = !!process.stdin.isTTY && !!process.stdout.isTTY;
+
+        for (const name of Object.keys(provided)) {
+            if (!(name in declared)) {
+                this.log(chalk.yellow(`⚠️  Input '${name}' is not declared by the workflow_dispatch trigger`));
+            }
+        }
+
+        const inputs: Record<string, any> = {};
+        const errors: string[] = [];
+        for (const [name, input] of Object.entries(declared)) {
+            const definition = input || {};
+            let value = provided[name];
+
+            if (value === undefined && interactive) {
+                try {
+                    value = await this.promptForInput(name, definition);
+                } catch (error) {
+                    this.log(chalk.red(`❌ Input prompt failed: ${error}`));
+                    return null;
                 }
-                
-                this.log(chalk.green(`✅ Job '${jobName}' completed successfully`));
+            }
+
+            if (value === undefined || value === '') {
+                value = definition.default ?? (definition.type === 'choice' ? definition.options?.[0] : undefined);
+            }
+            if (value === undefined || value === '') {
+                if (definition.required) {
+                    errors.push(`Input '${name}' is required, pass it with --input-var ${name}=<value>`);
+                }
+                inputs[name] = definition.type === 'boolean' ? false : '';
+                continue;
+            }
+
+            try {
+                inputs[name] = coerceDispatchInput(name, definition, value);
+            } catch (error) {
+                errors.push(error instanceof Error ? error.message : String(error));
+            }
+        }
+
+        if (errors.length > 0) {
+            for (const error of errors) {
+                this.log(chalk.red(`❌ ${error}`));
+            }
+            return null;
+        }
+
+        if (this.verbose && Object.keys(inputs).length > 0) {
+            this.log(chalk.gray(`📝 Inputs: ${Object.entries(inputs).map(([name, value]) => `${name}=${value}`).join(', ')}`));
+        }
+        return inputs;
+    }
+
+    private async promptForInput(name: string, input: DispatchInput): Promise<any> {
+        const message = input.description ? `${name} (${input.description}):` : `${name}:`;
+        let question: DistinctQuestion<{ value: any }>;
+
+        if (input.type === 'boolean') {
+            question = {
+                type: 'confirm',
+                name: 'value',
+                message: message,
+                default: input.default === true || String(input.default).toLowerCase() === 'true'
+            };
+        } else if (input.type === 'choice') {
+            question = {
+                type: 'list',
+                name: 'value',
+                message: message,
+                default: input.default,
+                choices: (input.options || []).map(String)
+            };
+        } else {
+            question = {
+                type: 'input',
+                name: 'value',
+                message: message,
+                default: input.default === undefined ? undefined : String(input.default),
+                validate: (value: string) => {
+                    if (input.required && value === '' && input.default === undefined) {
+                        return `${name} is required`;
+                    }
+                    if (input.type === 'number' && value !== '' && Number.isNaN(Number(value))) {
+                        return `${name} must be a number`;
+                    }
+                    return true;
+                }
+            };
+        }
+
+        const answer = await inquirer.prompt([question]);
+        return answer.value;
+    }
+
+    /**
+     * Create the scope a workflow's jobs run in. Workflow-level env can only
+     * reference the github, inputs, vars and secrets contexts.
+     */
+    private createWorkflowScope(workflow: GitHubWorkflow, inputs: Record<string, any>, secrets: Record<string, string>, prefix: string, depth: number): WorkflowScope {
+        const env = this.interpolateEnv(workflow.env, {
+            contexts: { github: this.githubContext, inputs: inputs, vars: this.vars, secrets: secrets }
+        });
+        return { env, defaults: workflow.defaults || {}, inputs, secrets, prefix, depth };
+    }
+
+    private loadKeyValueFile(filePath: string): Record<string, string> {
+        if (!fs.existsSync(filePath)) return {};
+
+        try {
+            const content = yaml.load(fs.readFileSync(filePath, 'utf8')) as Record<string, any> | null;
+            const values: Record<string, string> = {};
+            for (const [key, value] of Object.entries(content || {})) {
+                values[key] = String(value);
+            }
+            if (this.verbose) {
+                this.log(chalk.gray(`📝 Loaded ${Object.keys(values).length} value(s) from ${filePath}`));
+            }
+            return values;
+        } catch (error) {
+            this.log(chalk.yellow(`⚠️  Could not read ${filePath}: ${error}`));
+            return {};
+        }
+    }
+
+    private interpolateEnv(env: Record<string, any> | undefined, context: ExpressionContext): Record<string, string> {
+        const result: Record<string, string> = {};
+        for (const [key, value] of Object.entries(env || {})) {
+            result[key] = interpolateString(String(value), context);
+        }
+        return result;
+    }
+
+    /**
+     * Build the expression contexts for a running job. `env` defaults to the job's env.
+     */
+    private createExpressionContext(run: JobRun, env: Record<string, string> = run.env): ExpressionContext {
+        return {
+            contexts: {
+                github: { ...this.githubContext, job: run.id, action_path: run.actionPath || '' },
+                env: env,
+                vars: run.environment ? { ...this.vars, ...run.environment.vars } : this.vars,
+                secrets: run.environment ? { ...run.workflow.secrets, ...run.environment.secrets } : run.workflow.secrets,
+                steps: run.steps,
+                needs: run.needs,
+                matrix: run.matrix,
+                strategy: run.strategy,
+                job: this.createJobContext(run),
+                runner: this.runnerContext,
+                inputs: run.inputs || run.workflow.inputs
+            },
+            status: run.status,
+            workspace: this.workingDirectory
+        };
+    }
+
+    /**
+     * The job context: status, and the network, ids and published ports of the job's containers
+     */
+    private createJobContext(run: JobRun): Record<string, any> {
+        const containers = run.containers;
+        const services: Record<string, any> = {};
+        for (const [id, service] of Object.entries(containers?.services || {})) {
+            services[id] = { id: service.id, network: containers!.network, ports: service.ports };
+        }
+        return {
+            status: run.status,
+            container: containers ? { id: containers.job?.id || '', network: containers.network } : {},
+            services: services
+        };
+    }
+
+    /**
+     * Job-level values like `name` and `continue-on-error` can't see the env or steps contexts
+     */
+    private createJobExpressionContext(run: JobRun): ExpressionContext {
+        const context = this.createExpressionContext(run);
+        delete context.contexts.env;
+        delete context.contexts.steps;
+        return context;
+    }
+
+    /**
+     * Evaluate a `continue-on-error` value, which may be a boolean or an expression.
+     * Values that can't be evaluated are reported and treated as false.
+     */
+    private shouldContinueOnError(value: boolean | string | undefined, context: ExpressionContext, owner: string): boolean {
+        if (value === undefined || typeof value === 'boolean') {
+            return !!value;
+        }
+
+        try {
+            const result = interpolate(String(value), context);
+            if (typeof result === 'boolean') return result;
+            if (String(result).trim().toLowerCase() === 'true') return true;
+            if (String(result).trim().toLowerCase() === 'false' || result === '') return false;
+            throw new Error(`expected a boolean but got '${toDisplayString(result)}'`);
+        } catch (error) {
+            this.log(chalk.red(`    ❌ Invalid continue-on-error of ${owner}: ${error instanceof Error ? error.message : error}`));
+            return false;
+        }
+    }
+
+    /**
+     * Environment variables GitHub sets for every step
+     */
+    private defaultEnvironment(run: JobRun): Record<string, string> {
+        return {
+            CI: 'true',
+            GITHUB_ACTIONS: 'true',
+            GITHUB_ACTOR: this.githubContext.actor,
+            GITHUB_EVENT_NAME: this.githubContext.event_name,
+            GITHUB_EVENT_PATH: path.join(this.runDirectory, 'event.json'),
+            GITHUB_HEAD_REF: this.githubContext.head_ref,
+            GITHUB_BASE_REF: this.githubContext.base_ref,
+            GITHUB_JOB: run.id,
+            GITHUB_REF: this.githubContext.ref,
+            GITHUB_REF_NAME: this.githubContext.ref_name,
+            GITHUB_REF_TYPE: this.githubContext.ref_type,
+            GITHUB_REPOSITORY: this.githubContext.repository,
+            GITHUB_REPOSITORY_OWNER: this.githubContext.repository_owner,
+            GITHUB_RUN_ID: this.githubContext.run_id,
+            GITHUB_RUN_NUMBER: this.githubContext.run_number,
+            GITHUB_SERVER_URL: this.githubContext.server_url,
+            GITHUB_SHA: this.githubContext.sha,
+            GITHUB_WORKFLOW: this.githubContext.workflow,
+            GITHUB_WORKSPACE: this.workingDirectory,
+            RUNNER_OS: this.runnerContext.os,
+            RUNNER_ARCH: this.runnerContext.arch,
+            RUNNER_NAME: this.runnerContext.name,
+            RUNNER_TEMP: this.runnerContext.temp,
+            RUNNER_TOOL_CACHE: this.runnerContext.tool_cache,
+            ...(run.actionPath ? { GITHUB_ACTION_PATH: run.actionPath } : {})
+        };
+    }
+
+    private async executeWorkflow(workflow: GitHubWorkflow): Promise<boolean> {
+        try {
+            const scope = this.createWorkflowScope(workflow, this.inputs, this.secrets, '', 0);
+            const results = await this.executeJobGraph(workflow.jobs || {}, scope);
+            if (!results) {
+                return false;
+            }
+
+            this.printJobSummary(Object.keys(results), results);
+            this.printAnnotations();
+            this.printArtifacts();
+
+            // Skipped jobs don't fail the workflow, the jobs that caused them to be skipped do
+            if (Object.values(results).some(outcome => outcome.result === 'failure' || outcome.result === 'cancelled')) {
+                this.log(chalk.red('\n❌ Workflow failed'));
+                return false;
             }
 
             this.log(chalk.green('\n🎉 Workflow completed successfully'));
@@ -253,128 +867,1417 @@ export class GitHubActionsRunner implements Pipeline {
         }
     }
 
-    private executeJob(jobName: string, job: GitHubJob, globalEnv: Record<string, any>): boolean {
-        try {
-            // Merge environment variables
-            const jobEnv = { ...globalEnv, ...job.env };
+    /**
+     * Run a set of jobs in dependency order, starting independent jobs side by side.
+     * Returns the outcome of every job in topological order, or null when the
+     * dependency graph is invalid.
+     */
+    private async executeJobGraph(jobs: Record<string, GitHubJob>, scope: WorkflowScope): Promise<Record<string, JobOutcome> | null> {
+        const jobNames = Object.keys(jobs);
+        this.log(chalk.blue(`📋 Found ${jobNames.length} job(s)${scope.prefix ? ` in ${scope.prefix.replace(/ \/ $/, '')}` : ''}: ${jobNames.join(', ')}`));
 
-            // Simulate runner environment
-            this.log(chalk.blue(`  🖥️  Running on: ${job['runs-on']}`));
+        // Validate the whole dependency graph before running anything
+        const graph = buildJobGraph(jobs);
+        if (graph.errors.length > 0) {
+            for (const error of graph.errors) {
+                this.log(chalk.red(`❌ ${error}`));
+            }
+            return null;
+        }
+
+        if (this.verbose) {
+            this.log(chalk.gray(`📝 Job order: ${graph.order.join(' → ')}`));
+        }
 
-            // Execute steps
-            for (let i = 0; i < job.steps.length; i++) {
-                const step = job.steps[i];
-                this.log(chalk.cyan(`    Step ${i + 1}: ${step.name || step.uses || 'Unnamed step'}`));
+        const results: Record<string, JobOutcome> = {};
+        const running = new Map<string, Promise<void>>();
+        const pending = [...graph.order];
 
-                if (!this.executeStep(step, jobEnv)) {
-                    this.log(chalk.red(`    ❌ Step ${i + 1} failed`));
-                    return false;
+        while (pending.length > 0 || running.size > 0) {
+            // Start every job whose dependencies have all finished
+            const ready = pending.filter(jobName => graph.needs[jobName].every(need => need in results));
+            for (const jobName of ready) {
+                pending.splice(pending.indexOf(jobName), 1);
+                const job = jobs[jobName];
+
+                const needs: Record<string, NeedsContext> = {};
+                for (const need of graph.needs[jobName]) {
+                    needs[need] = { result: results[need].result, outputs: results[need].outputs };
+                }
+
+                try {
+                    if (!this.shouldRunJob(jobName, job, needs, scope)) {
+                        results[jobName] = { result: 'skipped', outputs: {}, instances: [] };
+                        continue;
+                    }
+                } catch (error) {
+                    this.log(chalk.red(`\n❌ Could not evaluate the condition of job '${scope.prefix}${jobName}': ${error}`));
+                    results[jobName] = { result: 'failure', outputs: {}, instances: [] };
+                    continue;
                 }
 
-                this.log(chalk.green(`    ✅ Step ${i + 1} completed`));
+                running.set(jobName, this.executeJobInstances(jobName, job, needs, scope).then(outcome => {
+                    results[jobName] = outcome;
+                    running.delete(jobName);
+                }));
             }
 
-            return true;
+            // Skipped jobs may have unblocked others, so only wait when nothing new became ready
+            if (ready.length === 0 && running.size > 0) {
+                await Promise.race(running.values());
+            }
+        }
 
-        } catch (error) {
-            this.log(chalk.red(`❌ Job execution failed: ${error}`));
-            return false;
+        const ordered: Record<string, JobOutcome> = {};
+        for (const jobName of graph.order) {
+            ordered[jobName] = results[jobName];
         }
+        return ordered;
     }
 
-    private executeStep(step: GitHubStep, env: Record<string, any>): boolean {
-        try {
-            // Merge step-level environment variables
-            const stepEnv = { ...env, ...step.env };
+    /**
+     * Run a job that calls a reusable workflow (`jobs.<id>.uses`) as a nested job graph
+     */
+    private async executeReusableWorkflow(run: JobRun, context: ExpressionContext): Promise<boolean> {
+        const uses = run.job.uses!;
+        if (!uses.startsWith('./')) {
+            this.log(chalk.red(`  ❌ Only local reusable workflows (uses: ./.github/workflows/<file>) can run locally: ${uses}`));
+            return false;
+        }
+        if (run.workflow.depth >= MAX_WORKFLOW_DEPTH) {
+            this.log(chalk.red(`  ❌ Reusable workflows are nested more than ${MAX_WORKFLOW_DEPTH} levels deep`));
+            return false;
+        }
 
-            // Handle different step types
-            if (step.uses) {
-                return this.executeAction(step, stepEnv);
-            } else if (step.run) {
-                return this.executeScript(step, stepEnv);
-            } else {
-                this.log(chalk.yellow(`    ⚠️  Step has no 'uses' or 'run' - skipping`));
-                return true;
+        const workflowPath = path.resolve(this.workingDirectory, uses);
+        if (!fs.existsSync(workflowPath)) {
+            this.log(chalk.red(`  ❌ Reusable workflow not found: ${workflowPath}`));
+            return false;
+        }
+
+        const called = this.parseWorkflow(workflowPath);
+        if (!called) {
+            return false;
+        }
+
+        const trigger = getWorkflowCallTrigger(called.on);
+        if (!trigger) {
+            this.log(chalk.red(`  ❌ ${uses} is not a reusable workflow: it has no 'on.workflow_call' trigger`));
+            return false;
+        }
+
+        const provided = interpolateValue(run.job.with || {}, context);
+        const providedSecrets = run.job.secrets === 'inherit' ? 'inherit' : interpolateValue(run.job.secrets || {}, context);
+        const inputs = bindWorkflowCallInputs(trigger, provided);
+        const secrets = bindWorkflowCallSecrets(trigger, providedSecrets, run.workflow.secrets);
+
+        const errors = [...inputs.errors, ...secrets.errors];
+        if (errors.length > 0) {
+            for (const error of errors) {
+                this.log(chalk.red(`  ❌ ${uses}: ${error}`));
             }
+            return false;
+        }
 
-        } catch (error) {
-            this.log(chalk.red(`    ❌ Step execution failed: ${error}`));
+        this.log(chalk.blue(`  📞 Calling reusable workflow: ${called.name || path.basename(workflowPath)}`));
+
+        const scope = this.createWorkflowScope(called, inputs.values, secrets.values, `${run.name} / `, run.workflow.depth + 1);
+        const results = await this.executeJobGraph(called.jobs || {}, scope);
+        if (!results) {
             return false;
         }
-    }
+        run.nested = results;
 
-    private executeAction(step: GitHubStep, env: Record<string, any>): boolean {
-        const action = step.uses!;
-        
-        // Simulate common GitHub Actions
-        if (action.startsWith('actions/checkout')) {
-            this.log(chalk.blue(`      📥 Simulating checkout action`));
-            // In a real implementation, this would checkout the repository
-            return true;
+        // Expose the declared workflow outputs to jobs that need the caller
+        const jobsContext: Record<string, NeedsContext> = {};
+        for (const [jobName, outcome] of Object.entries(results)) {
+            jobsContext[jobName] = { result: outcome.result, outputs: outcome.outputs };
         }
-        
-        if (action.startsWith('actions/setup-node')) {
-            const version = step.with?.['node-version'] || '18';
-            this.log(chalk.blue(`      📦 Simulating Node.js setup (version: ${version})`));
-            // In a real implementation, this would setup Node.js
-            return true;
+        const outputContext: ExpressionContext = {
+            contexts: { github: this.githubContext, inputs: inputs.values, vars: this.vars, jobs: jobsContext }
+        };
+        for (const [name, output] of Object.entries(trigger.outputs || {})) {
+            run.outputs[name] = interpolateString(String(output?.value ?? ''), outputContext);
         }
 
-        if (action.startsWith('actions/setup-python')) {
-            const version = step.with?.['python-version'] || '3.x';
-            this.log(chalk.blue(`      🐍 Simulating Python setup (version: ${version})`));
+        return Object.values(results).every(outcome => outcome.result === 'success' || outcome.result === 'skipped');
+    }
+
+    /**
+     * Evaluate the job's `if:`. Without one, the job only runs when all needed jobs succeeded.
+     */
+    private shouldRunJob(jobId: string, job: GitHubJob, needs: Record<string, NeedsContext>, scope: WorkflowScope): boolean {
+        const needResults = Object.values(needs).map(need => need.result);
+        let status: ExpressionContext['status'] = 'success';
+        if (needResults.includes('failure')) {
+            status = 'failure';
+        } else if (needResults.includes('cancelled')) {
+            status = 'cancelled';
+        } else if (needResults.some(result => result !== 'success')) {
+            status = 'skipped';
+        }
+
+        // Job conditions can only use the github, needs, vars and inputs contexts
+        const context: ExpressionContext = {
+            contexts: { github: this.githubContext, needs: needs, vars: this.vars, inputs: scope.inputs },
+            status: status
+        };
+
+        if (evaluateCondition(job.if, context)) {
             return true;
         }
 
-        // For other actions, just log that we're simulating them
-        this.log(chalk.blue(`      🎬 Simulating action: ${action}`));
-        return true;
+        const name = scope.prefix + (job.name || jobId);
+        if (job.if === undefined) {
+            const unsuccessful = Object.keys(needs).filter(need => needs[need].result !== 'success');
+            this.log(chalk.gray(`\n⏭️  Skipping job '${name}': required job(s) did not succeed (${unsuccessful.join(', ')})`));
+        } else {
+            this.log(chalk.gray(`\n⏭️  Skipping job '${name}': condition '${job.if}' is false`));
+        }
+        return false;
     }
 
-    private executeScript(step: GitHubStep, env: Record<string, any>): boolean {
+    /**
+     * Run a job once, or once per matrix combination when it has a strategy,
+     * honoring `fail-fast` and `max-parallel`.
+     */
+    private async executeJobInstances(jobId: string, job: GitHubJob, needs: Record<string, NeedsContext>, scope: WorkflowScope): Promise<JobOutcome> {
+        const strategyContext: ExpressionContext = {
+            contexts: { github: this.githubContext, needs: needs, vars: this.vars, inputs: scope.inputs }
+        };
+
+        let combinations: MatrixCombination[];
+        let strategy: Record<string, any>;
         try {
-            const script = step.run!;
-            const workingDir = step['working-directory'] || this.workingDirectory;
-            const shell = step.shell || 'bash';
+            strategy = interpolateValue(job.strategy || {}, strategyContext);
+            combinations = expandMatrix(strategy.matrix);
+        } catch (error) {
+            this.log(chalk.red(`\n❌ Invalid strategy for job '${scope.prefix}${jobId}': ${error}`));
+            return { result: 'failure', outputs: {}, instances: [] };
+        }
 
-            this.log(chalk.blue(`      🔧 Executing script in ${workingDir}`));
-            
-            if (this.verbose) {
-                this.log(chalk.gray(`      📜 Script: ${script}`));
+        const isMatrix = !!strategy.matrix;
+        if (isMatrix) {
+            const total = combinations.length;
+            combinations = filterMatrix(combinations, this.options.matrix || {});
+            if (combinations.length === 0) {
+                this.log(chalk.gray(`\n⏭️  Skipping job '${scope.prefix}${jobId}': no matrix combination matches the --matrix filter`));
+                return { result: 'skipped', outputs: {}, instances: [] };
             }
+            this.log(chalk.blue(`\n🧮 Job '${scope.prefix}${jobId}' expands to ${combinations.length} matrix instance(s)${combinations.length < total ? ` (filtered from ${total})` : ''}`));
+        }
 
-            // Execute the script
-            const options = {
-                cwd: workingDir,
-                env: env,
-                stdio: this.verbose ? 'inherit' : 'pipe',
-                encoding: 'utf8'
-            } as const;
+        const failFast = strategy['fail-fast'] !== false && strategy['fail-fast'] !== 'false';
+        const maxParallel = Math.max(1, Number(strategy['max-parallel']) || combinations.length);
+        const cancellation = { cancelled: false };
 
-            try {
-                const result = execSync(script, options);
-                if (!this.verbose && result) {
-                    this.log(chalk.gray(`      📄 Output: ${result.toString().trim()}`));
-                }
-                return true;
-            } catch (error: any) {
-                this.log(chalk.red(`      ❌ Script failed with exit code: ${error.status || 'unknown'}`));
-                if (error.stdout) {
-                    this.log(chalk.gray(`      📄 stdout: ${error.stdout.toString()}`));
+        const runs: JobRun[] = combinations.map((matrix, index) => ({
+            id: jobId,
+            key: `${jobId}-${++this.jobRunCount}`,
+            name: jobId,
+            job: job,
+            workflow: scope,
+            env: {},
+            steps: {},
+            needs: needs,
+            matrix: matrix,
+            strategy: {
+                'fail-fast': failFast,
+                'job-index': index,
+                'job-total': combinations.length,
+                'max-parallel': maxParallel
+            },
+            outputs: {},
+            path: [],
+            scope: [],
+            state: {},
+            post: [],
+            results: [],
+            status: 'success',
+            cancellation: cancellation
+        }));
+
+        const instances: JobInstanceResult[] = [];
+        let nextRun = 0;
+        const worker = async () => {
+            while (nextRun < runs.length) {
+                const index = nextRun++;
+                const run = runs[index];
+
+                if (cancellation.cancelled) {
+                    run.name = scope.prefix + describeCombination(job.name || jobId, run.matrix);
+                    this.log(chalk.gray(`\n🚫 Cancelled job '${run.name}': another matrix instance failed (fail-fast)`));
+                    instances[index] = { name: run.name, result: 'cancelled', steps: [] };
+                    continue;
                 }
-                if (error.stderr) {
-                    this.log(chalk.red(`      📄 stderr: ${error.stderr.toString()}`));
+
+                const success = await this.executeJob(run, isMatrix);
+                const result: JobResult = success ? 'success' : run.status === 'cancelled' ? 'cancelled' : 'failure';
+                const continuedOnError = result === 'failure' && this.shouldContinueOnError(run.job['continue-on-error'], this.createJobExpressionContext(run), `job '${run.name}'`);
+                instances[index] = {
+                    name: run.name,
+                    result: result,
+                    continuedOnError: continuedOnError,
+                    environment: run.environment ? { name: run.environment.name, url: run.environment.url } : undefined,
+                    steps: run.results
+                };
+
+                if (result === 'success') {
+                    this.log(chalk.green(`✅ Job '${run.name}' completed successfully`));
+                } else if (result === 'cancelled') {
+                    this.log(chalk.gray(`🚫 Job '${run.name}' was cancelled`));
+                } else if (continuedOnError) {
+                    this.log(chalk.yellow(`⚠️  Job '${run.name}' failed, continuing because of continue-on-error`));
+                } else {
+                    this.log(chalk.red(`❌ Job '${run.name}' failed`));
+                    if (failFast && isMatrix) {
+                        cancellation.cancelled = true;
+                    }
                 }
-                return false;
             }
+        };
+        await Promise.all(Array.from({ length: Math.min(maxParallel, runs.length) }, worker));
 
-        } catch (error) {
-            this.log(chalk.red(`      ❌ Script execution error: ${error}`));
-            return false;
+        // Like GitHub, outputs of matrix instances are merged and the last writer wins
+        const outputs: Record<string, string> = {};
+        for (const run of runs) {
+            Object.assign(outputs, run.outputs);
+        }
+
+        // Jobs of called reusable workflows are listed below their caller
+        const summary: JobInstanceResult[] = [];
+        runs.forEach((run, index) => {
+            summary.push(instances[index]);
+            for (const nested of Object.values(run.nested || {})) {
+                summary.push(...nested.instances);
+            }
+        });
+
+        // Jobs that continued on error count as successful for `needs` and the workflow result
+        let result: JobResult = 'success';
+        if (instances.some(instance => instance.result === 'failure' && !instance.continuedOnError)) {
+            result = 'failure';
+        } else if (instances.some(instance => instance.result === 'cancelled')) {
+            result = 'cancelled';
         }
+
+        return { result, outputs, instances: summary };
+    }
+
+    private printJobSummary(jobNames: string[], results: Record<string, JobOutcome>): void {
+        const color = (result: JobResult) => result === 'success' ? chalk.green : result === 'failure' ? chalk.red : chalk.gray;
+
+        this.log(chalk.blue('\n📊 Job summary:'));
+        for (const jobName of jobNames) {
+            const outcome = results[jobName];
+            if (outcome.instances.length === 0) {
+                this.log(`  ${color(outcome.result)(outcome.result.padEnd(9))} ${jobName}`);
+            }
+            for (const instance of outcome.instances) {
+                const note = instance.continuedOnError ? chalk.gray(' (continue-on-error)') : '';
+                const environment = instance.environment
+                    ? chalk.magenta(` → ${instance.environment.name}${instance.environment.url ? ` (${instance.environment.url})` : ''}`)
+                    : '';
+                this.log(`  ${color(instance.result)(instance.result.padEnd(9))} ${instance.name}${environment}${note}`);
+
+                for (const step of instance.steps) {
+                    const stepNote = step.outcome !== step.conclusion ? chalk.gray(` (outcome: ${step.outcome}, continue-on-error)`) : '';
+                    this.log(`      ${color(step.conclusion)(step.conclusion.padEnd(9))} ${step.name}${stepNote}`);
+                }
+            }
+        }
+    }
+
+    /**
+     * List the errors, warnings and notices reported through workflow commands
+     */
+    private printAnnotations(): void {
+        if (this.annotations.length === 0) return;
+
+        const count = (level: string) => this.annotations.filter(annotation => annotation.level === level).length;
+        this.log(chalk.blue(`\n📝 Annotations: ${count('error')} error(s), ${count('warning')} warning(s), ${count('notice')} notice(s)`));
+        for (const annotation of this.annotations) {
+            this.log(`  ${formatAnnotation(annotation)} ${chalk.gray(`[${annotation.job}]`)}`);
+        }
+    }
+
+    private printArtifacts(): void {
+        const artifacts = this.artifacts.list();
+        if (artifacts.length === 0) return;
+
+        const location = this.artifacts.temporary ? 'discarded after the run, pass --output to keep them' : this.artifacts.root;
+        this.log(chalk.blue(`\n📦 Artifacts (${location}):`));
+        for (const line of formatArtifactSummary(artifacts)) {
+            this.log(`  ${line}`);
+        }
+    }
+
+    private async executeJob(run: JobRun, isMatrix: boolean = false): Promise<boolean> {
+        try {
+            const job = run.job;
+            const jobContext = this.createJobExpressionContext(run);
+
+            run.name = job.name ? interpolateString(job.name, jobContext) : run.id;
+            if (isMatrix && !/matrix\./i.test(job.name || '')) {
+                // GitHub appends the matrix values unless the name already uses them
+                run.name = describeCombination(run.name, run.matrix);
+            }
+            run.name = run.workflow.prefix + run.name;
+            this.log(chalk.yellow(`\n🔧 Starting job: ${run.name}`));
+
+            if (job.uses) {
+                return await this.executeReusableWorkflow(run, jobContext);
+            }
+
+            if (job.environment && !await this.enterEnvironment(run, jobContext)) {
+                return false;
+            }
+
+            // Merge environment variables
+            run.env = { ...run.workflow.env, ...this.interpolateEnv(job.env, this.createJobExpressionContext(run)) };
+
+            // Simulate runner environment
+            this.log(chalk.blue(`  🖥️  Running on: ${interpolateValue(job['runs-on'], jobContext)}`));
+
+            if ((job.container || job.services) && !await this.startContainers(run, jobContext)) {
+                await this.stopContainers(run);
+                return false;
+            }
+
+            try {
+                await this.executePreSteps(run, job.steps || []);
+                await this.executeSteps(run, job.steps || []);
+                await this.executePostSteps(run);
+            } finally {
+                await this.stopContainers(run);
+            }
+
+            // Job outputs are evaluated once all steps have run, even when one of them failed
+            const outputContext = this.createExpressionContext(run);
+            for (const [name, value] of Object.entries(job.outputs || {})) {
+                run.outputs[name] = interpolateString(String(value), outputContext);
+            }
+
+            // Like outputs, the environment URL can use the results of the job's steps
+            if (run.environment && typeof job.environment === 'object' && job.environment.url) {
+                run.environment.url = interpolateString(String(job.environment.url), outputContext);
+            }
+
+            return run.status === 'success';
+
+        } catch (error) {
+            this.log(chalk.red(`❌ Job execution failed: ${error}`));
+            return false;
+        }
+    }
+
+    /**
+     * Resolve the job's `environment:`, whose vars and secrets override the repository ones,
+     * and ask for approval when it is protected. Returns false when the deployment may not run.
+     */
+    private async enterEnvironment(run: JobRun, context: ExpressionContext): Promise<boolean> {
+        const declared = run.job.environment!;
+        const name = interpolateString(typeof declared === 'string' ? declared : String(declared.name ?? ''), context).trim();
+        if (!name) {
+            this.log(chalk.red(`  ❌ The environment of job '${run.name}' has no name`));
+            return false;
+        }
+
+        // Like GitHub, environment names are case-insensitive and unknown ones are created empty
+        const configName = Object.keys(this.environments).find(environment => environment.toLowerCase() === name.toLowerCase());
+        const config: EnvironmentConfig = configName ? this.environments[configName] : { protected: false, vars: {}, secrets: {} };
+        run.environment = { name: name, url: config.url || '', vars: config.vars, secrets: config.secrets };
+
+        this.log(chalk.magenta(`  🌍 Environment: ${name}${config.protected ? ' (protected)' : ''}`));
+        if (!configName && this.verbose) {
+            this.log(chalk.gray(`  📝 '${name}' is not defined in .localpipe/environments.yml, it has no vars or secrets`));
+        }
+
+        if (config.protected && !await this.approveDeployment(run, name)) {
+            return false;
+        }
+        return true;
+    }
+
+    /**
+     * Start the job's `services:` as sidecars on a network of their own and, with `container:`,
+     * the job container its `run:` steps execute in. The workspace and the run directory are
+     * mounted at their host paths, so paths in expressions and command files stay valid.
+     */
+    private async startContainers(run: JobRun, context: ExpressionContext): Promise<boolean> {
+        const cli = this.containerCli;
+        const network = `localpipe-${run.id.replace(/[^A-Za-z0-9_.-]/g, '-')}-${crypto.randomUUID().slice(0, 8)}`;
+
+        try {
+            const container = normalizeContainer(interpolateValue(run.job.container, context));
+            if (run.job.container && !container) {
+                throw new Error(`the container of job '${run.name}' has no image`);
+            }
+            const services: Array<[string, ContainerDefinition]> = [];
+            for (const [id, service] of Object.entries(interpolateValue(run.job.services || {}, context) as Record<string, any>)) {
+                const definition = normalizeContainer(service);
+                if (!definition) {
+                    throw new Error(`service '${id}' has no image`);
+                }
+                services.push([id, definition]);
+            }
+            for (const definition of [...services.map(([, service]) => service), ...(container ? [container] : [])]) {
+                if (definition.credentials) {
+                    this.log(chalk.yellow(`  ⚠️  Registry credentials for ${definition.image} are ignored, run '${cli.command} login' beforehand`));
+                }
+            }
+
+            await cli.createNetwork(network);
+            run.containers = { network: network, services: {}, started: [] };
+            if (this.verbose) {
+                this.log(chalk.gray(`  🌐 Created network ${network} with ${cli.command}`));
+            }
+
+            for (const [id, definition] of services) {
+                this.log(chalk.blue(`  🐳 Starting service ${id}: ${definition.image}`));
+                const serviceId = await cli.start({ name: `${network}-${id}`, network: network, alias: id, definition: definition });
+                run.containers.started.push(serviceId);
+                run.containers.services[id] = { id: serviceId, ports: {} };
+            }
+            // Services start side by side, then the job waits until all of them are healthy
+            for (const [id] of services) {
+                const service = run.containers.services[id];
+                await cli.waitForHealthy(service.id, () => this.log(chalk.gray(`  ⏳ Waiting for service ${id} to be healthy`)))
+                    .catch(error => { throw new Error(`service '${id}': ${error instanceof Error ? error.message : error}`); });
+                service.ports = await cli.ports(service.id);
+            }
+
+            if (container) {
+                this.log(chalk.blue(`  🐳 Starting job container: ${container.image}`));
+                const id = await cli.start({
+                    name: `${network}-job`,
+                    network: network,
+                    definition: container,
+                    mounts: { [this.workingDirectory]: this.workingDirectory, [this.runDirectory]: this.runDirectory },
+                    workdir: this.workingDirectory,
+                    // Keep the container alive so every step can exec into it
+                    entrypoint: ['tail', '-f', '/dev/null']
+                });
+                run.containers.started.push(id);
+                run.containers.job = { id: id, hasBash: await cli.hasCommand(id, 'bash') };
+            }
+            return true;
+
+        } catch (error) {
+            this.log(chalk.red(`  ❌ Failed to start containers: ${error instanceof Error ? error.message : error}`));
+            return false;
+        }
+    }
+
+    /**
+     * Remove the job's containers and network. Failures are only reported, they don't fail the job.
+     */
+    private async stopContainers(run: JobRun): Promise<void> {
+        const containers = run.containers;
+        if (!containers) return;
+
+        try {
+            for (const id of containers.started.splice(0).reverse()) {
+                await this.containerCli.remove(id);
+            }
+            await this.containerCli.removeNetwork(containers.network);
+            if (this.verbose) {
+                this.log(chalk.gray(`  🧹 Removed the containers and network of job '${run.name}'`));
+            }
+        } catch (error) {
+            this.log(chalk.yellow(`  ⚠️  Could not remove the containers of job '${run.name}': ${error}`));
+        }
+    }
+
+    private async approveDeployment(run: JobRun, environment: string): Promise<boolean> {
+        if (this.options.yes) {
+            this.log(chalk.yellow(`  🔓 Deployment to '${environment}' approved with --yes`));
+            return true;
+        }
+        if (!process.stdin.isTTY || !process.stdout.isTTY) {
+            this.log(chalk.red(`  ❌ Environment '${environment}' is protected: approve the deployment in an interactive terminal or pass --yes`));
+            return false;
+        }
+
+        try {
+            const prompt = this.approvals.then(() => inquirer.prompt([
+                {
+                    type: 'confirm',
+                    name: 'approved',
+                    message: `Job '${run.name}' is waiting for approval to deploy to '${environment}'. Approve?`,
+                    default: false
+                }
+            ]));
+            this.approvals = prompt.catch(() => undefined);
+
+            const answer = await prompt;
+            if (!answer.approved) {
+                this.log(chalk.red(`  ❌ Deployment to '${environment}' was rejected`));
+                return false;
+            }
+            this.log(chalk.green(`  🔓 Deployment to '${environment}' approved`));
+            return true;
+
+        } catch (error) {
+            this.log(chalk.red(`  ❌ Approval prompt failed: ${error}`));
+            return false;
+        }
+    }
+
+    /**
+     * Run a list of steps, recording their results in `run.steps`. After a failure only
+     * steps whose condition allows it still run. `label` prefixes step numbers for nested steps.
+     */
+    private async executeSteps(run: JobRun, steps: GitHubStep[], label: string = ''): Promise<void> {
+        for (let i = 0; i < steps.length; i++) {
+            const step = steps[i];
+            const stepId = step.id || `__step${i + 1}`;
+            const stepLabel = `${label}${i + 1}`;
+
+            if (run.cancellation?.cancelled && run.status === 'success') {
+                this.log(chalk.gray(`    🚫 Job cancelled because another matrix instance failed`));
+                run.status = 'cancelled';
+            }
+
+            // Like GitHub, unnamed run steps are named after the first line of their script
+            const defaultName = step.uses || (step.run ? `Run ${step.run.trim().split(/\r?\n/)[0]}` : 'Unnamed step');
+            const stepName = step.name ? interpolateString(step.name, this.createExpressionContext(run)) : defaultName;
+            this.log(chalk.cyan(`    Step ${stepLabel}: ${stepName}`));
+
+            let shouldRun: boolean;
+            try {
+                shouldRun = evaluateCondition(step.if, this.createExpressionContext(run));
+            } catch (error) {
+                this.log(chalk.red(`    ❌ Could not evaluate the condition of step ${stepLabel}: ${error}`));
+                run.steps[stepId] = { outputs: {}, outcome: 'failure', conclusion: 'failure' };
+                run.results.push({ name: stepName, outcome: 'failure', conclusion: 'failure' });
+                run.status = 'failure';
+                continue;
+            }
+
+            if (!shouldRun) {
+                let reason = `condition '${step.if}' is false`;
+                if (step.if === undefined) {
+                    reason = run.status === 'cancelled' ? 'the job was cancelled' : 'a previous step failed';
+                }
+                this.log(chalk.gray(`    ⏭️  Step ${stepLabel} skipped: ${reason}`));
+                run.steps[stepId] = { outputs: {}, outcome: 'skipped', conclusion: 'skipped' };
+                run.results.push({ name: stepName, outcome: 'skipped', conclusion: 'skipped' });
+                continue;
+            }
+
+            const success = await this.executeStep(run, step, stepId, stepLabel);
+            const outcome: JobResult = success ? 'success' : 'failure';
+            let conclusion = outcome;
+
+            if (success) {
+                this.log(chalk.green(`    ✅ Step ${stepLabel} completed`));
+            } else if (this.shouldContinueOnError(step['continue-on-error'], this.createExpressionContext(run), `step ${stepLabel}`)) {
+                // The failure stays visible in steps.<id>.outcome, but doesn't fail the job
+                this.log(chalk.yellow(`    ⚠️  Step ${stepLabel} failed, continuing because of continue-on-error`));
+                conclusion = 'success';
+            } else {
+                this.log(chalk.red(`    ❌ Step ${stepLabel} failed`));
+                run.status = 'failure';
+            }
+
+            run.steps[stepId] = { outputs: run.steps[stepId]?.outputs || {}, outcome: outcome, conclusion: conclusion };
+            run.results.push({ name: stepName, outcome: outcome, conclusion: conclusion });
+        }
+    }
+
+    private async executePostSteps(run: JobRun): Promise<void> {
+        for (const post of [...run.post].reverse()) {
+            this.log(chalk.cyan(`    Post: ${post.name}`));
+            const name = `Post ${post.name}`;
+
+            let shouldRun: boolean;
+            try {
+                shouldRun = evaluateCondition(post.condition, this.createExpressionContext(run));
+            } catch (error) {
+                this.log(chalk.red(`    ❌ Could not evaluate the condition of post step '${post.name}': ${error}`));
+                run.results.push({ name: name, outcome: 'failure', conclusion: 'failure' });
+                run.status = 'failure';
+                continue;
+            }
+
+            if (!shouldRun) {
+                this.log(chalk.gray(`    ⏭️  Post step skipped: condition '${post.condition}' is false`));
+                run.results.push({ name: name, outcome: 'skipped', conclusion: 'skipped' });
+                continue;
+            }
+
+            if (await post.execute()) {
+                this.log(chalk.green(`    ✅ Post step completed`));
+                run.results.push({ name: name, outcome: 'success', conclusion: 'success' });
+            } else {
+                this.log(chalk.red(`    ❌ Post step failed`));
+                run.results.push({ name: name, outcome: 'failure', conclusion: 'failure' });
+                if (run.status === 'success') {
+                    run.status = 'failure';
+                }
+            }
+        }
+    }
+
+    private async executeStep(run: JobRun, step: GitHubStep, stepId: string, stepLabel: string): Promise<boolean> {
+        let success = false;
+        try {
+            // Merge step-level environment variables
+            const env = { ...run.env, ...this.interpolateEnv(step.env, this.createExpressionContext(run)) };
+
+            run.commandFiles = createFileCommandFiles(path.join(this.runDirectory, 'steps', run.key, ...run.scope, stepId));
+
+            // Handle different step types
+            if (step.uses) {
+                success = await this.executeAction(run, step, stepId, stepLabel, env);
+            } else if (step.run) {
+                success = await this.executeScript(run, step, env);
+            } else {
+                this.log(chalk.yellow(`    ⚠️  Step has no 'uses' or 'run' - skipping`));
+                success = true;
+            }
+
+        } catch (error) {
+            this.log(chalk.red(`    ❌ Step execution failed: ${error}`));
+            success = false;
+        }
+
+        // Like GitHub, command files are processed even when the step failed
+        return this.applyFileCommands(run, stepId) && success;
+    }
+
+    /**
+     * Feed what a step wrote to GITHUB_OUTPUT, GITHUB_ENV, GITHUB_PATH and
+     * GITHUB_STEP_SUMMARY into the following steps.
+     */
+    private applyFileCommands(run: JobRun, stepId: string): boolean {
+        if (!run.commandFiles) return true;
+
+        try {
+            const results = readFileCommands(run.commandFiles);
+
+            // Outcome and conclusion are filled in by executeJob once the step has finished
+            const previous = run.steps[stepId];
+            run.steps[stepId] = {
+                outputs: { ...previous?.outputs, ...results.outputs },
+                outcome: previous?.outcome || 'success',
+                conclusion: previous?.conclusion || 'success'
+            };
+            // Env set inside a composite action stays set for the rest of the job
+            for (let scope: JobRun | undefined = run; scope; scope = scope.parent) {
+                Object.assign(scope.env, results.env);
+            }
+            run.path.unshift(...results.path.reverse());
+
+            const stateKey = [...run.scope, stepId].join('/');
+            run.state[stateKey] = { ...run.state[stateKey], ...results.state };
+
+            if (results.summary.trim()) {
+                this.stepSummaries.push({ job: run.name, content: results.summary });
+            }
+
+            if (this.verbose) {
+                for (const [name, value] of Object.entries(results.outputs)) {
+                    this.log(chalk.gray(`      📝 Output ${name}=${value}`));
+                }
+                for (const name of Object.keys(results.env)) {
+                    this.log(chalk.gray(`      📝 Env ${name} set for later steps`));
+                }
+                for (const directory of results.path) {
+                    this.log(chalk.gray(`      📝 Added to PATH: ${directory}`));
+                }
+            }
+            return true;
+
+        } catch (error) {
+            this.log(chalk.red(`      ❌ Unable to process file command: ${error}`));
+            return false;
+        } finally {
+            run.commandFiles = undefined;
+        }
+    }
+
+    private writeStepSummary(): boolean {
+        if (this.stepSummaries.length === 0) return false;
+
+        const sections: string[] = [];
+        let currentJob = '';
+        for (const summary of this.stepSummaries) {
+            if (summary.job !== currentJob) {
+                sections.push(`# ${summary.job}\n`);
+                currentJob = summary.job;
+            }
+            sections.push(summary.content.trimEnd() + '\n');
+        }
+
+        const summaryPath = path.join(this.runDirectory, 'step-summary.md');
+        fs.writeFileSync(summaryPath, sections.join('\n'));
+        this.log(chalk.blue(`\n📝 Step summary written to ${summaryPath}`));
+        return true;
+    }
+
+    /**
+     * Full environment of a step's process: the host env, GitHub's default variables,
+     * the step's command files, its declared env and PATH additions.
+     */
+    private processEnvironment(run: JobRun, env: Record<string, string>): Record<string, string | undefined> {
+        const processEnv: Record<string, string | undefined> = { ...process.env, ...this.stepEnvironment(run, env) };
+        if (run.path.length > 0) {
+            processEnv.PATH = [...run.path, processEnv.PATH].join(path.delimiter);
+        }
+        return processEnv;
+    }
+
+    /**
+     * The variables a step sets on top of the environment it runs in, without the host env
+     */
+    private stepEnvironment(run: JobRun, env: Record<string, string>): Record<string, string> {
+        return {
+            ...this.defaultEnvironment(run),
+            ...(run.commandFiles ? fileCommandEnvironment(run.commandFiles) : {}),
+            ...env
+        };
+    }
+
+    private async executeAction(run: JobRun, step: GitHubStep, stepId: string, stepLabel: string, env: Record<string, string>): Promise<boolean> {
+        const action = step.uses!;
+        const inputs = interpolateValue(step.with || {}, this.createExpressionContext(run, env));
+
+        if (action.startsWith('./') || action === '.') {
+            const actionDir = path.resolve(this.workingDirectory, action);
+            const definition = loadActionDefinition(actionDir);
+            if (!definition) {
+                this.log(chalk.red(`      ❌ Can't find 'action.yml' or 'action.yaml' under '${actionDir}'`));
+                return false;
+            }
+            return this.executeActionDefinition(run, step, stepId, stepLabel, definition, actionDir, inputs, env);
+        }
+        
+        if (/^actions\/cache(\/(restore|save))?@/.test(action)) {
+            return this.executeCacheAction(run, step, stepId, action, inputs);
+        }
+
+        if (action.startsWith('actions/upload-artifact@')) {
+            return this.uploadArtifact(run, inputs);
+        }
+
+        if (action.startsWith('actions/download-artifact@')) {
+            return this.downloadArtifact(run, inputs);
+        }
+
+        // Simulate common GitHub Actions
+        if (action.startsWith('actions/checkout')) {
+            this.log(chalk.blue(`      📥 Simulating checkout action`));
+            // In a real implementation, this would checkout the repository
+            return true;
+        }
+        
+        if (action.startsWith('actions/setup-node')) {
+            const version = inputs['node-version'] || '18';
+            this.log(chalk.blue(`      📦 Simulating Node.js setup (version: ${version})`));
+            // In a real implementation, this would setup Node.js
+            return this.checkSetupCache(run, 'node', inputs);
+        }
+
+        if (action.startsWith('actions/setup-python')) {
+            const version = inputs['python-version'] || '3.x';
+            this.log(chalk.blue(`      🐍 Simulating Python setup (version: ${version})`));
+            return this.checkSetupCache(run, 'python', inputs);
+        }
+
+        // Marketplace actions run from the local action store when they have been vendored there
+        const reference = parseActionReference(action);
+        if (reference) {
+            const actionDir = resolveActionDirectory(this.actionStore, reference);
+            const definition = fs.existsSync(actionDir) ? loadActionDefinition(actionDir) : null;
+            if (definition) {
+                this.log(chalk.blue(`      📦 Using ${action} from the local action store`));
+                return this.executeActionDefinition(run, step, stepId, stepLabel, definition, actionDir, inputs, env);
+            }
+
+            this.log(chalk.yellow(`      ⚠️  ${action} is not in the local action store - simulating it`));
+            this.log(chalk.gray(`         Vendor it with: git clone --depth 1 --branch ${reference.ref} https://github.com/${reference.owner}/${reference.repo} "${path.join(this.actionStore, reference.owner, `${reference.repo}@${reference.ref}`)}"`));
+            return true;
+        }
+
+        // For other actions, just log that we're simulating them
+        this.log(chalk.blue(`      🎬 Simulating action: ${action}`));
+        return true;
+    }
+
+    /**
+     * Emulate actions/cache and its restore/save sub-actions with the local cache store.
+     * A restore happens right away; on a miss the paths are saved once the job succeeded.
+     */
+    private executeCacheAction(run: JobRun, step: GitHubStep, stepId: string, action: string, inputs: Record<string, any>): boolean {
+        const variant = /^actions\/cache\/(restore|save)@/.exec(action)?.[1] || 'cache';
+        const key = String(inputs.key ?? '').trim();
+        const paths = parseCachePaths(inputs.path);
+
+        if (!key || paths.length === 0) {
+            this.log(chalk.red(`      ❌ Input required and not supplied: ${!key ? 'key' : 'path'}`));
+            return false;
+        }
+        if (key.includes(',') || key.length > 512) {
+            this.log(chalk.red(`      ❌ Key Validation Error: ${key} cannot contain commas or be longer than 512 characters`));
+            return false;
+        }
+
+        if (variant === 'save') {
+            return this.saveCache(key, paths);
+        }
+
+        const restoreKeys = String(inputs['restore-keys'] ?? '').split(/\r?\n/).map(line => line.trim()).filter(line => line.length > 0);
+        const entry = findCacheEntry(this.cacheStore, key, restoreKeys, cacheVersion(paths));
+        const exactHit = entry?.key === key;
+
+        if (entry) {
+            if (String(inputs['lookup-only']) === 'true') {
+                this.log(chalk.green(`      ♻️  Cache found for key: ${entry.key} (lookup only, nothing restored)`));
+            } else {
+                const count = restoreCacheEntry(entry, this.workingDirectory);
+                this.log(chalk.green(`      ♻️  Cache restored from key: ${entry.key} (${count} file(s))`));
+            }
+        } else if (String(inputs['fail-on-cache-miss']) === 'true') {
+            this.log(chalk.red(`      ❌ Failed to restore cache entry. Exiting as fail-on-cache-miss is set. Input key: ${key}`));
+            return false;
+        } else {
+            this.log(chalk.gray(`      🗄️  Cache not found for input keys: ${[key, ...restoreKeys].join(', ')}`));
+        }
+
+        if (run.commandFiles) {
+            fs.appendFileSync(run.commandFiles.output, [
+                `cache-hit=${exactHit}`,
+                `cache-primary-key=${key}`,
+                `cache-matched-key=${entry?.key || ''}`
+            ].join('\n') + '\n');
+        }
+
+        if (variant === 'cache' && !exactHit) {
+            run.post.push({
+                name: step.name || action,
+                condition: 'success()',
+                execute: async () => this.saveCache(key, paths)
+            });
+        }
+        return true;
+    }
+
+    /**
+     * Emulate actions/upload-artifact with the shared artifact store. Paths inside the
+     * artifact are relative to the common directory of the searched paths, like on GitHub.
+     */
+    private uploadArtifact(run: JobRun, inputs: Record<string, any>): boolean {
+        try {
+            const name = String(inputs.name || 'artifact');
+            const patterns = parseCachePaths(inputs.path);
+            if (patterns.length === 0) {
+                this.log(chalk.red(`      ❌ Input required and not supplied: path`));
+                return false;
+            }
+
+            const searchRoots = patterns.filter(pattern => !pattern.startsWith('!')).map(pattern => {
+                const base = patternBase(this.workingDirectory, pattern);
+                return fs.existsSync(base) && fs.statSync(base).isFile() ? path.dirname(base) : base;
+            });
+            const root = commonDirectory(searchRoots);
+
+            let files = findFiles(this.workingDirectory, patterns);
+            if (String(inputs['include-hidden-files']) !== 'true') {
+                files = files.filter(file => !path.relative(root, file).split(path.sep).some(part => part.startsWith('.')));
+            }
+
+            if (files.length === 0) {
+                const behavior = String(inputs['if-no-files-found'] || 'warn');
+                const message = `No files were found with the provided path: ${patterns.join(', ')}. No artifacts will be uploaded.`;
+                if (behavior === 'error') {
+                    this.log(chalk.red(`      ❌ ${message}`));
+                    return false;
+                }
+                if (behavior !== 'ignore') {
+                    this.log(chalk.yellow(`      ⚠️  ${message}`));
+                }
+                return true;
+            }
+
+            const artifact = this.artifacts.upload(name, files, root, String(inputs.overwrite) === 'true' ? 'overwrite' : 'error');
+            this.log(chalk.green(`      📤 Uploaded artifact '${name}': ${artifact.files} file(s), ${formatSize(artifact.size)}`));
+            if (run.commandFiles) {
+                fs.appendFileSync(run.commandFiles.output, `artifact-url=file://${artifact.directory}\n`);
+            }
+            return true;
+
+        } catch (error) {
+            this.log(chalk.red(`      ❌ Artifact upload failed: ${error instanceof Error ? error.message : error}`));
+            return false;
+        }
+    }
+
+    /**
+     * Emulate actions/download-artifact. Without a name every artifact (optionally filtered
+     * by `pattern`) is downloaded into a folder of its own, unless `merge-multiple` is set.
+     */
+    private downloadArtifact(run: JobRun, inputs: Record<string, any>): boolean {
+        try {
+            const target = path.resolve(this.workingDirectory, parseCachePaths(inputs.path)[0] || '.');
+
+            if (inputs.name) {
+                const artifact = this.artifacts.download(String(inputs.name), target);
+                this.log(chalk.green(`      📥 Downloaded artifact '${artifact.name}' to ${target}: ${artifact.files} file(s), ${formatSize(artifact.size)}`));
+            } else {
+                const pattern = inputs.pattern ? globToRegExp(String(inputs.pattern)) : null;
+                const artifacts = this.artifacts.list().filter(artifact => !pattern || pattern.test(artifact.name));
+                const merge = String(inputs['merge-multiple']) === 'true';
+                for (const artifact of artifacts) {
+                    this.artifacts.download(artifact.name, merge ? target : path.join(target, artifact.name));
+                }
+                this.log(chalk.green(`      📥 Downloaded ${artifacts.length} artifact(s) to ${target}`));
+            }
+
+            if (run.commandFiles) {
+                fs.appendFileSync(run.commandFiles.output, `download-path=${target}\n`);
+            }
+            return true;
+
+        } catch (error) {
+            this.log(chalk.red(`      ❌ Artifact download failed: ${error instanceof Error ? error.message : error}`));
+            return false;
+        }
+    }
+
+    /**
+     * Failing to save a cache only warns, like on GitHub
+     */
+    private saveCache(key: string, paths: string[]): boolean {
+        try {
+            const count = saveCacheEntry(this.cacheStore, key, paths, this.workingDirectory);
+            if (count === null) {
+                this.log(chalk.yellow(`      ⚠️  Cache not saved: an entry for key '${key}' already exists`));
+            } else {
+                this.log(chalk.green(`      💾 Cache saved with key: ${key} (${count} file(s))`));
+            }
+        } catch (error) {
+            this.log(chalk.yellow(`      ⚠️  Cache not saved: ${error instanceof Error ? error.message : error}`));
+        }
+        return true;
+    }
+
+    /**
+     * The `cache:` input of setup actions relies on the package manager's own cache, which
+     * already persists between local runs. The key is still computed so a missing lock file
+     * fails the step the way it would on GitHub.
+     */
+    private checkSetupCache(run: JobRun, tool: string, inputs: Record<string, any>): boolean {
+        const manager = String(inputs.cache ?? '').trim();
+        if (!manager) return true;
+
+        const lockFiles: Record<string, string> = {
+            npm: 'package-lock.json',
+            yarn: 'yarn.lock',
+            pnpm: 'pnpm-lock.yaml',
+            pip: '**/requirements.txt',
+            pipenv: '**/Pipfile.lock',
+            poetry: '**/poetry.lock'
+        };
+        if (!(manager in lockFiles)) {
+            this.log(chalk.red(`      ❌ Caching for '${manager}' is not supported`));
+            return false;
+        }
+
+        const patterns = inputs['cache-dependency-path'] ? parseCachePaths(inputs['cache-dependency-path']) : [lockFiles[manager]];
+        const hash = evaluateExpression(`hashFiles(${patterns.map(pattern => `'${pattern.replace(/'/g, "''")}'`).join(', ')})`, this.createExpressionContext(run));
+        if (!hash) {
+            this.log(chalk.red(`      ❌ Dependencies lock file is not found in ${this.workingDirectory}. Supported file patterns: ${patterns.join(', ')}`));
+            return false;
+        }
+
+        const key = `setup-${tool}-${this.runnerContext.os}-${this.runnerContext.arch}-${manager}-${hash}`;
+        this.log(chalk.blue(`      🗄️  ${manager} cache key: ${key} (the local ${manager} cache is used directly)`));
+        return true;
+    }
+
+    /**
+     * Run an action from its `action.yml`, depending on what it runs with
+     */
+    private async executeActionDefinition(
+        run: JobRun,
+        step: GitHubStep,
+        stepId: string,
+        stepLabel: string,
+        definition: ActionDefinition,
+        actionDir: string,
+        provided: Record<string, any>,
+        env: Record<string, string>
+    ): Promise<boolean> {
+        const using = definition.runs.using.toLowerCase();
+
+        if (using === 'composite') {
+            return this.executeCompositeAction(run, step, stepId, stepLabel, definition, actionDir, provided, env);
+        }
+
+        if (/^node\d+$/.test(using)) {
+            return this.executeNodeAction(run, step, stepId, definition, actionDir, provided, env);
+        }
+
+        this.log(chalk.yellow(`      ⚠️  '${using}' actions can't run locally - simulating ${step.uses}`));
+        return true;
+    }
+
+    /**
+     * Run a JavaScript action with the local Node. The `pre` entry points of the job's own
+     * steps ran when the job started; actions inside composite actions run it right before
+     * `main`. `post` is queued to run after the last step of the job.
+     */
+    private async executeNodeAction(
+        run: JobRun,
+        step: GitHubStep,
+        stepId: string,
+        definition: ActionDefinition,
+        actionDir: string,
+        provided: Record<string, any>,
+        env: Record<string, string>
+    ): Promise<boolean> {
+        const { warnings, runEntryPoint } = this.prepareNodeAction(run, step, stepId, definition, actionDir, provided, env);
+        for (const warning of warnings) {
+            this.log(chalk.yellow(`      ⚠️  ${warning}`));
+        }
+        if (run.containers?.job) {
+            this.log(chalk.gray(`      📝 JavaScript actions run on the host, not in the job container`));
+        }
+
+        const { pre, main, post } = definition.runs;
+        if (!main) {
+            this.log(chalk.red(`      ❌ ${step.uses} declares no 'runs.main' entry point`));
+            return false;
+        }
+
+        if (pre && run.scope.length > 0 && evaluateCondition(definition.runs['pre-if'] ?? 'always()', this.createExpressionContext(run, env))) {
+            if (!await runEntryPoint('pre', pre)) {
+                return false;
+            }
+        }
+
+        const success = await runEntryPoint('main', main);
+
+        if (post) {
+            run.post.push({
+                name: step.name || step.uses!,
+                condition: definition.runs['post-if'] ?? 'always()',
+                execute: async () => {
+                    run.commandFiles = createFileCommandFiles(path.join(this.runDirectory, 'steps', run.key, ...run.scope, `post-${stepId}`));
+                    const postSuccess = await runEntryPoint('post', post);
+                    return this.applyFileCommands(run, stepId) && postSuccess;
+                }
+            });
+        }
+
+        return success;
+    }
+
+    /**
+     * Bind the inputs of a JavaScript action and return a function that runs one of its
+     * entry points. State saved by one phase is visible to the phases after it.
+     */
+    private prepareNodeAction(
+        run: JobRun,
+        step: GitHubStep,
+        stepId: string,
+        definition: ActionDefinition,
+        actionDir: string,
+        provided: Record<string, any>,
+        env: Record<string, string>
+    ): { warnings: string[]; runEntryPoint: (phase: string, entryPoint: string) => Promise<boolean> } {
+        const callerContext = this.createExpressionContext(run, env);
+        const { inputs, warnings } = bindActionInputs(definition, provided, value => interpolateString(String(value), callerContext));
+
+        const reference = parseActionReference(step.uses!);
+        const actionEnv: Record<string, string> = {
+            GITHUB_ACTION_PATH: actionDir,
+            GITHUB_ACTION_REPOSITORY: reference ? `${reference.owner}/${reference.repo}` : '',
+            GITHUB_ACTION_REF: reference ? reference.ref : ''
+        };
+        for (const [name, value] of Object.entries(inputs)) {
+            actionEnv[inputEnvironmentName(name)] = value;
+        }
+
+        const stateKey = [...run.scope, stepId].join('/');
+        const runEntryPoint = async (phase: string, entryPoint: string): Promise<boolean> => {
+            const state: Record<string, string> = {};
+            for (const [name, value] of Object.entries(run.state[stateKey] || {})) {
+                state[`STATE_${name}`] = value;
+            }
+
+            this.log(chalk.blue(`      🟢 Running ${phase}: node ${entryPoint}`));
+            const result = await this.runProcess(process.execPath, this.workingDirectory, {
+                ...this.processEnvironment(run, env),
+                ...state,
+                ...actionEnv
+            }, [path.join(actionDir, entryPoint)]);
+
+            if (run.commandFiles) {
+                run.state[stateKey] = { ...run.state[stateKey], ...readFileCommands(run.commandFiles).state };
+            }
+            return this.reportProcessResult(run, result, 'Action');
+        };
+
+        return { warnings, runEntryPoint };
+    }
+
+    /**
+     * Run the `pre` entry points of the JavaScript actions among the job's steps before
+     * the first step, like GitHub does. `pre-if` decides whether they run; no step has
+     * run yet, so the steps context is empty. A failing `pre` fails the job.
+     */
+    private async executePreSteps(run: JobRun, steps: GitHubStep[]): Promise<void> {
+        for (let i = 0; i < steps.length; i++) {
+            const step = steps[i];
+            if (!step.uses || SIMULATED_ACTIONS.some(action => step.uses!.startsWith(action))) continue;
+
+            let action: { definition: ActionDefinition; actionDir: string } | null;
+            try {
+                action = this.findActionDefinition(step.uses);
+            } catch (error) {
+                // Reported when the step itself runs
+                continue;
+            }
+            const pre = action?.definition.runs.pre;
+            if (!action || !pre || !/^node\d+$/.test(action.definition.runs.using.toLowerCase())) continue;
+
+            const stepId = step.id || `__step${i + 1}`;
+            this.log(chalk.cyan(`    Pre: ${step.name || step.uses}`));
+
+            const context = this.createExpressionContext(run);
+            let shouldRun: boolean;
+            try {
+                shouldRun = evaluateCondition(action.definition.runs['pre-if'] ?? 'always()', context);
+            } catch (error) {
+                this.log(chalk.red(`    ❌ Could not evaluate the pre-if of '${step.uses}': ${error}`));
+                run.status = 'failure';
+                continue;
+            }
+            if (!shouldRun) {
+                this.log(chalk.gray(`    ⏭️  Pre step skipped: condition '${action.definition.runs['pre-if']}' is false`));
+                continue;
+            }
+
+            const env = { ...run.env, ...this.interpolateEnv(step.env, context) };
+            const provided = interpolateValue(step.with || {}, this.createExpressionContext(run, env));
+            const { runEntryPoint } = this.prepareNodeAction(run, step, stepId, action.definition, action.actionDir, provided, env);
+
+            run.commandFiles = createFileCommandFiles(path.join(this.runDirectory, 'steps', run.key, `pre-${stepId}`));
+            const success = await runEntryPoint('pre', pre);
+            if (this.applyFileCommands(run, stepId) && success) {
+                this.log(chalk.green(`    ✅ Pre step completed`));
+            } else {
+                this.log(chalk.red(`    ❌ Pre step failed`));
+                run.status = 'failure';
+            }
+        }
+    }
+
+    /**
+     * The metadata and directory of a local or vendored action, or null when there is
+     * none; those actions are reported or simulated when their step runs.
+     */
+    private findActionDefinition(uses: string): { definition: ActionDefinition; actionDir: string } | null {
+        const reference = parseActionReference(uses);
+        const actionDir = uses.startsWith('./') || uses === '.'
+            ? path.resolve(this.workingDirectory, uses)
+            : reference ? resolveActionDirectory(this.actionStore, reference) : null;
+        if (!actionDir || !fs.existsSync(actionDir)) return null;
+
+        const definition = loadActionDefinition(actionDir);
+        return definition ? { definition, actionDir } : null;
+    }
+
+    /**
+     * Run the steps of a composite action in their own `steps` and `inputs` scope.
+     * Env and PATH changes made by those steps carry over to the calling job.
+     */
+    private async executeCompositeAction(
+        run: JobRun,
+        step: GitHubStep,
+        stepId: string,
+        stepLabel: string,
+        definition: ActionDefinition,
+        actionDir: string,
+        provided: Record<string, any>,
+        env: Record<string, string>
+    ): Promise<boolean> {
+        if (run.scope.length >= MAX_ACTION_DEPTH) {
+            this.log(chalk.red(`      ❌ Composite actions are nested more than ${MAX_ACTION_DEPTH} levels deep`));
+            return false;
+        }
+
+        const callerContext = this.createExpressionContext(run, env);
+        const { inputs, warnings } = bindActionInputs(definition, provided, value => interpolateString(String(value), callerContext));
+        for (const warning of warnings) {
+            this.log(chalk.yellow(`      ⚠️  ${warning}`));
+        }
+
+        this.log(chalk.blue(`      🧩 Running composite action: ${definition.name || step.uses}`));
+
+        const actionRun: JobRun = {
+            ...run,
+            env: { ...env },
+            steps: {},
+            inputs: inputs,
+            status: 'success',
+            results: [],
+            commandFiles: undefined,
+            parent: run,
+            scope: [...run.scope, stepId],
+            actionPath: actionDir
+        };
+
+        await this.executeSteps(actionRun, (definition.runs.steps || []) as GitHubStep[], `${stepLabel}.`);
+
+        const outputContext = this.createExpressionContext(actionRun);
+        const outputs: Record<string, string> = {};
+        for (const [name, output] of Object.entries(definition.outputs || {})) {
+            outputs[name] = output?.value !== undefined ? interpolateString(String(output.value), outputContext) : '';
+        }
+        run.steps[stepId] = {
+            outputs: { ...run.steps[stepId]?.outputs, ...outputs },
+            outcome: actionRun.status === 'success' ? 'success' : 'failure',
+            conclusion: actionRun.status === 'success' ? 'success' : 'failure'
+        };
+
+        return actionRun.status === 'success';
+    }
+
+    private async executeScript(run: JobRun, step: GitHubStep, env: Record<string, string>): Promise<boolean> {
+        try {
+            const context = this.createExpressionContext(run, env);
+            const script = interpolateString(step.run!, context);
+
+            // Composite actions must name their shell, and job or workflow defaults don't apply to them
+            const inComposite = run.scope.length > 0;
+            const defaults = inComposite ? {} : { ...run.workflow.defaults.run, ...run.job.defaults?.run };
+            if (inComposite && !step.shell) {
+                this.log(chalk.red(`      ❌ Steps of composite actions must set 'shell'`));
+                return false;
+            }
+
+            const workingDirectory = step['working-directory'] || defaults['working-directory'];
+            const workingDir = workingDirectory
+                ? path.resolve(this.workingDirectory, interpolateString(workingDirectory, context))
+                : this.workingDirectory;
+            if (!fs.existsSync(workingDir)) {
+                this.log(chalk.red(`      ❌ Working directory does not exist: ${workingDir}`));
+                return false;
+            }
+
+            // In a job container the image decides which shells exist
+            const jobContainer = run.containers?.job;
+            const shell = resolveShell(step.shell || defaults.shell, jobContainer ? command => command !== 'bash' || jobContainer.hasBash : undefined);
+            const executable = shellExecutable(shell);
+            if (!jobContainer && !path.isAbsolute(executable) && !isCommandAvailable(executable)) {
+                this.log(chalk.red(`      ❌ Shell '${shell.name}' is not available: '${executable}' was not found on PATH`));
+                return false;
+            }
+
+            // Like GitHub, the script is written to a file that the shell runs
+            const scriptDir = path.join(this.runDirectory, 'steps', 'scripts');
+            fs.mkdirSync(scriptDir, { recursive: true });
+            const scriptPath = path.join(scriptDir, `${crypto.randomUUID()}${shell.extension}`);
+            fs.writeFileSync(scriptPath, prepareScript(shell, script));
+            const { command, args } = buildShellCommand(shell, scriptPath);
+
+            this.log(chalk.blue(`      🔧 Executing ${shell.name} script in ${workingDir}${jobContainer ? ' (job container)' : ''}`));
+            
+            if (this.verbose) {
+                this.log(chalk.gray(`      🐚 Shell: ${[command, ...args].join(' ')}`));
+                this.log(chalk.gray(`      📜 Script: ${script}`));
+            }
+
+            // Execute the script
+            const result = jobContainer
+                ? await this.runInContainer(run, jobContainer.id, workingDir, env, command, args)
+                : await this.runProcess(command, workingDir, this.processEnvironment(run, env), args);
+            return this.reportProcessResult(run, result, 'Script');
+
+        } catch (error) {
+            this.log(chalk.red(`      ❌ Script execution error: ${error}`));
+            return false;
+        }
+    }
+
+    /**
+     * Run a command inside the job container. Step variables are handed to the container CLI
+     * through its own environment, so their values never show up on a command line.
+     */
+    private runInContainer(run: JobRun, containerId: string, workingDir: string, env: Record<string, string>, command: string, args: string[]): Promise<ProcessResult> {
+        const stepEnv = this.stepEnvironment(run, env);
+        const names = Object.keys(stepEnv).filter(name => name !== 'PATH');
+        if (run.path.length > 0 || stepEnv.PATH) {
+            // The host PATH means nothing inside the image
+            names.push(`PATH=${[...run.path, stepEnv.PATH || DEFAULT_CONTAINER_PATH].join(':')}`);
+        }
+        delete stepEnv.PATH;
+
+        const cliArgs = this.containerCli.execArgs(containerId, workingDir, names, command, args);
+        return this.runProcess(this.containerCli.command, workingDir, { ...process.env, ...stepEnv }, cliArgs);
+    }
+
+    private reportProcessResult(run: JobRun, result: ProcessResult, kind: string): boolean {
+        this.annotations.push(...result.output.annotations.map(annotation => ({ ...annotation, job: run.name })));
+
+        if (result.status === 0) {
+            // Groups stay folded for successful steps
+            const output = result.output.render(false).join('\n').trim();
+            if (!this.verbose && output) {
+                this.log(chalk.gray(`      📄 Output: ${output}`));
+            }
+            return true;
+        }
+
+        this.log(chalk.red(`      ❌ ${kind} failed with exit code: ${result.status ?? 'unknown'}`));
+        const output = result.output.render(true).join('\n');
+        if (!this.verbose && output) {
+            this.log(chalk.gray(`      📄 stdout: ${output}`));
+        }
+        if (!this.verbose && result.stderr) {
+            this.log(chalk.red(`      📄 stderr: ${result.stderr}`));
+        }
+        return false;
+    }
+
+    /**
+     * Run a command without blocking the event loop so independent jobs can run side by side.
+     * Without `args` the command goes through the system shell. Workflow commands in stdout
+     * are processed, and output is streamed in verbose mode and collected otherwise.
+     */
+    private runProcess(command: string, cwd: string, env: Record<string, any>, args?: string[]): Promise<ProcessResult> {
+        return new Promise((resolve, reject) => {
+            const child = spawn(command, args || [], {
+                cwd: cwd,
+                env: env,
+                shell: !args,
+                stdio: ['ignore', 'pipe', 'pipe']
+            });
+
+            const output = new WorkflowCommandProcessor(this.masker, this.verbose, this.verbose ? line => this.log(line) : undefined);
+            let stderr = '';
+
+            child.stdout.on('data', (chunk: Buffer) => {
+                output.write(chunk.toString());
+            });
+            child.stderr.on('data', (chunk: Buffer) => {
+                stderr += chunk.toString();
+                if (this.verbose) process.stderr.write(this.masker.mask(chunk.toString()));
+            });
+
+            child.on('error', reject);
+            child.on('close', status => {
+                output.flush();
+                resolve({ status, output, stderr: this.masker.mask(stderr) });
+            });
+        });
     }
 
     private log(message: string): void {
-        console.log(message);
+        console.log(this.masker.mask(message));
     }
 }
@@ -0,0 +1,169 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { walkFiles } from './fileGlob';
+
+export interface ArtifactInfo {
+    name: string;
+    files: number;
+    /** Total size in bytes */
+    size: number;
+    directory: string;
+}
+
+/** Written into every store directory, so only directories created by a store are ever cleared */
+const STORE_MARKER = '.localpipe-artifacts';
+
+/**
+ * Artifacts shared between the jobs of a run, kept in `<output>/artifacts`. Every runner
+ * uploads into and downloads from the same layout: one folder per artifact name.
+ */
+export class ArtifactStore {
+    private constructor(readonly root: string, readonly temporary: boolean) {}
+
+    /**
+     * Open the store for a new run. Artifacts of a previous run in the same output
+     * directory are replaced, but a non-empty `artifacts` folder the store didn't create
+     * is left alone and the run refuses to start. Without an output directory a temporary
+     * store is used, which `dispose` removes again.
+     */
+    static open(outputDir?: string): ArtifactStore {
+        if (!outputDir) {
+            const root = fs.mkdtempSync(path.join(os.tmpdir(), 'localpipe-artifacts-'));
+            fs.writeFileSync(path.join(root, STORE_MARKER), '');
+            return new ArtifactStore(root, true);
+        }
+
+        const root = path.resolve(outputDir, 'artifacts');
+        if (fs.existsSync(root)) {
+            if (!fs.existsSync(path.join(root, STORE_MARKER)) && fs.readdirSync(root).length > 0) {
+                throw new Error(`${root} already exists and wasn't created by localpipe; move it or choose another output directory`);
+            }
+            fs.rmSync(root, { recursive: true, force: true });
+        }
+        fs.mkdirSync(root, { recursive: true });
+        fs.writeFileSync(path.join(root, STORE_MARKER), '');
+        return new ArtifactStore(root, false);
+    }
+
+    /**
+     * Copy files into a named artifact, keeping their paths relative to `rootDir`.
+     * `existing` decides what happens when the artifact was already uploaded: fail,
+     * replace it, or add the files to it (like Azure build artifacts).
+     */
+    upload(name: string, files: string[], rootDir: string, existing: 'error' | 'overwrite' | 'merge' = 'error'): ArtifactInfo {
+        validateArtifactName(name);
+        const directory = path.join(this.root, name);
+        if (fs.existsSync(directory)) {
+            if (existing === 'error') {
+                throw new Error(`An artifact with the name '${name}' already exists`);
+            }
+            if (existing === 'overwrite') {
+                fs.rmSync(directory, { recursive: true, force: true });
+            }
+        }
+
+        for (const file of files) {
+            const relative = path.relative(rootDir, file);
+            if (!relative || relative.startsWith('..') || path.isAbsolute(relative)) {
+                throw new Error(`${file} is not inside ${rootDir}`);
+            }
+            const target = path.join(directory, relative);
+            fs.mkdirSync(path.dirname(target), { recursive: true });
+            fs.copyFileSync(file, target);
+        }
+        fs.mkdirSync(directory, { recursive: true });
+
+        return this.describe(name);
+    }
+
+    /**
+     * Copy the contents of an artifact into `targetDir`. Throws when it doesn't exist.
+     */
+    download(name: string, targetDir: string): ArtifactInfo {
+        validateArtifactName(name);
+        if (!this.has(name)) {
+            const available = this.list().map(artifact => artifact.name);
+            throw new Error(`Artifact not found for name: ${name}${available.length > 0 ? ` (available: ${available.join(', ')})` : ''}`);
+        }
+
+        fs.mkdirSync(targetDir, { recursive: true });
+        fs.cpSync(path.join(this.root, name), targetDir, { recursive: true, force: true });
+        return this.describe(name);
+    }
+
+    has(name: string): boolean {
+        return fs.existsSync(path.join(this.root, name));
+    }
+
+    list(): ArtifactInfo[] {
+        if (!fs.existsSync(this.root)) return [];
+        return fs.readdirSync(this.root, { withFileTypes: true })
+            .filter(entry => entry.isDirectory())
+            .map(entry => this.describe(entry.name))
+            .sort((a, b) => a.name.localeCompare(b.name));
+    }
+
+    dispose(): void {
+        if (this.temporary) {
+            fs.rmSync(this.root, { recursive: true, force: true });
+        }
+    }
+
+    private describe(name: string): ArtifactInfo {
+        const directory = path.join(this.root, name);
+        const files = walkFiles(directory);
+        const size = files.reduce((total, file) => total + fs.statSync(file).size, 0);
+        return { name, files: files.length, size, directory };
+    }
+}
+
+/**
+ * The deepest directory containing all given directories
+ */
+export function commonDirectory(directories: string[]): string {
+    if (directories.length === 0) return '';
+
+    let common = path.resolve(directories[0]).split(path.sep);
+    for (const directory of directories.slice(1)) {
+        const parts = path.resolve(directory).split(path.sep);
+        let i = 0;
+        while (i < common.length && i < parts.length && common[i] === parts[i]) i++;
+        common = common.slice(0, i);
+    }
+    return common.join(path.sep) || path.sep;
+}
+
+/**
+ * Lines for the end-of-run artifact summary
+ */
+export function formatArtifactSummary(artifacts: ArtifactInfo[]): string[] {
+    const width = Math.max(...artifacts.map(artifact => artifact.name.length));
+    return artifacts.map(artifact =>
+        `${artifact.name.padEnd(width)}  ${formatSize(artifact.size).padStart(9)}  ${artifact.files} file${artifact.files === 1 ? '' : 's'}`
+    );
+}
+
+export function formatSize(bytes: number): string {
+    const units = ['B', 'KB', 'MB', 'GB'];
+    let size = bytes;
+    let unit = 0;
+    while (size >= 1024 && unit < units.length - 1) {
+        size /= 1024;
+        unit++;
+    }
+    return `${unit === 0 ? size : size.toFixed(1)} ${units[unit]}`;
+}
+
+function validateArtifactName(name: string): void {
+    if (!name || /[\\/":<>|*?\r\n]/.test(name)) {
+        throw new Error(`Invalid artifact name '${name}': it can't be empty or contain \\ / " : < > | * ? or line breaks`);
+    }
+    // '.' and '..' would name the store itself or the output directory around it
+    if (/^[.\s]+$/.test(name)) {
+        throw new Error(`Invalid artifact name '${name}': it can't consist of only dots and whitespace`);
+    }
+    if (name === STORE_MARKER) {
+        throw new Error(`Invalid artifact name '${name}': it is reserved by localpipe`);
+    }
+}
@@ -0,0 +1,139 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+const GLOB_CHARS = /[*?[{]/;
+
+/**
+ * Convert a glob pattern to a regular expression matching forward-slash paths.
+ * Supports `*`, `**`, `?`, `[...]` character classes and `{a,b}` alternatives.
+ */
+export function globToRegExp(pattern: string): RegExp {
+    let source = '';
+    let braceDepth = 0;
+
+    for (let i = 0; i < pattern.length; i++) {
+        const char = pattern[i];
+
+        if (char === '*') {
+            if (pattern[i + 1] === '*') {
+                const atSegmentStart = i === 0 || pattern[i - 1] === '/';
+                if (atSegmentStart && pattern[i + 2] === '/') {
+                    source += '(?:.*/)?';
+                    i += 2;
+                } else {
+                    source += '.*';
+                    i += 1;
+                }
+            } else {
+                source += '[^/]*';
+            }
+        } else if (char === '?') {
+            source += '[^/]';
+        } else if (char === '[') {
+            const end = pattern.indexOf(']', i + 1);
+            if (end === -1) {
+                source += '\\[';
+            } else {
+                source += '[' + pattern.slice(i + 1, end).replace(/^!/, '^').replace(/\\/g, '\\\\') + ']';
+                i = end;
+            }
+        } else if (char === '{') {
+            braceDepth++;
+            source += '(?:';
+        } else if (char === '}' && braceDepth > 0) {
+            braceDepth--;
+            source += ')';
+        } else if (char === ',' && braceDepth > 0) {
+            source += '|';
+        } else {
+            source += char.replace(/[.+^$()|\\\]]/g, '\\$&');
+        }
+    }
+
+    return new RegExp(`^${source}$`);
+}
+
+/**
+ * Find files matching a list of glob patterns, resolved against the root directory.
+ * Patterns prefixed with `!` exclude previously matched files, and a pattern naming
+ * a directory matches every file below it. Returns sorted absolute paths.
+ */
+export function findFiles(rootDir: string, patterns: string[]): string[] {
+    const matched = new Set<string>();
+
+    for (const rawPattern of patterns) {
+        const trimmed = rawPattern.trim();
+        if (!trimmed || trimmed.startsWith('#')) continue;
+
+        const exclude = trimmed.startsWith('!');
+        const pattern = toPosix(path.resolve(rootDir, exclude ? trimmed.slice(1) : trimmed));
+        const regex = globToRegExp(pattern);
+        const directoryRegex = globToRegExp(pattern.replace(/\/+$/, '') + '/**');
+
+        if (exclude) {
+            for (const file of [...matched]) {
+                const posixFile = toPosix(file);
+                if (regex.test(posixFile) || directoryRegex.test(posixFile)) {
+                    matched.delete(file);
+                }
+            }
+            continue;
+        }
+
+        for (const file of walkFiles(staticBase(pattern))) {
+            const posixFile = toPosix(file);
+            if (regex.test(posixFile) || directoryRegex.test(posixFile)) {
+                matched.add(file);
+            }
+        }
+    }
+
+    return [...matched].sort();
+}
+
+/**
+ * List every file below a directory (or the path itself when it is a file),
+ * skipping `.git` folders.
+ */
+export function walkFiles(start: string): string[] {
+    if (!fs.existsSync(start)) return [];
+
+    const stat = fs.statSync(start);
+    if (stat.isFile()) return [start];
+    if (!stat.isDirectory()) return [];
+
+    const files: string[] = [];
+    for (const entry of fs.readdirSync(start, { withFileTypes: true })) {
+        if (entry.name === '.git') continue;
+
+        const fullPath = path.join(start, entry.name);
+        if (entry.isDirectory()) {
+            files.push(...walkFiles(fullPath));
+        } else if (entry.isFile() || (entry.isSymbolicLink() && fs.existsSync(fullPath) && fs.statSync(fullPath).isFile())) {
+            files.push(fullPath);
+        }
+    }
+
+    return files;
+}
+
+/**
+ * The part of a pattern before its first glob segment, resolved against `rootDir`
+ */
+export function patternBase(rootDir: string, pattern: string): string {
+    return path.resolve(staticBase(toPosix(path.resolve(rootDir, pattern.trim()))));
+}
+
+function staticBase(pattern: string): string {
+    const segments = pattern.split('/');
+    const base: string[] = [];
+    for (const segment of segments) {
+        if (GLOB_CHARS.test(segment)) break;
+        base.push(segment);
+    }
+    return base.join('/') || '/';
+}
+
+function toPosix(filePath: string): string {
+    return filePath.split(path.sep).join('/');
+}
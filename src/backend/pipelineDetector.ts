@@ -4,7 +4,7 @@ import * as yaml from 'js-yaml';
 import { GitHubActionsRunner } from './Implementations/githubActionsRunner';
 import { AzurePipelineRunner } from './Implementations/azurePipelineRunner';
 import { CodeMagicRunner } from './Implementations/codemagicRunner';
-import { Pipeline } from './pipelineInterface';
+import { Pipeline, RunnerOptions } from './pipelineInterface';
 import chalk from 'chalk';
 import inquirer from 'inquirer';
 
@@ -140,14 +140,14 @@ export class PipelineDetector {
     /**
      * Create the appropriate pipeline runner based on the detected type
      */
-    createRunner(pipelineType: PipelineType): Pipeline | null {
+    createRunner(pipelineType: PipelineType, options: RunnerOptions = {}): Pipeline | null {
         switch (pipelineType) {
             case PipelineType.GITHUB_ACTIONS:
-                return new GitHubActionsRunner(this.verbose);
+                return new GitHubActionsRunner(this.verbose, options);
             case PipelineType.AZURE_DEVOPS:
-                return new AzurePipelineRunner(this.verbose);
+                return new AzurePipelineRunner(this.verbose, options);
             case PipelineType.CODEMAGIC:
-                return new CodeMagicRunner(this.verbose);
+                return new CodeMagicRunner(this.verbose, options);
             default:
                 return null;
         }
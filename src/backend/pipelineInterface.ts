@@ -1,4 +1,32 @@
 
+/**
+ * Options passed from the command line to every runner.
+ */
+export interface RunnerOptions {
+    /** Directory for run outputs such as artifacts */
+    outputDir?: string;
+    /** Only run matrix instances with these values, e.g. { node: '20' } */
+    matrix?: Record<string, string>;
+    /** Directory of vendored actions, laid out as <owner>/<repo>@<ref> */
+    actionsDir?: string;
+    /** Directory of the local actions/cache store */
+    cacheDir?: string;
+    /** Name of the simulated triggering event, e.g. push or workflow_dispatch */
+    event?: string;
+    /** JSON file with the payload of the simulated event */
+    eventPayload?: string;
+    /** Values for workflow inputs, e.g. workflow_dispatch inputs */
+    inputs?: Record<string, string>;
+    /** Approve protected environments without prompting */
+    yes?: boolean;
+    /** Local directories of Azure `resources.repositories`, by alias */
+    repositories?: Record<string, string>;
+    /** Docker compatible CLI that runs job containers and services, e.g. podman */
+    containerCli?: string;
+    /** Run only the selected workflow, stage or job, without what it depends on */
+    only?: boolean;
+}
+
 export interface Pipeline {
    
     /**
@@ -13,6 +41,7 @@ export interface Pipeline {
      * Lists available workflows in the pipeline.
      * @param input The input data for the pipeline.
      * @returns Array of workflow names.
+     * @throws May throw when the pipeline can't be read, which callers report as an error.
      */
     listWorkflows?(inputPath: string): string[];
 }
\ No newline at end of file
@@ -32,7 +32,7 @@ const sections = [
     {
         header: chalk.magenta("Usage"),
         content: [
-            "$ localpipe --input {underline path} [--output {underline path}] [--verbose] [--type {underline type}] [--workflow {underline name}]",
+            "$ localpipe --input {underline path} [--output {underline path}] [--verbose] [--type {underline type}] [--workflow {underline name}] [--only] [--matrix {underline key=value}] [--event {underline name}] [--input-var {underline name=value}]",
             "$ localpipe -i {underline path} [-o {underline path}] [-v] [-t {underline type}] [-w {underline name}]",
             "$ localpipe --list {underline directory} [--verbose]",
             "$ localpipe -l {underline directory} [-v]",
@@ -54,7 +54,7 @@ const sections = [
                 alias: "o",
                 type: String,
                 typeLabel: "{underline path}",
-                description: "Path to the output directory (optional)."
+                description: "Output directory; artifacts of the run are kept in <path>/artifacts (optional)."
             },
             {
                 name: "verbose",
@@ -75,7 +75,70 @@ const sections = [
                 alias: "w",
                 type: String,
                 typeLabel: "{underline name}",
-                description: "Select specific workflow to run (useful for multi-workflow files)."
+                description: "Select specific workflow to run (useful for multi-workflow files). For Azure, a stage or job: Build or Build.UnitTests."
+            },
+            {
+                name: "only",
+                type: Boolean,
+                typeLabel: "",
+                description: "Run only the selected Azure stage or job, without the stages and jobs it depends on."
+            },
+            {
+                name: "matrix",
+                alias: "m",
+                type: String,
+                typeLabel: "{underline key=value}",
+                description: "Only run matrix jobs whose matrix value matches, e.g. --matrix node=20 (repeatable). For Azure, --matrix Job=leg runs a single leg of a job."
+            },
+            {
+                name: "actions-dir",
+                type: String,
+                typeLabel: "{underline path}",
+                description: "Directory of vendored GitHub actions laid out as <owner>/<repo>@<ref> (default: ~/.localpipe/actions)."
+            },
+            {
+                name: "cache-dir",
+                type: String,
+                typeLabel: "{underline path}",
+                description: "Directory where actions/cache entries are kept between runs (default: ~/.localpipe/cache)."
+            },
+            {
+                name: "event",
+                alias: "e",
+                type: String,
+                typeLabel: "{underline name}",
+                description: "GitHub event that triggers the run: push, pull_request, workflow_dispatch, ... (default: push)."
+            },
+            {
+                name: "event-payload",
+                type: String,
+                typeLabel: "{underline file}",
+                description: "JSON file with the payload of the event, exposed as github.event."
+            },
+            {
+                name: "input-var",
+                type: String,
+                typeLabel: "{underline name=value}",
+                description: "Value for a workflow_dispatch input or an Azure runtime parameter; missing inputs are prompted for (repeatable)."
+            },
+            {
+                name: "yes",
+                alias: "y",
+                type: Boolean,
+                typeLabel: "",
+                description: "Approve deployments to protected environments without prompting."
+            },
+            {
+                name: "container-cli",
+                type: String,
+                typeLabel: "{underline command}",
+                description: "Docker compatible CLI for job containers and services (default: docker, or podman when docker is missing)."
+            },
+            {
+                name: "repo",
+                type: String,
+                typeLabel: "{underline alias=path}",
+                description: "Local checkout of an Azure resources.repositories entry, used for template@alias references (repeatable)."
             },
             {
                 name: "list",
@@ -3,6 +3,7 @@
 import commandlineArgs from 'command-line-args';
 import * as consoleUsage from './consoleUsage';
 import { PipelineDetector, PipelineType } from './backend/pipelineDetector';
+import { RunnerOptions } from './backend/pipelineInterface';
 import chalk from 'chalk';
 import * as path from 'path';
 
@@ -13,7 +14,17 @@ const mainDefs: commandlineArgs.OptionDefinition[] = [
     { name: "type", alias: "t", type: String},
     { name: "list", alias: "l", type: Boolean, defaultValue: false},
     { name: "workflow", alias: "w", type: String},
+    { name: "only", type: Boolean, defaultValue: false},
     { name: "list-workflows", type: Boolean, defaultValue: false},
+    { name: "matrix", alias: "m", type: String, multiple: true},
+    { name: "actions-dir", type: String},
+    { name: "cache-dir", type: String},
+    { name: "event", alias: "e", type: String},
+    { name: "event-payload", type: String},
+    { name: "input-var", type: String, multiple: true},
+    { name: "yes", alias: "y", type: Boolean, defaultValue: false},
+    { name: "container-cli", type: String},
+    { name: "repo", type: String, multiple: true},
 ];
 
 const mainOptions = commandlineArgs(mainDefs, { stopAtFirstUnknown: true });
@@ -32,9 +43,41 @@ async function main() {
         return;
     }
 
+    const matrixFilter = parseKeyValuePairs(mainOptions.matrix, 'matrix');
+    if (!matrixFilter) {
+        return;
+    }
+
+    const inputValues = parseKeyValuePairs(mainOptions['input-var'], 'input-var');
+    if (!inputValues) {
+        return;
+    }
+
+    const repositories = parseKeyValuePairs(mainOptions.repo, 'repo');
+    if (!repositories) {
+        return;
+    }
+
+    // Listing workflows needs the same options as running them, e.g. --repo for Azure templates
+    const runnerOptions: RunnerOptions = {
+        outputDir: mainOptions.output,
+        matrix: matrixFilter,
+        actionsDir: mainOptions['actions-dir'],
+        cacheDir: mainOptions['cache-dir'],
+        event: mainOptions.event,
+        eventPayload: mainOptions['event-payload'],
+        inputs: inputValues,
+        yes: mainOptions.yes,
+        containerCli: mainOptions['container-cli'],
+        repositories: repositories,
+        only: mainOptions.only
+    };
+
     // If list-workflows flag is provided, list workflows in the pipeline
     if (mainOptions['list-workflows']) {
-        listWorkflows(detector, mainOptions.input, mainOptions.type);
+        if (!listWorkflows(detector, mainOptions.input, runnerOptions, mainOptions.type)) {
+            process.exitCode = 1;
+        }
         return;
     }
 
@@ -73,7 +116,7 @@ async function main() {
     console.log(chalk.blue(`🔍 Pipeline type: ${pipelineType}`));
 
     // Create and execute pipeline runner
-    const runner = detector.createRunner(pipelineType);
+    const runner = detector.createRunner(pipelineType, runnerOptions);
     if (!runner) {
         console.log(chalk.red(`❌ Could not create runner for pipeline type: ${pipelineType}`));
         return;
@@ -90,6 +133,10 @@ async function main() {
         console.log(chalk.blue(`🎯 Target workflow: ${mainOptions.workflow}`));
     }
 
+    if (Object.keys(matrixFilter).length > 0) {
+        console.log(chalk.blue(`🧮 Matrix filter: ${Object.entries(matrixFilter).map(([key, value]) => `${key}=${value}`).join(', ')}`));
+    }
+
     const startTime = Date.now();
     
     try {
@@ -109,7 +156,26 @@ async function main() {
     }
 }
 
-function listWorkflows(detector: PipelineDetector, inputPath: string, specifiedType?: string) {
+/**
+ * Parse repeated `name=value` options into a record. Returns null (after reporting) on malformed entries.
+ */
+function parseKeyValuePairs(values: string[] | undefined, optionName: string): Record<string, string> | null {
+    const result: Record<string, string> = {};
+    for (const value of values || []) {
+        const separator = value.indexOf('=');
+        if (separator <= 0) {
+            console.log(chalk.red(`❌ Invalid --${optionName} value '${value}', expected name=value`));
+            return null;
+        }
+        result[value.slice(0, separator).trim()] = value.slice(separator + 1);
+    }
+    return result;
+}
+
+/**
+ * Print the workflows of a pipeline. Returns false when they could not be listed.
+ */
+function listWorkflows(detector: PipelineDetector, inputPath: string, options: RunnerOptions, specifiedType?: string): boolean {
     console.log(chalk.blue(`🔍 Searching for workflows in: ${path.resolve(inputPath)}`));
     
     // Determine pipeline type
@@ -119,7 +185,7 @@ function listWorkflows(detector: PipelineDetector, inputPath: string, specifiedT
         pipelineType = specifiedType.toLowerCase() as PipelineType;
         if (!Object.values(PipelineType).includes(pipelineType)) {
             console.log(chalk.red(`❌ Unsupported pipeline type: ${specifiedType}`));
-            return;
+            return false;
         }
     } else {
         pipelineType = detector.detectPipelineType(inputPath);
@@ -128,21 +194,27 @@ function listWorkflows(detector: PipelineDetector, inputPath: string, specifiedT
     if (pipelineType === PipelineType.UNKNOWN) {
         console.log(chalk.red('❌ Could not detect pipeline type'));
         console.log(chalk.yellow('💡 Try specifying the type explicitly with --type flag'));
-        return;
+        return false;
     }
 
     // Create runner and list workflows
-    const runner = detector.createRunner(pipelineType);
+    const runner = detector.createRunner(pipelineType, options);
     if (!runner || !runner.listWorkflows) {
         console.log(chalk.red(`❌ Could not create runner or runner doesn't support listing workflows`));
-        return;
+        return false;
     }
 
-    const workflows = runner.listWorkflows(inputPath);
+    let workflows: string[];
+    try {
+        workflows = runner.listWorkflows(inputPath);
+    } catch (error) {
+        console.log(chalk.red(`❌ Could not list workflows: ${error instanceof Error ? error.message : error}`));
+        return false;
+    }
     
     if (workflows.length === 0) {
         console.log(chalk.yellow('⚠️  No workflows found'));
-        return;
+        return true;
     }
 
     console.log(chalk.green(`\n📋 Found ${workflows.length} workflow(s) in ${pipelineType}:`));
@@ -153,6 +225,7 @@ function listWorkflows(detector: PipelineDetector, inputPath: string, specifiedT
     });
 
     console.log(chalk.blue('\n💡 Run with a specific workflow: localpipe --input <path> --workflow <workflow-name>'));
+    return true;
 }
 
 function listPipelineFiles(detector: PipelineDetector, inputPath: string) {
@@ -0,0 +1,273 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { AzurePipelineRunner } from '../../src/backend/Implementations/azurePipelineRunner';
+import { isCommandAvailable } from '../../src/backend/Implementations/github/shells';
+import { RunnerOptions } from '../../src/backend/pipelineInterface';
+
+/**
+ * Write `azure-pipelines.yml` and other files into a temporary repository and run it,
+ * or only the stage or job named by `workflow`
+ */
+async function runPipeline(
+    t: any,
+    pipeline: string,
+    files: Record<string, string> = {},
+    options: RunnerOptions = {},
+    workflow?: string
+): Promise<{ result: Boolean | undefined; output: string }> {
+    const root = fs.mkdtempSync(path.join(os.tmpdir(), 'localpipe-test-'));
+    for (const [name, content] of Object.entries({ ...files, 'azure-pipelines.yml': pipeline })) {
+        fs.mkdirSync(path.dirname(path.join(root, name)), { recursive: true });
+        fs.writeFileSync(path.join(root, name), content);
+    }
+
+    const lines: string[] = [];
+    t.mock.method(console, 'log', (message: any) => lines.push(String(message)));
+    try {
+        const result = await new AzurePipelineRunner(false, options).execute(path.join(root, 'azure-pipelines.yml'), workflow);
+        return { result, output: lines.join('\n') };
+    } finally {
+        t.mock.restoreAll();
+        fs.rmSync(root, { recursive: true, force: true });
+    }
+}
+
+test('stages and jobs run in dependsOn order and honor their conditions', { skip: process.platform === 'win32' }, async t => {
+    const { result, output } = await runPipeline(t, `
+stages:
+  - stage: Build
+    jobs:
+      - job: Report
+        dependsOn: [Compile, Lint]
+        condition: and(failed(), eq(dependencies.Lint.result, 'Succeeded'))
+        steps:
+          - script: echo reporting
+      - job: Compile
+        steps:
+          - script: exit 1
+      - job: Lint
+        steps:
+          - script: echo linting
+  - stage: Deploy
+    jobs:
+      - job: Ship
+        steps:
+          - script: echo shipping
+  - stage: Cleanup
+    dependsOn: [Build, Deploy]
+    condition: failed()
+    jobs:
+      - job: Clean
+        steps:
+          - script: echo cleaning
+`);
+
+    assert.equal(result, false);
+    const started = [...output.matchAll(/Starting (?:stage|job): (\w+)/g)].map(match => match[1]);
+    assert.deepEqual(started, ['Build', 'Compile', 'Lint', 'Report', 'Cleanup', 'Clean']);
+    assert.match(output, /Skipping stage 'Deploy'/);
+});
+
+test('stages without dependsOn depend on the previous one', async t => {
+    const { result, output } = await runPipeline(t, `
+stages:
+  - stage: Deploy
+    dependsOn: Build
+    jobs:
+      - job: Ship
+        steps:
+          - script: echo shipping
+  - stage: Build
+    jobs:
+      - job: Compile
+        steps:
+          - script: echo compiling
+`);
+    assert.equal(result, false);
+    assert.match(output, /Dependency cycle detected: Deploy → Build → Deploy/);
+});
+
+test('output variables reach the conditions of dependent jobs and stages', { skip: process.platform === 'win32' }, async t => {
+    const { result, output } = await runPipeline(t, `
+stages:
+  - stage: Build
+    jobs:
+      - job: Version
+        steps:
+          - script: |
+              echo "##vso[task.setvariable variable=number;isOutput=true]1.2.3"
+              echo "##vso[task.setvariable variable=local]only-here"
+            name: setVersion
+          - script: test "$(local)/$(setVersion.number)" = only-here/1.2.3
+      - job: Package
+        dependsOn: Version
+        condition: eq(dependencies.Version.outputs['setVersion.number'], '1.2.3')
+        steps:
+          - script: echo packaging
+  - stage: Deploy
+    condition: eq(dependencies.Build.outputs['Version.setVersion.number'], '1.2.3')
+    jobs:
+      - job: Ship
+        condition: eq(stageDependencies.Build.Version.outputs['setVersion.number'], '1.2.3')
+        steps:
+          - script: echo "##vso[task.complete result=SucceededWithIssues;]partly"
+      - job: Skip
+        condition: ne(stageDependencies.Build.Version.outputs['setVersion.number'], '1.2.3')
+        steps:
+          - script: exit 1
+`);
+    assert.equal(result, true, output);
+    const started = [...output.matchAll(/Starting job: (\w+)/g)].map(match => match[1]);
+    assert.deepEqual(started, ['Version', 'Package', 'Ship']);
+    assert.match(output, /Step 1 completed with issues/);
+});
+
+test('variables are layered, expanded in macros and mapped to environment names', { skip: process.platform === 'win32' }, async t => {
+    const { result, output } = await runPipeline(t, `
+variables:
+  Product.Name: app
+  tag: $(Product.Name)-$(version)
+stages:
+  - stage: Build
+    variables:
+      version: '1.0'
+    jobs:
+      - job: Version
+        steps:
+          - script: echo "##vso[task.setvariable variable=number;isOutput=true]2.0"
+            name: setVersion
+      - job: Package
+        dependsOn: Version
+        variables:
+          version: $[ dependencies.Version.outputs['setVersion.number'] ]
+          upper: \${{ upper(variables['Product.Name']) }}
+        steps:
+          - script: test "$(tag)/$PRODUCT_NAME/$(upper)" = app-2.0/app/APP
+`);
+    assert.equal(result, true, output);
+});
+
+test('variable groups come from local files and their secrets stay out of the environment', { skip: process.platform === 'win32' }, async t => {
+    const pipeline = `
+variables:
+  - group: Shared
+  - name: mode
+    value: release
+    readonly: true
+steps:
+  - script: |
+      test "$REGION/$(region)/$MODE" = eu/eu/release
+      test -z "$TOKEN"
+      echo "token is $(token)"
+      echo "##vso[task.setvariable variable=mode]debug"
+  - script: test "$(mode)" = release
+`;
+    const files = { '.localpipe/variable-groups.yml': 'shared:\n  variables:\n    region: eu\n  secrets:\n    token: s3cret-value\n' };
+
+    const { result, output } = await runPipeline(t, pipeline, files);
+    assert.equal(result, true, output);
+    assert.match(output, /token is \*\*\*/);
+    assert.doesNotMatch(output, /s3cret-value/);
+    assert.match(output, /Variable 'mode' is read-only/);
+
+    const missing = await runPipeline(t, pipeline);
+    assert.equal(missing.result, false);
+    assert.match(missing.output, /Variable group 'Shared' was not found/);
+});
+
+test('script shortcuts run as their tasks', { skip: process.platform === 'win32' }, async t => {
+    const { result, output } = await runPipeline(t, `
+steps:
+  - script: '[[ -n "$BASH_VERSION" ]] && test "$(basename "$PWD")" = app'
+    workingDirectory: app
+  - bash: echo "##vso[task.setvariable variable=shell]bash"
+  - task: CmdLine@2
+    inputs:
+      script: test "$(shell)" = bash
+`, { 'app/.keep': '' });
+    assert.equal(result, true, output);
+    assert.match(output, /Executing command line script in .*app/);
+
+    const stderr = await runPipeline(t, 'steps:\n  - bash: echo oops >&2\n    failOnStderr: true\n');
+    assert.equal(stderr.result, false, stderr.output);
+});
+
+test('the powershell shortcut needs pwsh like PowerShell@2', { skip: process.platform === 'win32' || isCommandAvailable('pwsh') }, async t => {
+    const { result, output } = await runPipeline(t, 'steps:\n  - powershell: Write-Host hello\n');
+    assert.equal(result, false);
+    assert.match(output, /PowerShell@2 needs 'pwsh' on PATH to run locally/);
+});
+
+test('matrix and parallel strategies run one job instance per leg', { skip: process.platform === 'win32' }, async t => {
+    const pipeline = `
+jobs:
+  - job: Legs
+    steps:
+      - script: echo "##vso[task.setvariable variable=legs;isOutput=true]{'one':{'node':'18'}, 'two':{'node':'20'}}"
+        name: plan
+  - job: Test
+    dependsOn: Legs
+    strategy:
+      matrix: $[ dependencies.Legs.outputs['plan.legs'] ]
+    steps:
+      - script: echo "node $(node) at $(System.JobPositionInPhase) of $(System.TotalJobsInPhase)"
+  - job: Shard
+    dependsOn: []
+    strategy:
+      parallel: 2
+    steps:
+      - script: echo "slice $(System.JobPositionInPhase) of $(System.TotalJobsInPhase)"
+`;
+
+    const { result, output } = await runPipeline(t, pipeline);
+    assert.equal(result, true, output);
+    const started = [...output.matchAll(/Starting job: (.+)/g)].map(match => match[1]);
+    assert.deepEqual(started, ['Legs', 'Test one', 'Test two', 'Shard 1', 'Shard 2']);
+    assert.match(output, /node 20 at 2 of 2/);
+    assert.match(output, /slice 2 of 2/);
+
+    const single = await runPipeline(t, pipeline, {}, { matrix: { Test: 'two' } });
+    assert.deepEqual([...single.output.matchAll(/Starting job: (Test.*)/g)].map(match => match[1]), ['Test two']);
+});
+
+test('--workflow runs a stage or job with what it depends on, or alone with --only', { skip: process.platform === 'win32' }, async t => {
+    const pipeline = `
+stages:
+  - stage: Build
+    jobs:
+      - job: Compile
+        steps:
+          - script: echo compile
+      - job: UnitTests
+        dependsOn: Compile
+        steps:
+          - script: echo test
+  - stage: Deploy
+    jobs:
+      - job: Ship
+        steps:
+          - script: echo ship
+`;
+    const started = (output: string) => [...output.matchAll(/Starting (?:stage|job): (\w+)/g)].map(match => match[1]);
+
+    const root = fs.mkdtempSync(path.join(os.tmpdir(), 'localpipe-test-'));
+    try {
+        fs.writeFileSync(path.join(root, 'azure-pipelines.yml'), pipeline);
+        assert.deepEqual(new AzurePipelineRunner(false, {}).listWorkflows(root), ['Build', 'Build.Compile', 'Build.UnitTests', 'Deploy', 'Deploy.Ship']);
+    } finally {
+        fs.rmSync(root, { recursive: true, force: true });
+    }
+
+    const withDependencies = await runPipeline(t, pipeline, {}, {}, 'Build.UnitTests');
+    assert.equal(withDependencies.result, true, withDependencies.output);
+    assert.deepEqual(started(withDependencies.output), ['Build', 'Compile', 'UnitTests']);
+
+    const alone = await runPipeline(t, pipeline, {}, { only: true }, 'Build.UnitTests');
+    assert.deepEqual(started(alone.output), ['Build', 'UnitTests']);
+
+    const unknown = await runPipeline(t, pipeline, {}, {}, 'Test');
+    assert.equal(unknown.result, false);
+});
@@ -0,0 +1,34 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { evaluateCondition, evaluateExpression, expandTemplateString } from '../../src/backend/Implementations/azure/expressions';
+
+const context = {
+    values: {
+        parameters: { configuration: 'Release', platforms: ['x64', 'arm64'] },
+        variables: { 'Build.SourceBranch': 'refs/heads/main' }
+    }
+};
+
+test('calls functions with case-insensitive names', () => {
+    assert.equal(evaluateExpression("eq(parameters.configuration, 'release')", context), true);
+    assert.equal(evaluateExpression("And(ne(1, 2), in('x64', 'x86', 'x64'))", context), true);
+    assert.equal(evaluateExpression("startsWith(variables['Build.SourceBranch'], 'refs/heads/')", context), true);
+    assert.equal(evaluateExpression("format('{0}-{1}', parameters.configuration, 1)", context), 'Release-1');
+    assert.equal(evaluateExpression("join(';', parameters.platforms)", context), 'x64;arm64');
+});
+
+test('a template string of one expression keeps its type', () => {
+    assert.deepEqual(expandTemplateString('${{ parameters.platforms }}', context), ['x64', 'arm64']);
+    assert.equal(expandTemplateString('$(Build)-${{ lower(parameters.configuration) }}', context), '$(Build)-release');
+});
+
+test('objects cannot be inserted into text', () => {
+    assert.throws(() => expandTemplateString('list: ${{ parameters.platforms }}', context), /Unable to convert from Array to String/);
+});
+
+test('conditions default to succeeded() over the given results', () => {
+    assert.equal(evaluateCondition(undefined, { values: {}, results: { Build: 'Succeeded' } }), true);
+    assert.equal(evaluateCondition(undefined, { values: {}, results: { Build: 'Failed' } }), false);
+    assert.equal(evaluateCondition('failed()', { values: {}, results: { Build: 'Failed' } }), true);
+    assert.equal(evaluateCondition("succeededOrFailed()", { values: {}, results: { Build: 'SucceededWithIssues' } }), true);
+});
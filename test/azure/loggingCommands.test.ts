@@ -0,0 +1,24 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { isTrueProperty, parseLoggingCommand } from '../../src/backend/Implementations/azure/loggingCommands';
+
+test('parses logging commands with escaped properties and values', () => {
+    assert.deepEqual(parseLoggingCommand('##vso[task.setvariable variable=list;isOutput=true]a%3Bb%5D%0Ac%AZP25'), {
+        name: 'task.setvariable',
+        properties: { variable: 'list', isoutput: 'true' },
+        value: 'a;b]\nc%'
+    });
+    assert.deepEqual(parseLoggingCommand('  prefix ##vso[Task.PrependPath]/opt/bin  '), { name: 'task.prependpath', properties: {}, value: '/opt/bin' });
+});
+
+test('ignores ordinary output and malformed commands', () => {
+    assert.equal(parseLoggingCommand('echo hello'), null);
+    assert.equal(parseLoggingCommand('##vso[setvariable]x'), null);
+    assert.equal(parseLoggingCommand('##vso[task.setvariable variable=x'), null);
+});
+
+test('compares boolean properties case-insensitively', () => {
+    assert.equal(isTrueProperty(' True '), true);
+    assert.equal(isTrueProperty('false'), false);
+    assert.equal(isTrueProperty(undefined), false);
+});
@@ -0,0 +1,46 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { expandStrategy, filterInstances, maxParallelOf } from '../../src/backend/Implementations/azure/strategy';
+
+test('jobs without a strategy have one instance', () => {
+    assert.deepEqual(expandStrategy(undefined), [{ name: '', variables: {}, position: 1, total: 1 }]);
+});
+
+test('expands matrix legs with their variables as strings', () => {
+    assert.deepEqual(expandStrategy({ matrix: { linux: { image: 'ubuntu', node: 18 }, mac: { image: 'macos', node: 20 } } }), [
+        { name: 'linux', variables: { image: 'ubuntu', node: '18' }, position: 1, total: 2 },
+        { name: 'mac', variables: { image: 'macos', node: '20' }, position: 2, total: 2 }
+    ]);
+});
+
+test('reads matrices produced by runtime expressions as JSON', () => {
+    const instances = expandStrategy({ matrix: '$[ x ]' }, '{"a":{"v":"1"}}');
+    assert.deepEqual(instances.map(instance => instance.name), ['a']);
+    assert.deepEqual(expandStrategy({ matrix: '$[ x ]' }, "{'a':{'v':'1'}, 'b':{'v':'2'}}").map(instance => instance.variables.v), ['1', '2']);
+    assert.deepEqual(expandStrategy({ matrix: '$[ x ]' }, ''), []);
+    assert.throws(() => expandStrategy({}, 'not json'), /mapping of leg names/);
+});
+
+test('expands parallel into numbered slices', () => {
+    assert.deepEqual(expandStrategy({ parallel: '3' }).map(instance => [instance.name, instance.position, instance.total]), [['1', 1, 3], ['2', 2, 3], ['3', 3, 3]]);
+    assert.throws(() => expandStrategy({ parallel: 0 }), /positive number/);
+});
+
+test('rejects invalid leg names and legs', () => {
+    assert.throws(() => expandStrategy({ matrix: { 'linux-x64': { a: 1 } } }), /may only contain letters/);
+    assert.throws(() => expandStrategy({ matrix: { linux: ['a'] } as any }), /must be a mapping of variables/);
+});
+
+test('validates maxParallel', () => {
+    assert.equal(maxParallelOf(undefined), 0);
+    assert.equal(maxParallelOf({ maxParallel: '2' }), 2);
+    assert.throws(() => maxParallelOf({ maxParallel: 'fast' }), /whole number/);
+    assert.throws(() => maxParallelOf({ maxParallel: -1 }), /whole number/);
+});
+
+test('filters pick a leg by job name or compare variables', () => {
+    const instances = expandStrategy({ matrix: { linux_node18: { node: '18' }, linux_node20: { node: '20' } } });
+    assert.deepEqual(filterInstances('Test', instances, { test: 'Linux_Node20' }).map(instance => instance.name), ['linux_node20']);
+    assert.deepEqual(filterInstances('Test', instances, { Node: '18' }).map(instance => instance.name), ['linux_node18']);
+    assert.equal(filterInstances('Test', instances, { os: 'windows' }).length, 2);
+});
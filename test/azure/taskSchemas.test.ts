@@ -0,0 +1,41 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { booleanInput, findTaskSchema, multiLineInput, parseTaskReference, validateTaskInputs } from '../../src/backend/Implementations/azure/taskSchemas';
+
+test('parses task references with and without publisher and version', () => {
+    assert.deepEqual(parseTaskReference('CopyFiles@2'), { name: 'CopyFiles', version: 2 });
+    assert.deepEqual(parseTaskReference('qetza.replacetokens.replacetokens-task.replacetokens@5'), { name: 'replacetokens', version: 5 });
+    assert.deepEqual(parseTaskReference('Bash'), { name: 'Bash', version: null });
+});
+
+test('finds the newest schema unless a version is given', () => {
+    assert.equal(findTaskSchema({ name: 'cmdline', version: null })?.version, 2);
+    assert.equal(findTaskSchema({ name: 'CmdLine', version: 1 }), null);
+    assert.equal(findTaskSchema({ name: 'AzureCLI', version: 2 }), null);
+});
+
+test('applies defaults and aliases and reports invalid inputs', () => {
+    const schema = findTaskSchema({ name: 'CopyFiles', version: 2 })!.schema;
+    const valid = validateTaskInputs(schema, { targetFolder: 'out', overwrite: 'TRUE', contents: null });
+    assert.deepEqual(valid.errors, []);
+    assert.equal(valid.inputs.TargetFolder, 'out');
+    assert.equal(valid.inputs.OverWrite, 'TRUE');
+    assert.equal(valid.inputs.Contents, '**');
+    assert.equal(valid.inputs.SourceFolder, '$(Build.SourcesDirectory)');
+
+    assert.deepEqual(validateTaskInputs(schema, { TargetFolder: 'out', OverWrite: 'yes', SourceFoldr: 'src' }).errors, [
+        "Unknown input 'SourceFoldr', did you mean 'SourceFolder'?",
+        "Input 'OverWrite' must be true or false but got 'yes'"
+    ]);
+    assert.deepEqual(validateTaskInputs(schema, {}).errors, ['Input required: TargetFolder']);
+
+    const powershell = findTaskSchema({ name: 'PowerShell', version: 2 })!.schema;
+    assert.equal(validateTaskInputs(powershell, { errorActionPreference: 'CONTINUE' }).inputs.errorActionPreference, 'continue');
+    assert.match(validateTaskInputs(powershell, { errorActionPreference: 'never' }).errors[0], /must be one of default, stop, continue, silentlyContinue/);
+});
+
+test('reads boolean and multi-line inputs', () => {
+    assert.equal(booleanInput(' True '), true);
+    assert.equal(booleanInput(undefined), false);
+    assert.deepEqual(multiLineInput('**/*.js\n\n  !node_modules/** \r\n'), ['**/*.js', '!node_modules/**']);
+});
@@ -0,0 +1,107 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+    TOKEN_PATTERNS, copyFiles, createArchive, deleteFiles, extractArchive, parseJUnit, replaceTokens, satisfiesVersionSpec, transformOutputPath
+} from '../../src/backend/Implementations/azure/tasks';
+import { isCommandAvailable } from '../../src/backend/Implementations/github/shells';
+
+function withDirectory(run: (directory: string) => void): () => void {
+    return () => {
+        const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'localpipe-test-'));
+        try {
+            run(directory);
+        } finally {
+            fs.rmSync(directory, { recursive: true, force: true });
+        }
+    };
+}
+
+function writeFiles(root: string, files: Record<string, string>): void {
+    for (const [name, content] of Object.entries(files)) {
+        fs.mkdirSync(path.dirname(path.join(root, name)), { recursive: true });
+        fs.writeFileSync(path.join(root, name), content);
+    }
+}
+
+test('copies matching files, flattened or not, without overwriting', withDirectory(directory => {
+    const source = path.join(directory, 'src');
+    const target = path.join(directory, 'out');
+    writeFiles(source, { 'a.js': 'a', 'lib/b.js': 'b', 'lib/c.txt': 'c' });
+    writeFiles(target, { 'a.js': 'old' });
+
+    const options = { sourceFolder: source, contents: ['**/*.js'], targetFolder: target, cleanTargetFolder: false, overwrite: false, flattenFolders: false, preserveTimestamp: false };
+    assert.deepEqual(copyFiles(options), { copied: [path.join('lib', 'b.js')], skipped: ['a.js'] });
+    assert.equal(fs.readFileSync(path.join(target, 'a.js'), 'utf8'), 'old');
+
+    assert.deepEqual(copyFiles({ ...options, cleanTargetFolder: true, flattenFolders: true }).copied.sort(), ['a.js', 'b.js']);
+    assert.ok(!fs.existsSync(path.join(target, 'lib')));
+    assert.throws(() => copyFiles({ ...options, sourceFolder: path.join(directory, 'missing') }), /Source folder not found/);
+}));
+
+test('deletes matching files and folders, keeping dot files unless asked', withDirectory(directory => {
+    writeFiles(directory, { 'dist/app.js': '', 'dist/.cache/x': '', 'logs/a.log': '', '.env': '', 'keep.txt': '' });
+    const deleted = deleteFiles(directory, ['dist', '**/*.log', '.env'], false, false);
+    assert.deepEqual(deleted.sort(), ['dist', path.join('logs', 'a.log')]);
+    assert.ok(fs.existsSync(path.join(directory, '.env')) && fs.existsSync(path.join(directory, 'keep.txt')));
+}));
+
+test('archives and extracts zip and tar files', { skip: !isCommandAvailable('zip') || !isCommandAvailable('unzip') || !isCommandAvailable('tar') }, withDirectory(directory => {
+    const source = path.join(directory, 'site');
+    writeFiles(source, { 'index.html': 'home', 'css/site.css': 'body{}' });
+
+    for (const [archiveType, file] of [['zip', 'site.zip'], ['tar', 'site.tar.gz']]) {
+        const archiveFile = path.join(directory, file);
+        const options = { rootFolderOrFile: source, includeRootFolder: false, archiveType, tarCompression: 'gz', archiveFile, replaceExistingArchive: false };
+        assert.equal(createArchive(options), 2);
+        assert.throws(() => createArchive(options), /Archive file already exists/);
+
+        const destination = path.join(directory, `extracted-${archiveType}`);
+        extractArchive(archiveFile, destination, true);
+        assert.equal(fs.readFileSync(path.join(destination, 'css', 'site.css'), 'utf8'), 'body{}');
+    }
+    assert.throws(() => extractArchive(path.join(directory, 'site.7z'), directory, true), /Unsupported archive type: site.7z/);
+}));
+
+test('reads JUnit reports', () => {
+    const results = parseJUnit(`<?xml version="1.0"?>
+<testsuites>
+  <testsuite name="math">
+    <testcase name="adds" classname="Calc" time="0.5"/>
+    <testcase name="divides" time="1"><failure message="division by &quot;zero&quot;">trace</failure></testcase>
+    <testcase name="later"><skipped/></testcase>
+  </testsuite>
+  <testsuite name="io"><testcase name="reads"><error><![CDATA[EOF reached
+at line 2]]></error></testcase></testsuite>
+</testsuites>`);
+    assert.deepEqual(results.map(result => `${result.suite}/${result.name}:${result.outcome}:${result.message ?? ''}`), [
+        'math/adds:Passed:',
+        'math/divides:Failed:division by "zero"',
+        'math/later:Skipped:',
+        'io/reads:Failed:EOF reached'
+    ]);
+    assert.equal(results[0].time, 0.5);
+});
+
+test('replaces tokens and reports the missing ones', () => {
+    const { prefix, suffix } = TOKEN_PATTERNS.default;
+    const values: Record<string, string> = { Name: 'app', Version: '1.0' };
+    assert.deepEqual(replaceTokens('#{Name}# #{ Version }# #{Missing}#', prefix, suffix, name => values[name], null), {
+        content: 'app 1.0 #{Missing}#',
+        replaced: 2,
+        missing: ['Missing']
+    });
+    assert.equal(replaceTokens('$(Missing)', TOKEN_PATTERNS.azpipelines.prefix, TOKEN_PATTERNS.azpipelines.suffix, () => undefined, '').content, '');
+    assert.equal(transformOutputPath('/cfg/app.template.json', '*.template.json', '*.json'), path.resolve('/cfg/app.json'));
+});
+
+test('checks versions against setup task specs', () => {
+    assert.equal(satisfiesVersionSpec('18.19.0', '18.x'), true);
+    assert.equal(satisfiesVersionSpec('3.11.4', '3.11.*'), true);
+    assert.equal(satisfiesVersionSpec('20.1.0', '>=18.2'), true);
+    assert.equal(satisfiesVersionSpec('16.0.0', '>=18'), false);
+    assert.equal(satisfiesVersionSpec('20.1.0', '18'), false);
+    assert.equal(satisfiesVersionSpec('20.1.0', 'lts/*'), true);
+});
@@ -0,0 +1,179 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { TemplateError, findRepositoryRoot, loadPipeline } from '../../src/backend/Implementations/azure/templates';
+
+/**
+ * Write the files of a repository into a temporary folder and load `azure-pipelines.yml`.
+ * Paths of repository resources are relative to that folder.
+ */
+function load(files: Record<string, string>, parameters?: Record<string, any>, repositories: Record<string, string> = {}): Record<string, any> {
+    const root = fs.mkdtempSync(path.join(os.tmpdir(), 'localpipe-test-'));
+    try {
+        for (const [name, content] of Object.entries(files)) {
+            fs.mkdirSync(path.dirname(path.join(root, name)), { recursive: true });
+            fs.writeFileSync(path.join(root, name), content);
+        }
+        const localRepositories = Object.fromEntries(Object.entries(repositories).map(([alias, directory]) => [alias, path.join(root, directory)]));
+        return loadPipeline(path.join(root, 'azure-pipelines.yml'), { root, parameters, repositories: localRepositories });
+    } finally {
+        fs.rmSync(root, { recursive: true, force: true });
+    }
+}
+
+test('includes step templates with their parameters and defaults', () => {
+    const pipeline = load({
+        'azure-pipelines.yml': `
+steps:
+  - template: templates/build.yml
+    parameters:
+      configuration: Debug
+  - template: /templates/build.yml
+`,
+        'templates/build.yml': `
+parameters:
+  - name: configuration
+    type: string
+    default: Release
+    values: [Debug, Release]
+steps:
+  - script: make \${{ parameters.configuration }}
+`
+    });
+    assert.deepEqual(pipeline.steps, [{ script: 'make Debug' }, { script: 'make Release' }]);
+});
+
+test('expands if, elseif, else, each and insert directives', () => {
+    const pipeline = load({
+        'azure-pipelines.yml': `
+parameters:
+  - name: platforms
+    type: object
+    default: [linux, windows]
+  - name: mode
+    default: fast
+  - name: extraEnv
+    type: object
+    default: { CI: 'true' }
+variables:
+  - name: feature
+    value: on
+steps:
+  - \${{ each platform in parameters.platforms }}:
+    - script: build \${{ platform }}
+  - \${{ if eq(parameters.mode, 'full') }}:
+    - script: full
+  - \${{ elseif eq(variables.feature, 'on') }}:
+    - script: feature
+  - \${{ else }}:
+    - script: plain
+  - script: env
+    env:
+      \${{ insert }}: \${{ parameters.extraEnv }}
+      OTHER: x
+`
+    }, { mode: 'quick' });
+    assert.deepEqual(pipeline.steps, [
+        { script: 'build linux' },
+        { script: 'build windows' },
+        { script: 'feature' },
+        { script: 'env', env: { CI: 'true', OTHER: 'x' } }
+    ]);
+    assert.equal('parameters' in pipeline, false);
+});
+
+test('checks parameter types and allowed values', () => {
+    const pipeline = `
+parameters:
+  - name: retries
+    type: number
+  - name: publish
+    type: boolean
+    default: false
+  - name: target
+    default: dev
+    values: [dev, prod]
+steps:
+  - script: echo \${{ parameters.retries }} \${{ parameters.publish }} \${{ parameters.target }}
+`;
+    assert.deepEqual(load({ 'azure-pipelines.yml': pipeline }, { retries: '3', publish: 'TRUE', target: 'PROD' }).steps, [{ script: 'echo 3 True PROD' }]);
+    assert.throws(() => load({ 'azure-pipelines.yml': pipeline }), /A value for the parameter 'retries' must be provided/);
+    assert.throws(() => load({ 'azure-pipelines.yml': pipeline }, { retries: 'many' }), /parameter 'retries' expects a number but got 'many'/);
+    assert.throws(() => load({ 'azure-pipelines.yml': pipeline }, { retries: 1, target: 'qa' }), /parameter 'target' must be one of dev, prod but got 'qa'/);
+    assert.throws(() => load({ 'azure-pipelines.yml': pipeline }, { retries: 1, unknown: 1 }), /Unexpected parameter 'unknown'/);
+});
+
+test('reports errors with the files a template was included from', () => {
+    const files = {
+        'azure-pipelines.yml': 'jobs:\n  - template: jobs.yml\n',
+        'jobs.yml': 'jobs:\n  - job: Build\n    steps:\n      - template: steps.yml\n',
+        'steps.yml': 'steps:\n  - script: echo ${{ parameters.missing.value }\n'
+    };
+    assert.throws(() => load(files), (error: any) => {
+        assert.ok(error instanceof TemplateError);
+        assert.match(error.message, /^steps\.yml \(included from azure-pipelines\.yml → jobs\.yml\): Unclosed expression/);
+        return true;
+    });
+    assert.throws(() => load({ 'azure-pipelines.yml': 'steps:\n  - template: nowhere.yml\n' }), /Template file 'nowhere.yml' not found/);
+    assert.throws(() => load({ 'azure-pipelines.yml': 'steps:\n  - template: self.yml\n', 'self.yml': 'steps:\n  - template: self.yml\n' }), /nested more than 100 levels deep/);
+});
+
+test('extends templates from a local checkout of a repository resource', () => {
+    const files = {
+        'azure-pipelines.yml': `
+trigger: [main]
+resources:
+  repositories:
+    - repository: templates
+      type: git
+      name: Platform/pipeline-templates
+variables:
+  - name: owner
+    value: app
+extends:
+  template: pipelines/secure.yml@templates
+  parameters:
+    buildSteps:
+      - script: npm test
+`,
+        'shared/pipelines/secure.yml': `
+parameters:
+  - name: buildSteps
+    type: stepList
+variables:
+  - name: scanned
+    value: true
+steps:
+  - template: steps/scan.yml
+  - \${{ each step in parameters.buildSteps }}:
+    - \${{ step }}
+  - template: /steps/publish.yml@self
+`,
+        'shared/pipelines/steps/scan.yml': 'steps:\n  - script: scan\n',
+        'steps/publish.yml': 'steps:\n  - script: publish\n'
+    };
+
+    const pipeline = load(files, {}, { templates: 'shared' });
+    assert.deepEqual(pipeline.trigger, ['main']);
+    assert.deepEqual(pipeline.variables, [{ name: 'owner', value: 'app' }, { name: 'scanned', value: true }]);
+    assert.deepEqual(pipeline.steps, [{ script: 'scan' }, { script: 'npm test' }, { script: 'publish' }]);
+    assert.equal('extends' in pipeline, false);
+
+    assert.throws(() => load(files), /Repository 'templates' \(Platform\/pipeline-templates\) has no local path: pass --repo templates=<path>/);
+    assert.throws(() => load({ ...files, 'azure-pipelines.yml': 'steps:\n  - template: a.yml@other\n' }), /Repository 'other' of template 'a.yml@other' is not declared/);
+    assert.throws(() => load({ ...files, 'shared/pipelines/steps/scan.yml': 'steps: [' }, {}, { templates: 'shared' }),
+        /^TemplateError: pipelines\/steps\/scan\.yml@templates \(included from azure-pipelines\.yml → pipelines\/secure\.yml@templates\): Invalid YAML/);
+});
+
+test('finds the repository root that /-rooted templates start from', () => {
+    const root = fs.mkdtempSync(path.join(os.tmpdir(), 'localpipe-test-'));
+    try {
+        fs.mkdirSync(path.join(root, '.git'));
+        fs.mkdirSync(path.join(root, 'pipelines', 'ci'), { recursive: true });
+        assert.equal(findRepositoryRoot(path.join(root, 'pipelines', 'ci')), root);
+    } finally {
+        fs.rmSync(root, { recursive: true, force: true });
+    }
+});
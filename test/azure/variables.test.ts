@@ -0,0 +1,40 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { declaredVariables, environmentName, expandMacros, findGroup, groupReferences, lookupVariable, runtimeExpression } from '../../src/backend/Implementations/azure/variables';
+
+test('maps variable names to environment names', () => {
+    assert.equal(environmentName('Build.SourcesDirectory'), 'BUILD_SOURCESDIRECTORY');
+    assert.equal(environmentName('my var'), 'MY_VAR');
+});
+
+test('looks up variables case-insensitively', () => {
+    assert.equal(lookupVariable({ Configuration: 'Release' }, 'configuration'), 'Release');
+    assert.equal(lookupVariable({}, 'missing'), undefined);
+});
+
+test('expands macros recursively and leaves unknown ones', () => {
+    const variables = { name: 'app', version: '1.0', tag: '$(name)-$(version)' };
+    assert.equal(expandMacros('$(tag) $(missing)', variables), 'app-1.0 $(missing)');
+});
+
+test('stops expanding self-referencing macros', () => {
+    assert.equal(expandMacros('$(loop)', { loop: 'x$(loop)' }), 'x'.repeat(11) + '$(loop)');
+});
+
+test('recognizes runtime expressions that make up the whole value', () => {
+    assert.equal(runtimeExpression("$[ eq(variables.a, 'b') ]"), "eq(variables.a, 'b')");
+    assert.equal(runtimeExpression('prefix $[ a ]'), null);
+    assert.equal(runtimeExpression(1), null);
+});
+
+test('declares variables from mappings, lists and groups', () => {
+    const groups = { Shared: { variables: { region: 'eu' }, secrets: { token: 's3cret' } } };
+    assert.deepEqual(declaredVariables({ a: '1' }), [{ name: 'a', value: '1', readonly: false, secret: false }]);
+    assert.deepEqual(declaredVariables([{ name: 'a', value: 1, readonly: true }, { group: 'shared' }, 'ignored'], groups), [
+        { name: 'a', value: 1, readonly: true, secret: false },
+        { name: 'region', value: 'eu', readonly: false, secret: false },
+        { name: 'token', value: 's3cret', readonly: false, secret: true }
+    ]);
+    assert.deepEqual(groupReferences([{ group: 'Shared' }, { name: 'a', value: '1' }]), ['Shared']);
+    assert.equal(findGroup(groups, 'SHARED'), groups.Shared);
+});
@@ -0,0 +1,79 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ArtifactStore, commonDirectory, formatSize } from '../../src/backend/artifactStore';
+
+function withDirectory(run: (directory: string) => void): void {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'localpipe-test-'));
+    try {
+        run(directory);
+    } finally {
+        fs.rmSync(directory, { recursive: true, force: true });
+    }
+}
+
+function writeFile(file: string, content: string): string {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, content);
+    return file;
+}
+
+test('uploads, merges, overwrites and downloads artifacts', () => withDirectory(directory => {
+    const store = ArtifactStore.open(path.join(directory, 'out'));
+    const source = path.join(directory, 'src');
+    const app = writeFile(path.join(source, 'bin', 'app'), 'binary');
+    const notes = writeFile(path.join(source, 'notes.txt'), 'hi');
+
+    assert.deepEqual(store.upload('build', [app], source), { name: 'build', files: 1, size: 6, directory: path.join(directory, 'out', 'artifacts', 'build') });
+    assert.throws(() => store.upload('build', [notes], source), /An artifact with the name 'build' already exists/);
+    assert.equal(store.upload('build', [notes], source, 'merge').files, 2);
+    assert.equal(store.upload('build', [notes], source, 'overwrite').files, 1);
+    assert.throws(() => store.upload('outside', [app], path.join(source, 'other')), /is not inside/);
+
+    store.upload('empty', [], source);
+    assert.deepEqual(store.list().map(artifact => artifact.name), ['build', 'empty']);
+
+    const target = path.join(directory, 'download');
+    store.download('build', target);
+    assert.equal(fs.readFileSync(path.join(target, 'notes.txt'), 'utf8'), 'hi');
+    assert.throws(() => store.download('missing', target), /Artifact not found for name: missing \(available: build, empty\)/);
+}));
+
+test('rejects names that would leave the artifact folder', () => withDirectory(directory => {
+    const store = ArtifactStore.open(path.join(directory, 'out'));
+    for (const name of ['', '.', '..', ' . ', 'a/b', 'a\\b', 'what?', '.localpipe-artifacts']) {
+        assert.throws(() => store.upload(name, [], directory), /Invalid artifact name/, JSON.stringify(name));
+    }
+}));
+
+test('replaces the artifacts of a previous run but never foreign folders', () => withDirectory(directory => {
+    const output = path.join(directory, 'out');
+    const previous = ArtifactStore.open(output);
+    previous.upload('old', [writeFile(path.join(directory, 'file'), 'x')], directory);
+    assert.deepEqual(ArtifactStore.open(output).list(), []);
+
+    const foreign = path.join(directory, 'mine');
+    writeFile(path.join(foreign, 'artifacts', 'keep.txt'), 'user data');
+    assert.throws(() => ArtifactStore.open(foreign), /already exists and wasn't created by localpipe/);
+    assert.equal(fs.readFileSync(path.join(foreign, 'artifacts', 'keep.txt'), 'utf8'), 'user data');
+
+    fs.mkdirSync(path.join(directory, 'empty', 'artifacts'), { recursive: true });
+    assert.doesNotThrow(() => ArtifactStore.open(path.join(directory, 'empty')));
+}));
+
+test('removes a temporary store when disposed', () => {
+    const store = ArtifactStore.open();
+    assert.ok(store.temporary && fs.existsSync(store.root));
+    store.dispose();
+    assert.ok(!fs.existsSync(store.root));
+});
+
+test('formats sizes and finds common directories', () => {
+    assert.equal(formatSize(512), '512 B');
+    assert.equal(formatSize(1536), '1.5 KB');
+    assert.equal(formatSize(3 * 1024 * 1024), '3.0 MB');
+    assert.equal(commonDirectory([path.join('/a', 'b', 'c'), path.join('/a', 'b', 'd'), '/a/b']), path.resolve('/a/b'));
+    assert.equal(commonDirectory([]), '');
+});
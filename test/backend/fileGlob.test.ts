@@ -0,0 +1,36 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { findFiles, globToRegExp, walkFiles } from '../../src/backend/fileGlob';
+
+function createTree(files: string[]): string {
+    const root = fs.mkdtempSync(path.join(os.tmpdir(), 'localpipe-test-'));
+    for (const file of files) {
+        fs.mkdirSync(path.dirname(path.join(root, file)), { recursive: true });
+        fs.writeFileSync(path.join(root, file), file);
+    }
+    return root;
+}
+
+test('translates globs to regular expressions', () => {
+    assert.ok(globToRegExp('src/*.ts').test('src/index.ts'));
+    assert.ok(!globToRegExp('src/*.ts').test('src/backend/index.ts'));
+    assert.ok(globToRegExp('**/*.{js,ts}').test('a/b/c.js'));
+    assert.ok(globToRegExp('**/*.{js,ts}').test('c.ts'));
+    assert.ok(globToRegExp('file?.[ab]').test('file1.a'));
+});
+
+test('finds files by pattern, with exclusions and whole directories', () => {
+    const root = createTree(['src/a.ts', 'src/b.js', 'src/lib/c.ts', 'docs/readme.md', '.git/config']);
+    try {
+        const relative = (patterns: string[]) => findFiles(root, patterns).map(file => path.relative(root, file).split(path.sep).join('/'));
+        assert.deepEqual(relative(['**/*.ts']), ['src/a.ts', 'src/lib/c.ts']);
+        assert.deepEqual(relative(['src', '!**/*.js']), ['src/a.ts', 'src/lib/c.ts']);
+        assert.deepEqual(relative(['missing/**']), []);
+        assert.equal(walkFiles(root).length, 4);
+    } finally {
+        fs.rmSync(root, { recursive: true, force: true });
+    }
+});
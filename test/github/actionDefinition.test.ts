@@ -0,0 +1,43 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ActionDefinition, bindActionInputs, loadActionDefinition } from '../../src/backend/Implementations/github/actionDefinition';
+
+const definition: ActionDefinition = {
+    inputs: {
+        'node-version': { required: true },
+        cache: { default: '${{ github.ref }}' },
+        token: { deprecationMessage: 'Use github-token' }
+    },
+    runs: { using: 'composite', steps: [] }
+};
+
+test('loads action.yml or action.yaml', () => {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'localpipe-test-'));
+    try {
+        assert.equal(loadActionDefinition(directory), null);
+        fs.writeFileSync(path.join(directory, 'action.yaml'), 'name: Setup\nruns:\n  using: composite\n  steps: []\n');
+        assert.equal(loadActionDefinition(directory)?.name, 'Setup');
+        fs.writeFileSync(path.join(directory, 'action.yml'), 'name: Broken\nruns: {}\n');
+        assert.throws(() => loadActionDefinition(directory), /does not declare 'runs.using'/);
+    } finally {
+        fs.rmSync(directory, { recursive: true, force: true });
+    }
+});
+
+test('binds inputs case-insensitively and resolves defaults', () => {
+    const { inputs, warnings } = bindActionInputs(definition, { 'Node-Version': 20 }, value => `resolved ${value}`);
+    assert.deepEqual(inputs, { 'node-version': '20', cache: 'resolved ${{ github.ref }}', token: '' });
+    assert.deepEqual(warnings, []);
+});
+
+test('warns about missing, deprecated and unexpected inputs', () => {
+    const { warnings } = bindActionInputs(definition, { token: 'x', extra: 'y' }, String);
+    assert.deepEqual(warnings, [
+        'Input required and not supplied: node-version',
+        "Input 'token' has been deprecated: Use github-token",
+        "Unexpected input(s) 'extra', valid inputs are ['node-version', 'cache', 'token']"
+    ]);
+});
@@ -0,0 +1,22 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as path from 'path';
+import { inputEnvironmentName, parseActionReference, resolveActionDirectory } from '../../src/backend/Implementations/github/actionStore';
+
+test('parses marketplace action references', () => {
+    assert.deepEqual(parseActionReference('actions/cache@v4'), { owner: 'actions', repo: 'cache', path: '', ref: 'v4' });
+    assert.deepEqual(parseActionReference('github/codeql-action/init@v3'), { owner: 'github', repo: 'codeql-action', path: 'init', ref: 'v3' });
+    assert.equal(parseActionReference('./.github/actions/setup'), null);
+    assert.equal(parseActionReference('docker://alpine:3'), null);
+    assert.equal(parseActionReference('actions/cache'), null);
+});
+
+test('resolves actions to <owner>/<repo>@<ref> in the store', () => {
+    const reference = parseActionReference('github/codeql-action/init@v3')!;
+    assert.equal(resolveActionDirectory('/store', reference), path.join('/store', 'github', 'codeql-action@v3', 'init'));
+});
+
+test('maps input names to INPUT_ variables', () => {
+    assert.equal(inputEnvironmentName('node-version'), 'INPUT_NODE-VERSION');
+    assert.equal(inputEnvironmentName('my input'), 'INPUT_MY_INPUT');
+});
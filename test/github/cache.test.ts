@@ -0,0 +1,44 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { cacheVersion, findCacheEntry, parseCachePaths, restoreCacheEntry, saveCacheEntry } from '../../src/backend/Implementations/github/cache';
+
+test('splits the path input and expands ~', () => {
+    assert.deepEqual(parseCachePaths('node_modules\n\n  ~/.npm \n!~/.npm/_logs\n~other'), [
+        'node_modules',
+        path.join(os.homedir(), '.npm'),
+        '!' + path.join(os.homedir(), '.npm/_logs'),
+        '~other'
+    ]);
+});
+
+test('saves, finds and restores entries', () => {
+    const root = fs.mkdtempSync(path.join(os.tmpdir(), 'localpipe-test-'));
+    try {
+        const store = path.join(root, 'store');
+        const workspace = path.join(root, 'workspace');
+        fs.mkdirSync(path.join(workspace, 'deps', 'lib'), { recursive: true });
+        fs.writeFileSync(path.join(workspace, 'deps', 'a.txt'), 'a');
+        fs.writeFileSync(path.join(workspace, 'deps', 'lib', 'b.txt'), 'b');
+
+        const paths = ['deps'];
+        assert.equal(saveCacheEntry(store, 'deps-linux-123', paths, workspace), 2);
+        assert.equal(saveCacheEntry(store, 'deps-linux-123', paths, workspace), null, 'existing keys are never overwritten');
+        assert.throws(() => saveCacheEntry(store, 'missing', ['nothing-here'], workspace), /Path Validation Error/);
+
+        const version = cacheVersion(paths);
+        assert.equal(findCacheEntry(store, 'deps-linux-123', [], version)?.key, 'deps-linux-123');
+        assert.equal(findCacheEntry(store, 'deps-linux-456', ['deps-mac-', 'deps-linux-'], version)?.key, 'deps-linux-123');
+        assert.equal(findCacheEntry(store, 'deps-linux-456', ['deps-mac-'], version), null);
+        assert.equal(findCacheEntry(store, 'deps-linux-123', [], cacheVersion(['other'])), null, 'entries only match the same paths');
+
+        fs.rmSync(path.join(workspace, 'deps'), { recursive: true });
+        const entry = findCacheEntry(store, 'deps-linux-123', [], version)!;
+        assert.equal(restoreCacheEntry(entry, workspace), 2);
+        assert.equal(fs.readFileSync(path.join(workspace, 'deps', 'lib', 'b.txt'), 'utf8'), 'b');
+    } finally {
+        fs.rmSync(root, { recursive: true, force: true });
+    }
+});
@@ -0,0 +1,77 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ContainerCli, normalizeContainer } from '../../src/backend/Implementations/github/containers';
+
+/**
+ * A docker stand-in that records its arguments and answers `run`, `port` and `inspect`
+ */
+function createStubCli(directory: string, health: string): { cli: ContainerCli; calls: () => string[] } {
+    const log = path.join(directory, 'calls.log');
+    const script = path.join(directory, 'docker');
+    fs.writeFileSync(script, [
+        '#!/bin/sh',
+        `echo "$* DB_PASSWORD=$DB_PASSWORD" >> '${log}'`,
+        'case "$1" in',
+        '  run) echo container-id ;;',
+        "  port) printf '5432/tcp -> 0.0.0.0:49153\\n5432/tcp -> [::]:49153\\n6379/tcp -> 0.0.0.0:49154\\n' ;;",
+        `  inspect) echo "running ${health}" ;;`,
+        '  network) echo "network exists" >&2; exit 1 ;;',
+        'esac'
+    ].join('\n'), { mode: 0o755 });
+    return { cli: new ContainerCli(script), calls: () => fs.readFileSync(log, 'utf8').trim().split('\n') };
+}
+
+function withDirectory(run: (directory: string) => Promise<void>): () => Promise<void> {
+    return async () => {
+        const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'localpipe-test-'));
+        try {
+            await run(directory);
+        } finally {
+            fs.rmSync(directory, { recursive: true, force: true });
+        }
+    };
+}
+
+test('normalizes image names and definitions', () => {
+    assert.deepEqual(normalizeContainer(' node:20 '), { image: 'node:20' });
+    assert.equal(normalizeContainer(''), null);
+    assert.equal(normalizeContainer({ image: '' }), null);
+    assert.deepEqual(normalizeContainer({ image: 'postgres', env: { PORT: 5432 as any }, ports: [5432] }), {
+        image: 'postgres',
+        env: { PORT: '5432' },
+        ports: ['5432'],
+        volumes: []
+    });
+});
+
+test('starts containers with env values kept off the command line', { skip: process.platform === 'win32' }, withDirectory(async directory => {
+    const { cli, calls } = createStubCli(directory, '');
+    const id = await cli.start({
+        name: 'job-db',
+        network: 'localpipe-net',
+        alias: 'db',
+        definition: { image: 'postgres:16', env: { DB_PASSWORD: 'secret' }, ports: ['5432'], options: '--health-cmd "pg_isready -q"' },
+        mounts: { '/work': '/__w' },
+        workdir: '/__w',
+        entrypoint: ['tail', '-f', '/dev/null']
+    });
+
+    assert.equal(id, 'container-id');
+    assert.equal(calls()[0], 'run -d --name job-db --network localpipe-net --network-alias db -e DB_PASSWORD -p 5432 -v /work:/__w -w /__w '
+        + '--health-cmd pg_isready -q --entrypoint tail postgres:16 -f /dev/null DB_PASSWORD=secret');
+    assert.deepEqual(await cli.ports(id), { '5432': '49153', '6379': '49154' });
+    assert.deepEqual(cli.execArgs(id, '/__w', ['CI'], 'bash', ['-e', 'script.sh']), ['exec', '-w', '/__w', '-e', 'CI', 'container-id', 'bash', '-e', 'script.sh']);
+    await assert.rejects(cli.createNetwork('localpipe-net'), /Failed to create network localpipe-net: network exists/);
+}));
+
+test('waits for health checks and reports unhealthy services', { skip: process.platform === 'win32' }, withDirectory(async directory => {
+    await createStubCli(directory, 'healthy').cli.waitForHealthy('db');
+    await assert.rejects(createStubCli(directory, 'unhealthy').cli.waitForHealthy('db'), /container db is unhealthy/);
+}));
+
+test('explains how to get a container CLI when it is missing', async () => {
+    await assert.rejects(new ContainerCli('localpipe-no-such-cli').run(['ps']), /Container CLI 'localpipe-no-such-cli' was not found on PATH/);
+});
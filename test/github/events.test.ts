@@ -0,0 +1,52 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { buildEventPayload, checkEventTrigger, coerceDispatchInput, getWorkflowTriggers, resolveEventContext } from '../../src/backend/Implementations/github/events';
+
+const defaults = { ref: 'refs/heads/feature', sha: 'abc123', repository: 'octo/app', actor: 'octocat' };
+
+test('normalizes on: to a map of events', () => {
+    assert.deepEqual(getWorkflowTriggers('push'), { push: {} });
+    assert.deepEqual(getWorkflowTriggers(['push', 'pull_request']), { push: {}, pull_request: {} });
+    assert.deepEqual(getWorkflowTriggers({ push: null, release: { types: ['published'] } }), { push: {}, release: { types: ['published'] } });
+});
+
+test('checks the event and its activity types', () => {
+    assert.deepEqual(checkEventTrigger(['push'], 'push', {}), []);
+    assert.deepEqual(checkEventTrigger('push', 'pull_request', {}), ["The workflow is not triggered by 'pull_request' (triggers: push)"]);
+    assert.deepEqual(checkEventTrigger({ pull_request: { types: ['closed'] } }, 'pull_request', { action: 'opened' }), [
+        "The workflow only runs for 'pull_request' activity types closed, not 'opened'"
+    ]);
+});
+
+test('user payloads are merged over the defaults', () => {
+    const payload = buildEventPayload('pull_request', { pull_request: { number: 7, base: { ref: 'develop' } } }, defaults);
+    assert.equal(payload.action, 'opened');
+    assert.deepEqual(payload.pull_request, { number: 7, head: { ref: 'feature', sha: 'abc123' }, base: { ref: 'develop' } });
+    assert.equal(payload.repository.owner.login, 'octo');
+    assert.equal(buildEventPayload('push', {}, defaults).after, 'abc123');
+});
+
+test('derives the refs of pull requests, releases and pushes', () => {
+    const pullRequest = { number: 7, pull_request: { number: 7, head: { ref: 'feature' }, base: { ref: 'main' } } };
+    assert.deepEqual(resolveEventContext('pull_request', pullRequest, 'refs/heads/x'), {
+        event_name: 'pull_request',
+        event: pullRequest,
+        ref: 'refs/pull/7/merge',
+        ref_name: '7/merge',
+        ref_type: 'branch',
+        head_ref: 'feature',
+        base_ref: 'main'
+    });
+    assert.equal(resolveEventContext('pull_request_target', pullRequest, 'refs/heads/x').ref, 'refs/heads/main');
+    const release = resolveEventContext('release', { release: { tag_name: 'v1.0.0' } }, 'refs/heads/x');
+    assert.deepEqual([release.ref, release.ref_name, release.ref_type], ['refs/tags/v1.0.0', 'v1.0.0', 'tag']);
+    assert.equal(resolveEventContext('push', { ref: 'develop' }, 'refs/heads/x').ref, 'refs/heads/develop');
+});
+
+test('coerces workflow_dispatch inputs to their types', () => {
+    assert.equal(coerceDispatchInput('dry-run', { type: 'boolean' }, 'TRUE'), true);
+    assert.equal(coerceDispatchInput('count', { type: 'number' }, ' 3 '), 3);
+    assert.equal(coerceDispatchInput('level', { type: 'choice', options: ['minor', 'major'] }, 'major'), 'major');
+    assert.throws(() => coerceDispatchInput('count', { type: 'number' }, ''), /expects a number/);
+    assert.throws(() => coerceDispatchInput('level', { type: 'choice', options: ['minor'] }, 'patch'), /must be one of minor but got 'patch'/);
+});
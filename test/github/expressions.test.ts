@@ -0,0 +1,68 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { evaluateCondition, evaluateExpression, interpolateString, usesStatusFunction, ExpressionError } from '../../src/backend/Implementations/github/expressions';
+
+const context = {
+    contexts: {
+        github: { ref: 'refs/heads/main', event_name: 'push' },
+        matrix: { node: 20 },
+        steps: { build: { outputs: { version: '1.2.3' } } },
+        needs: { a: { result: 'success' }, b: { result: 'failure' } }
+    }
+};
+
+test('reads contexts and compares values loosely', () => {
+    assert.equal(evaluateExpression("github.ref == 'refs/heads/main'", context), true);
+    assert.equal(evaluateExpression("matrix.node == '20'", context), true);
+    assert.equal(evaluateExpression("steps.build.outputs['version']", context), '1.2.3');
+    assert.equal(evaluateExpression("GITHUB.EVENT_NAME", context), 'push');
+});
+
+test('filters map over objects', () => {
+    assert.deepEqual(evaluateExpression('needs.*.result', context), ['success', 'failure']);
+    assert.equal(evaluateExpression("contains(needs.*.result, 'failure')", context), true);
+});
+
+test('calls the built-in functions', () => {
+    assert.equal(evaluateExpression("format('{0}-{1}', 'v', matrix.node)", context), 'v-20');
+    assert.equal(evaluateExpression("startsWith(github.ref, 'refs/heads/')", context), true);
+    assert.equal(evaluateExpression("join(fromJSON('[1,2]'), '+')", context), '1+2');
+    assert.equal(evaluateExpression("!(matrix.node > 18) || 'fallback'", context), 'fallback');
+});
+
+test('conditions default to success() and apply the job status', () => {
+    assert.equal(evaluateCondition(undefined, { ...context, status: 'success' }), true);
+    assert.equal(evaluateCondition(undefined, { ...context, status: 'failure' }), false);
+    assert.equal(evaluateCondition('${{ always() }}', { ...context, status: 'failure' }), true);
+    assert.equal(evaluateCondition("github.event_name == 'pull_request'", { ...context, status: 'success' }), false);
+    assert.equal(evaluateCondition("github.event_name == 'push'", { ...context, status: 'failure' }), false);
+    assert.equal(evaluateCondition("failure() && github.event_name == 'push'", { ...context, status: 'failure' }), true);
+});
+
+test('detects status functions', () => {
+    assert.equal(usesStatusFunction("cancelled() || failure()"), true);
+    assert.equal(usesStatusFunction("github.event_name == 'success()'"), false);
+});
+
+test('interpolates expressions into strings', () => {
+    assert.equal(interpolateString('node-${{ matrix.node }}-${{ steps.build.outputs.version }}', context), 'node-20-1.2.3');
+});
+
+test('reports syntax errors', () => {
+    assert.throws(() => evaluateExpression('github.ref ==', context), ExpressionError);
+});
+
+test('hashFiles() hashes the matching files of the workspace', () => {
+    const workspace = fs.mkdtempSync(path.join(os.tmpdir(), 'localpipe-test-'));
+    try {
+        fs.writeFileSync(path.join(workspace, 'package-lock.json'), '{}');
+        const hash = evaluateExpression("hashFiles('**/package-lock.json')", { ...context, workspace });
+        assert.match(hash, /^[0-9a-f]{64}$/);
+        assert.equal(evaluateExpression("hashFiles('missing/**')", { ...context, workspace }), '');
+    } finally {
+        fs.rmSync(workspace, { recursive: true, force: true });
+    }
+});
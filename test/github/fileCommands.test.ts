@@ -0,0 +1,45 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { createFileCommandFiles, fileCommandEnvironment, parseKeyValueCommands, readFileCommands } from '../../src/backend/Implementations/github/fileCommands';
+
+test('parses name=value lines', () => {
+    assert.deepEqual(parseKeyValueCommands('version=1.2.3\r\nempty=\n\nurl=https://x?a=b\n'), { version: '1.2.3', empty: '', url: 'https://x?a=b' });
+});
+
+test('parses heredoc blocks', () => {
+    const content = 'notes<<EOF\nline 1\n\nline=3\nEOF\nafter=yes\n';
+    assert.deepEqual(parseKeyValueCommands(content), { notes: 'line 1\n\nline=3', after: 'yes' });
+});
+
+test('rejects malformed commands', () => {
+    assert.throws(() => parseKeyValueCommands('no-separator'), /Invalid format 'no-separator'/);
+    assert.throws(() => parseKeyValueCommands('notes<<EOF\nnever closed'), /Matching delimiter 'EOF' not found for 'notes'/);
+    assert.throws(() => parseKeyValueCommands('notes<<\nvalue'), /Missing heredoc delimiter for 'notes'/);
+});
+
+test('creates empty command files and reads back what a step wrote', () => {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'localpipe-test-'));
+    try {
+        const files = createFileCommandFiles(path.join(directory, 'step'));
+        assert.equal(fileCommandEnvironment(files).GITHUB_OUTPUT, files.output);
+        assert.deepEqual(readFileCommands(files), { outputs: {}, env: {}, path: [], summary: '', state: {} });
+
+        fs.appendFileSync(files.output, 'result=ok\n');
+        fs.appendFileSync(files.env, 'MODE<<END\nfast\nEND\n');
+        fs.appendFileSync(files.path, '/opt/tool/bin\n\n/usr/local/go/bin\n');
+        fs.appendFileSync(files.summary, '## Done\n');
+        fs.appendFileSync(files.state, 'pid=42\n');
+        assert.deepEqual(readFileCommands(files), {
+            outputs: { result: 'ok' },
+            env: { MODE: 'fast' },
+            path: ['/opt/tool/bin', '/usr/local/go/bin'],
+            summary: '## Done\n',
+            state: { pid: '42' }
+        });
+    } finally {
+        fs.rmSync(directory, { recursive: true, force: true });
+    }
+});
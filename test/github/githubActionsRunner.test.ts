@@ -0,0 +1,207 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { GitHubActionsRunner } from '../../src/backend/Implementations/githubActionsRunner';
+import { RunnerOptions } from '../../src/backend/pipelineInterface';
+
+/**
+ * Write files into a temporary repository and run the first workflow of
+ * `.github/workflows`. `options` may refer to the repository as `<root>`.
+ */
+async function runWorkflows(
+    t: any,
+    workflows: Record<string, string>,
+    files: Record<string, string> = {},
+    options: RunnerOptions = {}
+): Promise<{ result: Boolean | undefined; output: string; root: string }> {
+    const root = fs.mkdtempSync(path.join(os.tmpdir(), 'localpipe-test-'));
+    const directory = path.join(root, '.github', 'workflows');
+    fs.mkdirSync(directory, { recursive: true });
+    for (const [name, content] of Object.entries(workflows)) {
+        fs.writeFileSync(path.join(directory, name), content);
+    }
+    for (const [name, content] of Object.entries(files)) {
+        fs.mkdirSync(path.dirname(path.join(root, name)), { recursive: true });
+        fs.writeFileSync(path.join(root, name), content);
+    }
+
+    const lines: string[] = [];
+    t.mock.method(console, 'log', (message: any) => lines.push(String(message)));
+    try {
+        const resolved = JSON.parse(JSON.stringify(options).split('<root>').join(root.split(path.sep).join('/')));
+        const result = await new GitHubActionsRunner(false, resolved).execute(path.join(directory, Object.keys(workflows)[0]));
+        return { result, output: lines.join('\n'), root };
+    } finally {
+        t.mock.restoreAll();
+        fs.rmSync(root, { recursive: true, force: true });
+    }
+}
+
+test('parallel calls of the same reusable workflow keep their own command files', async t => {
+    const { result, output } = await runWorkflows(t, {
+        'main.yml': `
+on: push
+jobs:
+  call-a:
+    uses: ./.github/workflows/reusable.yml
+    with:
+      value: a
+  call-b:
+    uses: ./.github/workflows/reusable.yml
+    with:
+      value: b
+  check:
+    needs: [call-a, call-b]
+    runs-on: ubuntu-latest
+    steps:
+      - run: test "\${{ needs.call-a.outputs.value }}" = a && test "\${{ needs.call-b.outputs.value }}" = b
+`,
+        'reusable.yml': `
+on:
+  workflow_call:
+    inputs:
+      value:
+        type: string
+    outputs:
+      value:
+        value: \${{ jobs.build.outputs.value }}
+jobs:
+  build:
+    runs-on: ubuntu-latest
+    outputs:
+      value: \${{ steps.write.outputs.value }}
+    steps:
+      - id: write
+        run: |
+          echo "value=\${{ inputs.value }}" >> "$GITHUB_OUTPUT"
+          sleep 1
+`
+    });
+    assert.equal(result, true, output);
+});
+
+test('pre entry points of JavaScript actions run when the job starts', async t => {
+    const action = (preIf: string) => `
+inputs:
+  log:
+    required: true
+runs:
+  using: node20
+  pre: pre.js
+  pre-if: ${preIf}
+  main: main.js
+`;
+    const append = (text: string) => `require('fs').appendFileSync(process.env.INPUT_LOG, '${text}\\n');`;
+    const { result, output } = await runWorkflows(t, {
+        'main.yml': `
+on: push
+jobs:
+  build:
+    runs-on: ubuntu-latest
+    steps:
+      - run: echo first >> log.txt && exit 1
+      - uses: acme/tool@v1
+        if: always()
+        with:
+          log: log.txt
+      - uses: acme/skipped@v1
+        if: always()
+        with:
+          log: log.txt
+      - if: always()
+        run: test "$(cat log.txt)" = "$(printf 'pre\\nfirst\\nmain\\nmain')"
+`
+    }, {
+        'store/acme/tool@v1/action.yml': action("runner.os == runner.os"),
+        'store/acme/tool@v1/pre.js': append('pre'),
+        'store/acme/tool@v1/main.js': append('main'),
+        'store/acme/skipped@v1/action.yml': action('false'),
+        'store/acme/skipped@v1/pre.js': append('skipped pre'),
+        'store/acme/skipped@v1/main.js': append('main')
+    }, { actionsDir: '<root>/store' });
+
+    // The first step fails on purpose: pre ran before it all the same
+    assert.equal(result, false, output);
+    assert.match(output, /Step 1 failed/);
+    assert.match(output, /Pre step skipped: condition 'false' is false/);
+    assert.match(output, /Step 4 completed/, output);
+});
+
+test('steps use defaults.run and their own working-directory', async t => {
+    const { result, output } = await runWorkflows(t, {
+        'main.yml': `
+on: push
+defaults:
+  run:
+    working-directory: app
+jobs:
+  build:
+    runs-on: ubuntu-latest
+    defaults:
+      run:
+        shell: bash
+    steps:
+      - run: test "$(basename "$PWD")" = app && [[ -n "$BASH_VERSION" ]]
+      - run: test "$(basename "$PWD")" = lib
+        working-directory: app/lib
+`
+    }, { 'app/lib/.keep': '' });
+    assert.equal(result, true, output);
+});
+
+test('continue-on-error keeps the failure in the outcome but not in the conclusion', async t => {
+    const { result, output } = await runWorkflows(t, {
+        'main.yml': `
+on: push
+jobs:
+  flaky:
+    runs-on: ubuntu-latest
+    continue-on-error: true
+    steps:
+      - run: exit 1
+  build:
+    runs-on: ubuntu-latest
+    steps:
+      - id: lint
+        run: exit 3
+        continue-on-error: true
+      - run: test "\${{ steps.lint.outcome }}/\${{ steps.lint.conclusion }}" = failure/success
+  report:
+    needs: [flaky, build]
+    runs-on: ubuntu-latest
+    steps:
+      - run: test "\${{ needs.flaky.result }}" = success
+`
+    });
+    assert.equal(result, true, output);
+});
+
+test('environments add their vars and secrets and protected ones need approval', async t => {
+    const workflow = `
+on: push
+jobs:
+  deploy:
+    runs-on: ubuntu-latest
+    environment:
+      name: Production
+      url: \${{ steps.release.outputs.url }}
+    steps:
+      - id: release
+        run: echo "url=https://example.com/\${{ vars.REGION }}" >> "$GITHUB_OUTPUT"
+      - run: test "\${{ vars.REGION }}/\${{ vars.TEAM }}/\${{ secrets.TOKEN }}" = eu/core/prod-token
+`;
+    const files = {
+        '.localpipe/vars.yml': 'REGION: us\nTEAM: core\n',
+        '.localpipe/environments.yml': 'production:\n  protected: true\n  vars:\n    REGION: eu\n  secrets:\n    TOKEN: prod-token\n'
+    };
+
+    const approved = await runWorkflows(t, { 'main.yml': workflow }, files, { yes: true });
+    assert.equal(approved.result, true, approved.output);
+    assert.match(approved.output, /deploy.*→ Production \(https:\/\/example\.com\/eu\)/);
+
+    const waiting = await runWorkflows(t, { 'main.yml': workflow }, files);
+    assert.equal(waiting.result, false);
+    assert.match(waiting.output, /Environment 'Production' is protected/);
+});
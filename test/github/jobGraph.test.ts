@@ -0,0 +1,36 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { buildJobGraph, normalizeNeeds } from '../../src/backend/Implementations/github/jobGraph';
+
+test('normalizes needs to distinct job ids', () => {
+    assert.deepEqual(normalizeNeeds(undefined), []);
+    assert.deepEqual(normalizeNeeds('build'), ['build']);
+    assert.deepEqual(normalizeNeeds(['build', 'lint', 'build']), ['build', 'lint']);
+});
+
+test('orders jobs after the jobs they need, keeping declaration order otherwise', () => {
+    const graph = buildJobGraph({ deploy: { needs: ['test', 'build'] }, test: { needs: 'build' }, build: {}, lint: {} });
+    assert.deepEqual(graph.errors, []);
+    assert.deepEqual(graph.order, ['build', 'test', 'deploy', 'lint']);
+});
+
+test('a duplicated dependency is not a cycle', () => {
+    const graph = buildJobGraph({ build: {}, test: { needs: ['build', 'build'] } });
+    assert.deepEqual(graph.errors, []);
+    assert.deepEqual(graph.order, ['build', 'test']);
+});
+
+test('reports unknown and self dependencies', () => {
+    assert.deepEqual(buildJobGraph({ test: { needs: ['build', 'test'] } }).errors, [
+        "Job 'test' depends on unknown job 'build'",
+        "Job 'test' depends on itself"
+    ]);
+    assert.deepEqual(buildJobGraph({ Deploy: { needs: 'Build' } }, 'Stage').errors, ["Stage 'Deploy' depends on unknown stage 'Build'"]);
+});
+
+test('reports cycles', () => {
+    const graph = buildJobGraph({ a: { needs: 'c' }, b: { needs: 'a' }, c: { needs: 'b' }, d: {} });
+    assert.deepEqual(graph.order, ['d']);
+    assert.equal(graph.errors.length, 1);
+    assert.match(graph.errors[0], /^Dependency cycle detected: /);
+});
@@ -0,0 +1,68 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { describeCombination, expandMatrix, filterMatrix } from '../../src/backend/Implementations/github/matrix';
+
+test('expands the cartesian product of the axes', () => {
+    assert.deepEqual(expandMatrix({ os: ['linux', 'windows'], node: [18, 20] }), [
+        { os: 'linux', node: 18 },
+        { os: 'linux', node: 20 },
+        { os: 'windows', node: 18 },
+        { os: 'windows', node: 20 }
+    ]);
+});
+
+test('removes excluded combinations', () => {
+    assert.deepEqual(expandMatrix({ os: ['linux', 'windows'], node: [18, 20], exclude: [{ os: 'windows', node: 18 }] }), [
+        { os: 'linux', node: 18 },
+        { os: 'linux', node: 20 },
+        { os: 'windows', node: 20 }
+    ]);
+});
+
+test('includes extend matching combinations without overwriting axis values', () => {
+    assert.deepEqual(expandMatrix({ os: ['linux', 'windows'], include: [{ os: 'windows', shell: 'pwsh' }, { experimental: true }] }), [
+        { os: 'linux', experimental: true },
+        { os: 'windows', shell: 'pwsh', experimental: true }
+    ]);
+});
+
+test('includes that match no combination are added as new combinations', () => {
+    assert.deepEqual(expandMatrix({ os: ['linux'], include: [{ os: 'macos', node: 20 }] }), [
+        { os: 'linux' },
+        { os: 'macos', node: 20 }
+    ]);
+});
+
+test('includes never extend combinations added by earlier includes', () => {
+    assert.deepEqual(expandMatrix({ os: ['linux'], include: [{ os: 'macos' }, { os: 'windows' }] }), [
+        { os: 'linux' },
+        { os: 'macos' },
+        { os: 'windows' }
+    ]);
+});
+
+test('a matrix with only includes has one combination per include', () => {
+    assert.deepEqual(expandMatrix({ include: [{ os: 'linux', node: 18 }, { os: 'windows', node: 20 }] }), [
+        { os: 'linux', node: 18 },
+        { os: 'windows', node: 20 }
+    ]);
+});
+
+test('jobs without a matrix run once', () => {
+    assert.deepEqual(expandMatrix(undefined), [{}]);
+    assert.deepEqual(expandMatrix({ os: ['linux'], exclude: [{ os: 'linux' }] }), [{}]);
+});
+
+test('rejects axes that are not lists', () => {
+    assert.throws(() => expandMatrix({ os: 'linux' }), /Matrix axis 'os' must be a list/);
+});
+
+test('filters ignore keys a combination does not have', () => {
+    const combinations = [{ os: 'linux', node: 18 }, { os: 'linux', node: 20 }, { os: 'windows' }];
+    assert.deepEqual(filterMatrix(combinations, { node: '20' }), [{ os: 'linux', node: 20 }, { os: 'windows' }]);
+});
+
+test('names instances by their values', () => {
+    assert.equal(describeCombination('build', { node: 20, os: 'ubuntu-latest' }), 'build (20, ubuntu-latest)');
+    assert.equal(describeCombination('build', {}), 'build');
+});
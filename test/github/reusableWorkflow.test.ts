@@ -0,0 +1,45 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { bindWorkflowCallInputs, bindWorkflowCallSecrets, getWorkflowCallTrigger } from '../../src/backend/Implementations/github/reusableWorkflow';
+
+test('finds the workflow_call trigger', () => {
+    assert.deepEqual(getWorkflowCallTrigger('workflow_call'), {});
+    assert.deepEqual(getWorkflowCallTrigger(['push', 'workflow_call']), {});
+    assert.deepEqual(getWorkflowCallTrigger({ workflow_call: null }), {});
+    assert.deepEqual(getWorkflowCallTrigger({ workflow_call: { inputs: { a: {} } } }), { inputs: { a: {} } });
+    assert.equal(getWorkflowCallTrigger({ push: {} }), null);
+});
+
+test('binds inputs with defaults and types', () => {
+    const trigger = {
+        inputs: {
+            name: { type: 'string' as const, default: 'app' },
+            debug: { type: 'boolean' as const },
+            retries: { type: 'number' as const, default: 1 }
+        }
+    };
+    assert.deepEqual(bindWorkflowCallInputs(trigger, { debug: 'true', retries: '3' }), {
+        values: { name: 'app', debug: true, retries: 3 },
+        errors: []
+    });
+});
+
+test('reports undeclared, missing and mistyped inputs', () => {
+    const trigger = { inputs: { version: { required: true }, debug: { type: 'boolean' as const } } };
+    assert.deepEqual(bindWorkflowCallInputs(trigger, { debug: 'yes', extra: 1 }).errors, [
+        "Invalid input, 'extra' is not defined in the referenced workflow",
+        "Input 'version' is required, but not provided while calling",
+        "Input 'debug' expects a boolean but got 'yes'"
+    ]);
+});
+
+test('passes mapped or inherited secrets and always the token', () => {
+    const caller = { GITHUB_TOKEN: 't', NPM_TOKEN: 'n', OTHER: 'o' };
+    const trigger = { secrets: { npm: { required: true } } };
+    assert.deepEqual(bindWorkflowCallSecrets(trigger, { npm: 'n' }, caller), { values: { npm: 'n', GITHUB_TOKEN: 't' }, errors: [] });
+    assert.deepEqual(bindWorkflowCallSecrets({}, 'inherit', caller).values, caller);
+    assert.deepEqual(bindWorkflowCallSecrets(trigger, { other: 'o' }, caller).errors, [
+        "Invalid secret, 'other' is not defined in the referenced workflow",
+        "Secret 'npm' is required, but not provided while calling"
+    ]);
+});
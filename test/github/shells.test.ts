@@ -0,0 +1,41 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { buildShellCommand, isCommandAvailable, prepareScript, resolveShell, shellExecutable } from '../../src/backend/Implementations/github/shells';
+
+test('resolves the shells GitHub documents', () => {
+    assert.deepEqual(resolveShell('bash'), { name: 'bash', template: 'bash --noprofile --norc -eo pipefail {0}', extension: '.sh' });
+    assert.deepEqual(resolveShell(' SH '), { name: 'sh', template: 'sh -e {0}', extension: '.sh' });
+    assert.equal(resolveShell('pwsh').extension, '.ps1');
+});
+
+test('defaults to bash -e where bash is installed', { skip: process.platform === 'win32' }, () => {
+    const expected = isCommandAvailable('bash') ? 'bash -e {0}' : 'sh -e {0}';
+    assert.equal(resolveShell(undefined).template, expected);
+});
+
+test('accepts custom shells with a {0} placeholder', () => {
+    assert.deepEqual(resolveShell('perl {0}'), { name: 'perl {0}', template: 'perl {0}', extension: '' });
+    assert.throws(() => resolveShell('perl'), /must contain the '\{0\}' placeholder/);
+});
+
+test('builds commands with quoted sections kept together', () => {
+    assert.deepEqual(buildShellCommand(resolveShell('bash'), '/tmp/script.sh'), {
+        command: 'bash',
+        args: ['--noprofile', '--norc', '-eo', 'pipefail', '/tmp/script.sh']
+    });
+    assert.deepEqual(buildShellCommand(resolveShell('pwsh'), '/tmp/s.ps1'), { command: 'pwsh', args: ['-command', ". '/tmp/s.ps1'"] });
+    assert.equal(shellExecutable(resolveShell('python {0} --verbose')), 'python');
+});
+
+test('wraps PowerShell scripts and converts cmd line endings', () => {
+    const wrapped = prepareScript(resolveShell('pwsh'), 'Write-Host hi');
+    assert.match(wrapped, /^\$ErrorActionPreference = 'stop'\nWrite-Host hi\n/);
+    assert.equal(prepareScript(resolveShell('cmd'), 'echo a\necho b'), 'echo a\r\necho b');
+    assert.equal(prepareScript(resolveShell('sh'), 'echo a\n'), 'echo a\n');
+});
+
+test('checks the default shell in the environment the script runs in', () => {
+    assert.equal(resolveShell(undefined, command => command !== 'bash').name, 'sh');
+    assert.equal(resolveShell(undefined, () => true).template, 'bash -e {0}');
+    assert.equal(resolveShell('python', command => command === 'python3').template, 'python3 {0}');
+});
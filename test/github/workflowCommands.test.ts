@@ -0,0 +1,57 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { SecretMasker, WorkflowCommandProcessor, formatAnnotation, parseWorkflowCommand } from '../../src/backend/Implementations/github/workflowCommands';
+
+test('parses commands with properties and escaped values', () => {
+    assert.deepEqual(parseWorkflowCommand('::error file=app.js,line=3,title=Bad%3A one::Broken%0Abuild'), {
+        name: 'error',
+        properties: { file: 'app.js', line: '3', title: 'Bad: one' },
+        value: 'Broken\nbuild'
+    });
+    assert.deepEqual(parseWorkflowCommand('  ::ADD-MASK::s3cret'), { name: 'add-mask', properties: {}, value: 's3cret' });
+    assert.equal(parseWorkflowCommand('plain output'), null);
+    assert.equal(parseWorkflowCommand('a ::warning::not at the start'), null);
+});
+
+test('masks every registered secret, longest first', () => {
+    const masker = new SecretMasker();
+    masker.add('abc');
+    masker.add('abcdef');
+    masker.add('line one\nline two');
+    assert.equal(masker.mask('abcdef abc line two'), '*** *** ***');
+});
+
+test('folds groups, applies masks and collects annotations', () => {
+    const masker = new SecretMasker();
+    const streamed: string[] = [];
+    const processor = new WorkflowCommandProcessor(masker, false, line => streamed.push(line));
+
+    processor.write('::add-mask::hunter2\nbefore hunter2\n::group::Install\nstep 1\nst');
+    processor.write('ep 2\n::endgroup::\n::debug::hidden\n::warning file=a.ts,line=4::Careful\n');
+    processor.write('::stop-commands::token\n::error::literal\n::token::\nlast');
+    processor.flush();
+
+    assert.deepEqual(processor.annotations, [{ level: 'warning', message: 'Careful', title: undefined, file: 'a.ts', line: '4', endLine: undefined, col: undefined, endColumn: undefined }]);
+
+    const plain = (lines: string[]) => lines.map(line => line.replace(/\x1b\[[0-9;]*m/g, ''));
+    assert.deepEqual(plain(processor.render(false)), [
+        'before ***',
+        '▸ Install (2 lines)',
+        '⚠️  Careful (a.ts:4)',
+        '::error::literal',
+        'last'
+    ]);
+    assert.deepEqual(plain(processor.render(true)).slice(1, 4), ['▾ Install', '  step 1', '  step 2']);
+    assert.equal(streamed.length, 7);
+});
+
+test('shows debug messages only when verbose', () => {
+    const processor = new WorkflowCommandProcessor(new SecretMasker(), true);
+    processor.write('::debug::details\n');
+    assert.deepEqual(processor.render(false).map(line => line.replace(/\x1b\[[0-9;]*m/g, '')), ['[debug] details']);
+});
+
+test('formats annotations with their location', () => {
+    const formatted = formatAnnotation({ level: 'error', message: 'Failed', title: 'Lint', file: 'src/x.ts', line: '10', col: '2' });
+    assert.equal(formatted.replace(/\x1b\[[0-9;]*m/g, ''), '❌ Lint: Failed (src/x.ts:10:2)');
+});